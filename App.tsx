@@ -2,14 +2,42 @@ import { StatusBar } from 'expo-status-bar';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { ThemeProvider } from './context/ThemeContext.tsx';
+import { ProfileProvider } from './context/ProfileContext.tsx';
 import HomeScreen from './screens/HomeScreen.tsx';
 import AddEntryScreen from './screens/AddEntryScreen.tsx';
+import EntryDetailScreen from './screens/EntryDetailScreen.tsx';
+import CommentsScreen from './screens/CommentsScreen.tsx';
+import MapScreen from './screens/MapScreen.tsx';
+import SearchScreen from './screens/SearchScreen.tsx';
+import SavedScreen from './screens/SavedScreen.tsx';
+import BackupScreen from './screens/BackupScreen.tsx';
+import DraftsScreen from './screens/DraftsScreen.tsx';
+import NotificationSettingsScreen from './screens/NotificationSettingsScreen.tsx';
+import TrashScreen from './screens/TrashScreen.tsx';
+import TagsScreen from './screens/TagsScreen.tsx';
+import AppearanceScreen from './screens/AppearanceScreen.tsx';
+import StatsScreen from './screens/StatsScreen.tsx';
+import CalendarScreen from './screens/CalendarScreen.tsx';
+import TimelineScreen from './screens/TimelineScreen.tsx';
+import SyncSettingsScreen from './screens/SyncSettingsScreen.tsx';
+import ProfileScreen from './screens/ProfileScreen.tsx';
+import PrivacySettingsScreen from './screens/PrivacySettingsScreen.tsx';
+import LoadingView from './components/LoadingView.tsx';
+import LockScreen from './components/LockScreen.tsx';
+import { initEntryStorage, onEntriesChanged, purgeExpiredTrash } from './storage/entryRepository.ts';
+import { importExistingPhotos } from './storage/photoMigration.ts';
+import { onSyncQueued } from './storage/syncQueue.ts';
+import { getAppLock, lockApp } from './storage/appLockRepository.ts';
+import { rescheduleNotifications } from './utils/scheduledNotifications.ts';
+import { requestSync } from './utils/sync.ts';
+import { RootStackParamList } from './navigation/types.ts';
+import { navigationRef, openNotificationTarget } from './navigation/navigationRef.ts';
 import * as Notifications from 'expo-notifications';
 import * as Location from 'expo-location';
 import * as ImagePicker from 'expo-image-picker';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useEffect, useState } from 'react';
-import { Alert, View, ActivityIndicator, Platform } from 'react-native';
+import { useEffect, useRef, useState } from 'react';
+import { Alert, Platform, AppState } from 'react-native';
 
 // Configure notifications
 Notifications.setNotificationHandler({
@@ -20,29 +48,101 @@ Notifications.setNotificationHandler({
   }),
 });
 
-const Stack = createNativeStackNavigator();
-
-type RootStackParamList = {
-  Home: undefined;
-  AddEntry: undefined;
-};
+const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function App() {
   const [isLoading, setIsLoading] = useState(true);
+  const [isNavigationReady, setIsNavigationReady] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+  // Covers both cold starts from a notification and taps while running
+  const lastNotificationResponse = Notifications.useLastNotificationResponse();
 
   useEffect(() => {
     checkAndRequestPermissions();
   }, []);
 
+  // Memories and reminders are rebuilt on every entry change so they never
+  // open a deleted entry. Coming back to the app moves the scheduling window
+  // forward and picks up trip edits.
+  useEffect(() => {
+    rescheduleNotifications();
+    const unsubscribe = onEntriesChanged(() => {
+      rescheduleNotifications();
+    });
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        rescheduleNotifications();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, []);
+
+  // Sync sends local changes shortly after they are queued, and catches up at
+  // startup and whenever the app comes back to the foreground
+  useEffect(() => {
+    requestSync();
+    const unsubscribe = onSyncQueued(() => {
+      requestSync();
+    });
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        requestSync();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+    };
+  }, []);
+
+  // With a PIN set, the app locks again once it has been in the background
+  // for longer than the chosen timeout
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async state => {
+      if (state === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (state === 'active' && backgroundedAt.current !== null) {
+        const awayMs = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        try {
+          const appLock = await getAppLock();
+          if (appLock && awayMs >= appLock.timeoutMs) {
+            lockApp();
+            setIsLocked(true);
+          }
+        } catch (error) {
+          console.error('Error checking app lock:', error);
+        }
+      }
+    });
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isNavigationReady && lastNotificationResponse) {
+      openNotificationTarget(lastNotificationResponse.notification.request.content.data);
+    }
+  }, [isNavigationReady, lastNotificationResponse]);
+
   async function checkAndRequestPermissions() {
     try {
+      await prepareEntryStorage();
+      await prepareEntryPhotos();
+      setIsLocked((await getAppLock()) !== null);
+
       // Check if this is the first launch
       const isFirstLaunch = await AsyncStorage.getItem('isFirstLaunch');
       
       if (!isFirstLaunch) {
         // Show welcome message and request permissions
         Alert.alert(
-          'Welcome to Aljo\'s Travel Diary!',
+          'Welcome to your Travel Diary!',
           'To provide the best experience, we need to request some permissions:',
           [
             {
@@ -65,6 +165,40 @@ export default function App() {
     }
   }
 
+  async function prepareEntryStorage() {
+    try {
+      const report = await initEntryStorage();
+      if (report.quarantined.length > 0 || report.corrupt) {
+        // Nothing is deleted: unreadable entries are kept aside in storage
+        Alert.alert(
+          'Some Entries Need Attention',
+          report.corrupt
+            ? 'Your saved entries could not be read. A backup of the original data has been kept.'
+            : `${report.quarantined.length} saved ${report.quarantined.length === 1 ? 'entry is' : 'entries are'} missing a photo and could not be shown. ${report.quarantined.length === 1 ? 'It has' : 'They have'} been kept aside so nothing is lost.`,
+          [{ text: 'OK' }]
+        );
+      }
+      await purgeExpiredTrash();
+    } catch (error) {
+      console.error('Error initializing entry storage:', error);
+    }
+  }
+
+  async function prepareEntryPhotos() {
+    try {
+      const report = await importExistingPhotos();
+      if (report && report.flagged.length > 0) {
+        Alert.alert(
+          'Some Photos Are Missing',
+          `${report.flagged.length} ${report.flagged.length === 1 ? 'entry has' : 'entries have'} photos that are no longer on this device. ${report.flagged.length === 1 ? 'It is' : 'They are'} marked in your diary; edit ${report.flagged.length === 1 ? 'it' : 'them'} to replace the photos.`,
+          [{ text: 'OK' }]
+        );
+      }
+    } catch (error) {
+      console.error('Error moving photos into app storage:', error);
+    }
+  }
+
   async function requestPermissions() {
     try {
       // Request Camera permissions
@@ -122,16 +256,6 @@ export default function App() {
           );
         }
       }
-
-      // Initialize AsyncStorage
-      try {
-        const existingEntries = await AsyncStorage.getItem('travelEntries');
-        if (!existingEntries) {
-          await AsyncStorage.setItem('travelEntries', JSON.stringify([]));
-        }
-      } catch (error) {
-        console.error('Error initializing AsyncStorage:', error);
-      }
     } catch (error) {
       console.error('Error requesting permissions:', error);
     }
@@ -139,28 +263,142 @@ export default function App() {
 
   if (isLoading) {
     return (
-      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-        <ActivityIndicator size="large" color="#0095f6" />
-      </View>
-  );
+      <ThemeProvider>
+        <LoadingView />
+      </ThemeProvider>
+    );
   }
 
+  // At startup the screens wait for the unlock, so their first load includes
+  // private entries. A later lock covers them instead, keeping their place.
+  const showNavigation = !isLocked || isNavigationReady;
+
   return (
     <ThemeProvider>
-      <NavigationContainer>
-        <Stack.Navigator>
-          <Stack.Screen 
-            name="Home" 
-            component={HomeScreen}
-            options={{ headerShown: false }}
-          />
-          <Stack.Screen 
-            name="AddEntry" 
-            component={AddEntryScreen}
-            options={{ headerShown: false }}
-          />
-        </Stack.Navigator>
-      </NavigationContainer>
+      <ProfileProvider>
+        {showNavigation && (
+          <NavigationContainer ref={navigationRef} onReady={() => setIsNavigationReady(true)}>
+            <Stack.Navigator>
+              <Stack.Screen 
+                name="Home" 
+                component={HomeScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="AddEntry" 
+                component={AddEntryScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="EditEntry" 
+                component={AddEntryScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="EntryDetail" 
+                component={EntryDetailScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="TripFeed" 
+                component={HomeScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Comments" 
+                component={CommentsScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="TagFeed" 
+                component={HomeScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Map" 
+                component={MapScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Search" 
+                component={SearchScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Saved" 
+                component={SavedScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Backup" 
+                component={BackupScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Drafts" 
+                component={DraftsScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="NotificationSettings" 
+                component={NotificationSettingsScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Trash" 
+                component={TrashScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Tags" 
+                component={TagsScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Appearance" 
+                component={AppearanceScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Stats" 
+                component={StatsScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="EntryList" 
+                component={HomeScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Calendar" 
+                component={CalendarScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Timeline" 
+                component={TimelineScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="SyncSettings" 
+                component={SyncSettingsScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="Profile" 
+                component={ProfileScreen}
+                options={{ headerShown: false }}
+              />
+              <Stack.Screen 
+                name="PrivacySettings" 
+                component={PrivacySettingsScreen}
+                options={{ headerShown: false }}
+              />
+            </Stack.Navigator>
+          </NavigationContainer>
+        )}
+        {isLocked && <LockScreen onUnlocked={() => setIsLocked(false)} />}
+      </ProfileProvider>
     </ThemeProvider>
   );
 }
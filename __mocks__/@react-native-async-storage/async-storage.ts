@@ -0,0 +1,2 @@
+// The package's own in-memory stand-in; tests clear it between cases
+export { default } from '@react-native-async-storage/async-storage/jest/async-storage-mock';
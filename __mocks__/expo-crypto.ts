@@ -0,0 +1,4 @@
+// Random bytes from Node in place of the native module
+import { randomBytes } from 'crypto';
+
+export const getRandomBytes = (count: number) => new Uint8Array(randomBytes(count));
@@ -0,0 +1,57 @@
+// An in-memory file system with the parts of expo-file-system the app uses.
+// Tests seed and inspect it through the same calls, and clear it with
+// deleteAsync(documentDirectory).
+const files = new Map<string, Buffer>();
+
+export const documentDirectory = 'file:///document/';
+export const cacheDirectory = 'file:///cache/';
+
+export const EncodingType = { UTF8: 'utf8', Base64: 'base64' } as const;
+
+type Encoding = (typeof EncodingType)[keyof typeof EncodingType];
+
+const notFound = (uri: string) => new Error(`File '${uri}' does not exist`);
+
+export const getInfoAsync = async (uri: string) => {
+  const file = files.get(uri);
+  return file ? { exists: true, isDirectory: false, uri, size: file.length } : { exists: false, isDirectory: false, uri };
+};
+
+export const makeDirectoryAsync = async () => {};
+
+export const readDirectoryAsync = async (uri: string) =>
+  [...files.keys()].filter(key => key.startsWith(uri)).map(key => key.slice(uri.length));
+
+export const copyAsync = async ({ from, to }: { from: string; to: string }) => {
+  const file = files.get(from);
+  if (!file) throw notFound(from);
+  files.set(to, Buffer.from(file));
+};
+
+export const moveAsync = async ({ from, to }: { from: string; to: string }) => {
+  await copyAsync({ from, to });
+  files.delete(from);
+};
+
+// A directory URI removes everything under it
+export const deleteAsync = async (uri: string, options: { idempotent?: boolean } = {}) => {
+  const matches = [...files.keys()].filter(key => key === uri || (uri.endsWith('/') && key.startsWith(uri)));
+  if (matches.length === 0 && !uri.endsWith('/') && !options.idempotent) throw notFound(uri);
+  matches.forEach(key => files.delete(key));
+};
+
+export const readAsStringAsync = async (
+  uri: string,
+  options: { encoding?: Encoding; position?: number; length?: number } = {}
+) => {
+  const file = files.get(uri);
+  if (!file) throw notFound(uri);
+  if (options.encoding !== 'base64') return file.toString('utf8');
+  const start = options.position ?? 0;
+  const end = options.length === undefined ? file.length : start + options.length;
+  return file.subarray(start, end).toString('base64');
+};
+
+export const writeAsStringAsync = async (uri: string, data: string, options: { encoding?: Encoding } = {}) => {
+  files.set(uri, Buffer.from(data, options.encoding === 'base64' ? 'base64' : 'utf8'));
+};
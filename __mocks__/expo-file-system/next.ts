@@ -0,0 +1,37 @@
+// File handles over the in-memory expo-file-system stand-in. The real handles
+// are synchronous; the stand-in's async calls change its map before their
+// first await, so these are too.
+import { deleteAsync, writeAsStringAsync } from 'expo-file-system';
+
+class FileHandle {
+  private chunks: Buffer[] = [];
+
+  constructor(private uri: string) {}
+
+  writeBytes(bytes: Uint8Array) {
+    this.chunks.push(Buffer.from(bytes));
+  }
+
+  close() {
+    writeAsStringAsync(this.uri, Buffer.concat(this.chunks).toString('base64'), { encoding: 'base64' });
+  }
+}
+
+export class File {
+  exists = false;
+
+  constructor(public uri: string) {}
+
+  create() {
+    this.exists = true;
+  }
+
+  delete() {
+    this.exists = false;
+    deleteAsync(this.uri, { idempotent: true });
+  }
+
+  open() {
+    return new FileHandle(this.uri);
+  }
+}
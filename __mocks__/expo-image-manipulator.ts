@@ -0,0 +1,13 @@
+// Thumbnails are plain copies of the photo
+import { cacheDirectory, copyAsync } from 'expo-file-system';
+
+let resized = 0;
+
+export const SaveFormat = { JPEG: 'jpeg', PNG: 'png' } as const;
+
+export const manipulateAsync = async (uri: string) => {
+  resized += 1;
+  const output = `${cacheDirectory}manipulated-${resized}.jpg`;
+  await copyAsync({ from: uri, to: output });
+  return { uri: output, width: 240, height: 240 };
+};
@@ -0,0 +1,81 @@
+// The single `travelEntries` array entries were stored in before each got its
+// own record, reduced to the operations the benchmark times. It does what the
+// repository did then, so `npm run benchmark:storage -- --before` can
+// reproduce the README's "Before" column.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ENTRIES_KEY, NewTravelEntry, TRASH_KEY, TravelEntry, TrashedEntry } from '../storage/entryRepository.ts';
+import { openEntry, sealEntry } from '../storage/privateEntries.ts';
+import { queueEntryChange } from '../storage/syncQueue.ts';
+
+const readStoredEntries = async (): Promise<TravelEntry[]> => {
+  const entriesStr = await AsyncStorage.getItem(ENTRIES_KEY);
+  return entriesStr ? JSON.parse(entriesStr) : [];
+};
+
+const openEntries = (stored: TravelEntry[]): TravelEntry[] =>
+  stored.flatMap(entry => {
+    const opened = openEntry(entry);
+    return opened ? [opened] : [];
+  });
+
+const writeEntries = async (stored: TravelEntry[]) => {
+  await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(stored));
+};
+
+const readTrash = async (): Promise<TrashedEntry[]> => {
+  const trashStr = await AsyncStorage.getItem(TRASH_KEY);
+  return trashStr ? JSON.parse(trashStr) : [];
+};
+
+export const getEntries = async (): Promise<TravelEntry[]> => openEntries(await readStoredEntries());
+
+// What the Home screen did: every entry, sorted, then the first page shown
+export const getFeed = async (): Promise<TravelEntry[]> =>
+  (await getEntries()).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+export const getEntry = async (id: string): Promise<TravelEntry | undefined> =>
+  (await getEntries()).find(entry => entry.id === id);
+
+export const addEntry = async (input: NewTravelEntry): Promise<TravelEntry> => {
+  const stored = await readStoredEntries();
+  const entry: TravelEntry = {
+    ...input,
+    id: input.id ?? Date.now().toString(),
+    date: input.date ?? new Date().toISOString(),
+  };
+  await writeEntries([...stored, sealEntry(entry)]);
+  await queueEntryChange(null, entry);
+  return entry;
+};
+
+export const updateEntry = async (id: string, changes: Partial<Omit<TravelEntry, 'id'>>): Promise<TravelEntry> => {
+  const stored = await readStoredEntries();
+  const index = stored.findIndex(entry => entry.id === id);
+  const current = index === -1 ? null : openEntry(stored[index]);
+  if (!current) {
+    throw new Error(`Entry ${id} not found`);
+  }
+  const updated = { ...current, ...changes, id };
+  const updatedStored = [...stored];
+  updatedStored[index] = sealEntry(updated);
+  await writeEntries(updatedStored);
+  await queueEntryChange(current, updated);
+  return updated;
+};
+
+export const trashEntry = async (id: string): Promise<TravelEntry[]> => {
+  const stored = await readStoredEntries();
+  const entry = stored.find(e => e.id === id);
+  if (!entry) {
+    throw new Error(`Entry ${id} not found`);
+  }
+  const trash = await readTrash();
+  await AsyncStorage.setItem(
+    TRASH_KEY,
+    JSON.stringify([...trash.filter(trashed => trashed.entry.id !== id), { entry, deletedAt: new Date().toISOString() }])
+  );
+  const updatedStored = stored.filter(e => e.id !== id);
+  await writeEntries(updatedStored);
+  await queueEntryChange(openEntry(entry), null);
+  return openEntries(updatedStored);
+};
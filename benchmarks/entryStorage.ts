@@ -0,0 +1,136 @@
+// Times the entry repository on a generated diary of ENTRY_COUNT entries,
+// starting from the single array older versions stored. Run it with
+// `npm run benchmark:storage`; see README.md for results. With `--before` it
+// times that single array instead (see arrayStorage.ts).
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ENTRIES_KEY,
+  SCHEMA_VERSION_KEY,
+  TravelEntry,
+  addEntry,
+  getEntries,
+  getEntry,
+  getEntryPage,
+  initEntryStorage,
+  onEntriesChanged,
+  trashEntry,
+  updateEntry,
+} from '../storage/entryRepository.ts';
+import { CURRENT_SCHEMA_VERSION } from '../storage/migrations.ts';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  saveNotificationSettings,
+} from '../storage/notificationSettingsRepository.ts';
+import { rescheduleNotifications } from '../utils/scheduledNotifications.ts';
+import * as arrayStorage from './arrayStorage.ts';
+
+const ENTRY_COUNT = 5000;
+const PAGE_SIZE = 30;
+// Each operation is timed this many times and the median reported
+const RUNS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// About the size of a real entry: a caption, a few photos, a reverse-geocoded
+// place and tags. Dates are shuffled, as entries are often written up later.
+const generateEntries = (count: number): TravelEntry[] => {
+  const start = Date.parse('2021-01-01T00:00:00.000Z');
+  return Array.from({ length: count }, (_, i) => ({
+    id: String(start + i),
+    title: `Day ${i + 1} in the old town`,
+    description: 'Walked along the river to the market, then up to the castle for the sunset. #food #sunset',
+    images: Array.from({ length: 1 + (i % 4) }, (_, photo) => `file:///benchmark/photos/${i}-${photo}.jpg`),
+    coverIndex: 0,
+    location: {
+      coords: {
+        latitude: 41.38 + (i % 100) / 1000,
+        longitude: 2.17 + (i % 50) / 1000,
+        altitude: 12,
+        accuracy: 5,
+        altitudeAccuracy: 3,
+        heading: 0,
+        speed: 0,
+      },
+      timestamp: start + i * DAY_MS,
+    },
+    address: 'Carrer de la Princesa 12, Barcelona, Spain',
+    place: { street: 'Carrer de la Princesa 12', city: 'Barcelona', region: 'Catalonia', country: 'Spain' },
+    locationSource: 'photo',
+    date: new Date(start + ((i * 7919) % count) * (DAY_MS / 4)).toISOString(),
+    dateSource: 'photo',
+    tripId: i % 10 === 0 ? undefined : `trip-${Math.floor(i / 50)}`,
+    tags: ['food', 'sunset'],
+  }));
+};
+
+// Median time of RUNS calls; each call gets its run number
+const median = async (operation: (run: number) => Promise<unknown>) => {
+  const times: number[] = [];
+  for (let run = 0; run < RUNS; run++) {
+    const start = performance.now();
+    await operation(run);
+    times.push(performance.now() - start);
+  }
+  return times.sort((a, b) => a - b)[Math.floor(RUNS / 2)];
+};
+
+// The current layout, after the first launch split the array into records.
+// Saves are timed the way the app makes them: until the memories and
+// reminders App.tsx reschedules after every change are rebuilt.
+const timeRecords = async (entries: TravelEntry[]): Promise<[string, number][]> => {
+  const results: [string, number][] = [];
+  const splitStart = performance.now();
+  await initEntryStorage();
+  results.push(['Split the old array into records (once)', performance.now() - splitStart]);
+
+  await saveNotificationSettings({
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    reminder: { ...DEFAULT_NOTIFICATION_SETTINGS.reminder, enabled: true },
+  });
+  results.push(['Rebuild notifications', await median(() => rescheduleNotifications())]);
+  let rebuilt = Promise.resolve();
+  onEntriesChanged(() => {
+    rebuilt = rescheduleNotifications();
+  });
+  const saved = async (save: Promise<unknown>) => {
+    await save;
+    await rebuilt;
+  };
+
+  results.push(['Open the feed (first page)', await median(() => getEntryPage({ offset: 0, limit: PAGE_SIZE, order: 'newest' }))]);
+  results.push(['Load the next page', await median(() => getEntryPage({ offset: PAGE_SIZE, limit: PAGE_SIZE, order: 'newest' }))]);
+  results.push(['Load every entry', await median(() => getEntries())]);
+  results.push(['Open one entry', await median(run => getEntry(entries[run * 100].id))]);
+  results.push(['Add an entry', await median(run => saved(addEntry({ ...entries[run], id: `added-${run}` })))]);
+  results.push(['Edit an entry', await median(run => saved(updateEntry(entries[run * 10].id, { title: 'Edited' })))]);
+  results.push(['Move an entry to the Trash', await median(run => saved(trashEntry(entries[ENTRY_COUNT - 1 - run].id)))]);
+  return results;
+};
+
+// The single array; every page of the feed loaded and sorted the whole diary
+const timeArray = async (entries: TravelEntry[]): Promise<[string, number][]> => [
+  ['Open the feed (first page)', await median(() => arrayStorage.getFeed())],
+  ['Load every entry', await median(() => arrayStorage.getEntries())],
+  ['Open one entry', await median(run => arrayStorage.getEntry(entries[run * 100].id))],
+  ['Add an entry', await median(run => arrayStorage.addEntry({ ...entries[run], id: `added-${run}` }))],
+  ['Edit an entry', await median(run => arrayStorage.updateEntry(entries[run * 10].id, { title: 'Edited' }))],
+  ['Move an entry to the Trash', await median(run => arrayStorage.trashEntry(entries[ENTRY_COUNT - 1 - run].id))],
+];
+
+const main = async () => {
+  const entries = generateEntries(ENTRY_COUNT);
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(entries));
+  await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+
+  const before = process.argv.includes('--before');
+  const results = before ? await timeArray(entries) : await timeRecords(entries);
+
+  console.log(`${ENTRY_COUNT} entries, ${before ? 'single array' : 'records'}, median of ${RUNS} runs`);
+  results.forEach(([label, ms]) => console.log(`${label.padEnd(44)}${ms.toFixed(1).padStart(9)} ms`));
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,59 @@
+// Runs the compiled benchmark with the native modules the repository imports
+// swapped for in-memory stand-ins. The timings cover reading, parsing and
+// writing entries in JavaScript, not the phone's disk or the native bridge.
+const Module = require('module');
+const path = require('path');
+const fs = require('fs');
+const { randomBytes } = require('crypto');
+
+const outDir = path.join(__dirname, '..', '.benchmark');
+// The app's package.json marks .js files as ES modules; tsc emits CommonJS here
+fs.writeFileSync(path.join(outDir, 'package.json'), '{ "type": "commonjs" }\n');
+
+const store = new Map();
+const asyncStorage = {
+  getItem: async key => (store.has(key) ? store.get(key) : null),
+  setItem: async (key, value) => {
+    store.set(key, value);
+  },
+  removeItem: async key => {
+    store.delete(key);
+  },
+  multiGet: async keys => keys.map(key => [key, store.has(key) ? store.get(key) : null]),
+  multiSet: async pairs => {
+    pairs.forEach(([key, value]) => store.set(key, value));
+  },
+  multiRemove: async keys => {
+    keys.forEach(key => store.delete(key));
+  },
+  clear: async () => {
+    store.clear();
+  },
+};
+
+const stubs = {
+  '@react-native-async-storage/async-storage': { __esModule: true, default: asyncStorage },
+  'expo-file-system': {
+    documentDirectory: 'file:///benchmark/',
+    deleteAsync: async () => {},
+    getInfoAsync: async () => ({ exists: false }),
+    makeDirectoryAsync: async () => {},
+  },
+  'expo-image-manipulator': {},
+  'expo-crypto': { getRandomBytes: count => new Uint8Array(randomBytes(count)) },
+  'expo-location': {},
+  // Scheduling is the native side's work; only the planning is timed
+  'expo-notifications': {
+    SchedulableTriggerInputTypes: { DATE: 'date' },
+    getAllScheduledNotificationsAsync: async () => [],
+    cancelScheduledNotificationAsync: async () => {},
+    scheduleNotificationAsync: async () => 'scheduled',
+  },
+};
+
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  return Object.prototype.hasOwnProperty.call(stubs, request) ? stubs[request] : load.call(this, request, ...rest);
+};
+
+require(path.join(outDir, 'benchmarks', 'entryStorage.js'));
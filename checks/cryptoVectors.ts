@@ -0,0 +1,120 @@
+// Known-answer tests for utils/crypto.ts, from the RFCs each primitive comes
+// from. Run them with `npm run check:crypto` after touching that file; any
+// mismatch throws and the command fails.
+import {
+  DecryptionError,
+  chacha20,
+  decryptText,
+  encryptText,
+  fromHex,
+  hmacSha256,
+  pbkdf2,
+  sha256,
+  toHex,
+  utf8Decode,
+  utf8Encode,
+} from '../utils/crypto.ts';
+
+const text = (value: string) => utf8Encode(value);
+
+const repeat = (byte: number, length: number) => new Uint8Array(length).fill(byte);
+
+let passed = 0;
+
+const expectHex = (name: string, actual: Uint8Array, expected: string) => {
+  if (toHex(actual) !== expected) {
+    throw new Error(`${name}: expected ${expected}, got ${toHex(actual)}`);
+  }
+  passed += 1;
+};
+
+const expect = (name: string, condition: boolean) => {
+  if (!condition) {
+    throw new Error(`${name} failed`);
+  }
+  passed += 1;
+};
+
+// SHA-256 (FIPS 180-4 examples)
+expectHex('SHA-256 empty', sha256(new Uint8Array(0)), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+expectHex('SHA-256 "abc"', sha256(text('abc')), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+expectHex(
+  'SHA-256 two blocks',
+  sha256(text('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')),
+  '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+);
+expectHex(
+  'SHA-256 one million "a"',
+  sha256(repeat(0x61, 1000000)),
+  'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0'
+);
+
+// HMAC-SHA256 (RFC 4231 test cases 1, 2 and 6)
+expectHex(
+  'HMAC case 1',
+  hmacSha256(repeat(0x0b, 20), text('Hi There')),
+  'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+);
+expectHex(
+  'HMAC case 2',
+  hmacSha256(text('Jefe'), text('what do ya want for nothing?')),
+  '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+);
+expectHex(
+  'HMAC case 6, key longer than a block',
+  hmacSha256(repeat(0xaa, 131), text('Test Using Larger Than Block-Size Key - Hash Key First')),
+  '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+);
+
+// PBKDF2-HMAC-SHA256 (RFC 7914 section 11)
+expectHex(
+  'PBKDF2 1 iteration',
+  pbkdf2(text('passwd'), text('salt'), 1, 64),
+  '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc' +
+    '49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'
+);
+expectHex(
+  'PBKDF2 80000 iterations',
+  pbkdf2(text('Password'), text('NaCl'), 80000, 64),
+  '4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56' +
+    'a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d'
+);
+
+// ChaCha20 (RFC 8439 section 2.4.2)
+const sunscreen =
+  "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.";
+const chachaKey = Uint8Array.from({ length: 32 }, (_, i) => i);
+const chachaNonce = fromHex('000000000000004a00000000');
+const chachaExpected =
+  '6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b' +
+  'f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8' +
+  '07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736' +
+  '5af90bbf74a35be6b40b8eedf2785e42874d';
+expectHex('ChaCha20 encrypt', chacha20(chachaKey, chachaNonce, text(sunscreen), 1), chachaExpected);
+expect(
+  'ChaCha20 decrypt',
+  utf8Decode(chacha20(chachaKey, chachaNonce, fromHex(chachaExpected), 1)) === sunscreen
+);
+
+// Sealing private entry text
+const entryKey = repeat(7, 32);
+const secret = 'Café in Kraków 🌧️';
+const sealed = encryptText(entryKey, secret);
+expect('Sealed text opens with its key', decryptText(entryKey, sealed) === secret);
+expect('Sealing twice differs', encryptText(entryKey, secret) !== sealed);
+
+const rejects = (name: string, open: () => unknown) => {
+  try {
+    open();
+  } catch (error) {
+    expect(name, error instanceof DecryptionError);
+    return;
+  }
+  throw new Error(`${name}: opened when it should not have`);
+};
+rejects('Wrong key is rejected', () => decryptText(repeat(8, 32), sealed));
+const [prefix, nonce, ciphertext, tag] = sealed.split(':');
+const flipped = (ciphertext[0] === '0' ? '1' : '0') + ciphertext.slice(1);
+rejects('Changed ciphertext is rejected', () => decryptText(entryKey, [prefix, nonce, flipped, tag].join(':')));
+
+console.log(`${passed} crypto checks passed`);
@@ -0,0 +1,21 @@
+// Runs the compiled checks in Node, with expo-crypto's random bytes taken
+// from Node's crypto module
+const Module = require('module');
+const path = require('path');
+const fs = require('fs');
+const { randomBytes } = require('crypto');
+
+const outDir = path.join(__dirname, '..', '.checks');
+// The app's package.json marks .js files as ES modules; tsc emits CommonJS here
+fs.writeFileSync(path.join(outDir, 'package.json'), '{ "type": "commonjs" }\n');
+
+const stubs = {
+  'expo-crypto': { getRandomBytes: count => new Uint8Array(randomBytes(count)) },
+};
+
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  return Object.prototype.hasOwnProperty.call(stubs, request) ? stubs[request] : load.call(this, request, ...rest);
+};
+
+require(path.join(outDir, 'checks', 'cryptoVectors.js'));
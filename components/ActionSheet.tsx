@@ -0,0 +1,113 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Pressable,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+
+export type ActionSheetOption = {
+  label: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+type ActionSheetProps = {
+  visible: boolean;
+  title?: string;
+  options: ActionSheetOption[];
+  onClose: () => void;
+};
+
+const ActionSheet: React.FC<ActionSheetProps> = ({ visible, title, options, onClose }) => {
+  const { colors } = useTheme();
+
+  const handlePress = (option: ActionSheetOption) => {
+    // Close first so any Alert opened by the option isn't hidden behind the modal
+    onClose();
+    option.onPress();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <SafeAreaView
+        edges={['bottom']}
+        style={[styles.sheet, { backgroundColor: colors.elevated }]}
+      >
+        <View style={[styles.handle, { backgroundColor: colors.border }]} />
+        {title && (
+          <Text style={[styles.title, { color: colors.secondaryText }]} numberOfLines={1}>
+            {title}
+          </Text>
+        )}
+        {options.map((option, index) => {
+          const color = option.destructive ? colors.danger : colors.text;
+          return (
+            <TouchableOpacity
+              key={`${index}-${option.label}`}
+              style={[styles.option, { borderTopColor: colors.divider }]}
+              onPress={() => handlePress(option)}
+            >
+              {option.icon && <Ionicons name={option.icon} size={22} color={color} />}
+              <Text style={[styles.optionText, { color }]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.option, styles.cancelOption, { borderTopColor: colors.divider }]}
+          onPress={onClose}
+        >
+          <Text style={[styles.optionText, { color: colors.text }]}>Cancel</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 8,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 13,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 0.5,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  cancelOption: {
+    justifyContent: 'center',
+  },
+});
+
+export default ActionSheet;
@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Modal, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import {
+  Collection,
+  addCollection,
+  getCollections,
+  setEntryCollections,
+} from '../storage/collectionRepository.ts';
+import TextPromptModal from './TextPromptModal.tsx';
+
+type CollectionPickerModalProps = {
+  // The entry being filed; the modal is hidden while this is null
+  entryId: string | null;
+  onClose: () => void;
+  onSaved: (collectionIds: string[]) => void;
+};
+
+const CollectionPickerModal: React.FC<CollectionPickerModalProps> = ({ entryId, onClose, onSaved }) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showNewCollection, setShowNewCollection] = useState(false);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    if (entryId) loadCollections(entryId);
+  }, [entryId]);
+
+  const loadCollections = async (id: string) => {
+    try {
+      const loaded = await getCollections();
+      setCollections(loaded);
+      setSelectedIds(loaded.filter(collection => collection.entryIds.includes(id)).map(c => c.id));
+    } catch (error) {
+      console.error('Error loading collections:', error);
+    }
+  };
+
+  const toggle = (collectionId: string) => {
+    setSelectedIds(selectedIds.includes(collectionId)
+      ? selectedIds.filter(id => id !== collectionId)
+      : [...selectedIds, collectionId]);
+  };
+
+  const createCollection = async (name: string) => {
+    try {
+      const collection = await addCollection(name);
+      setCollections([...collections, collection]);
+      setSelectedIds([...selectedIds, collection.id]);
+      setShowNewCollection(false);
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      Alert.alert('Error', 'Failed to create collection');
+    }
+  };
+
+  const save = async () => {
+    if (!entryId) return;
+    try {
+      await setEntryCollections(entryId, selectedIds);
+      onSaved(selectedIds);
+    } catch (error) {
+      console.error('Error saving collections:', error);
+      Alert.alert('Error', 'Failed to update collections');
+    }
+  };
+
+  return (
+    <Modal visible={entryId !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Text style={[styles.headerAction, { color: colors.text }]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Save to Collection</Text>
+          <TouchableOpacity onPress={save} style={styles.headerButton}>
+            <Text style={[styles.headerAction, styles.doneText, { color: colors.accent }]}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={collections}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => {
+            const selected = selectedIds.includes(item.id);
+            return (
+              <TouchableOpacity
+                style={[styles.row, { borderBottomColor: colors.divider }]}
+                onPress={() => toggle(item.id)}
+              >
+                <Text style={[styles.rowText, { color: colors.text }]}>{item.name}</Text>
+                <Ionicons
+                  name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={24}
+                  color={selected ? colors.accent : colors.border}
+                />
+              </TouchableOpacity>
+            );
+          }}
+          ListFooterComponent={
+            <TouchableOpacity style={styles.row} onPress={() => setShowNewCollection(true)}>
+              <Text style={[styles.rowText, styles.doneText, { color: colors.accent }]}>New collection</Text>
+              <Ionicons name="add-circle-outline" size={24} color={colors.accent} />
+            </TouchableOpacity>
+          }
+        />
+
+        <TextPromptModal
+          visible={showNewCollection}
+          title="New Collection"
+          placeholder="e.g. Places to revisit"
+          submitLabel="Create"
+          onSubmit={createCollection}
+          onClose={() => setShowNewCollection(false)}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerAction: {
+    fontSize: 16,
+  },
+  doneText: {
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 0.5,
+    borderBottomColor: 'transparent',
+  },
+  rowText: {
+    fontSize: 16,
+  },
+});
+
+export default CollectionPickerModal;
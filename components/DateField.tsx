@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+
+type DateFieldProps = {
+  label: string;
+  value: Date | null;
+  onChange: (date: Date) => void;
+  mode?: 'date' | 'time';
+  placeholder?: string;
+  minimumDate?: Date;
+  maximumDate?: Date;
+};
+
+// A tappable row that opens the native picker: a dialog on Android, an
+// inline spinner with a Done button on iOS
+const DateField: React.FC<DateFieldProps> = ({
+  label,
+  value,
+  onChange,
+  mode = 'date',
+  placeholder = 'Select',
+  minimumDate,
+  maximumDate,
+}) => {
+  const [showPicker, setShowPicker] = useState(false);
+  const { colors, isDarkMode } = useTheme();
+  const { formatDate } = useProfile();
+
+  const handleChange = (event: DateTimePickerEvent, date?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowPicker(false);
+    }
+    if (event.type === 'set' && date) {
+      onChange(date);
+    }
+  };
+
+  const formatted = value
+    ? mode === 'time'
+      ? value.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+      : formatDate(value)
+    : placeholder;
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.row, { backgroundColor: colors.surface }]}
+        onPress={() => setShowPicker(!showPicker)}
+      >
+        <Text style={[styles.label, { color: colors.secondaryText }]}>{label}</Text>
+        <View style={styles.valueRow}>
+          <Text style={[styles.value, { color: value ? colors.text : colors.mutedText }]}>
+            {formatted}
+          </Text>
+          <Ionicons name={mode === 'time' ? 'time-outline' : 'calendar-outline'} size={18} color={colors.accent} />
+        </View>
+      </TouchableOpacity>
+
+      {showPicker && (
+        <View>
+          <DateTimePicker
+            value={value ?? new Date()}
+            mode={mode}
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            minimumDate={minimumDate}
+            maximumDate={maximumDate}
+            onChange={handleChange}
+            themeVariant={isDarkMode ? 'dark' : 'light'}
+          />
+          {Platform.OS === 'ios' && (
+            <TouchableOpacity style={styles.doneButton} onPress={() => setShowPicker(false)}>
+              <Text style={[styles.doneText, { color: colors.accent }]}>Done</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+  },
+  label: {
+    fontSize: 14,
+  },
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  value: {
+    fontSize: 16,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    padding: 8,
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default DateField;
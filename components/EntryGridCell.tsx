@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TravelEntry, getCoverThumbnail } from '../storage/entryRepository.ts';
+
+type EntryGridCellProps = {
+  entry: TravelEntry;
+  size: number;
+  // Space left of and above the cell
+  spacing: number;
+  saved: boolean;
+  onPress: (entry: TravelEntry) => void;
+  onLongPress: (entry: TravelEntry) => void;
+};
+
+// A square thumbnail in the profile grid. Memoized, so pass stable callbacks:
+// a grid can hold thousands of these.
+const EntryGridCell: React.FC<EntryGridCellProps> = ({ entry, size, spacing, saved, onPress, onLongPress }) => (
+  <TouchableOpacity
+    activeOpacity={0.8}
+    style={{ width: size, height: size, marginLeft: spacing, marginTop: spacing }}
+    onPress={() => onPress(entry)}
+    onLongPress={() => onLongPress(entry)}
+  >
+    <Image source={{ uri: getCoverThumbnail(entry) }} style={styles.image} />
+    <View style={styles.badges}>
+      {saved && <Ionicons name="bookmark" size={14} color="#ffffff" style={styles.badge} />}
+      {entry.images.length > 1 && <Ionicons name="copy" size={14} color="#ffffff" style={styles.badge} />}
+    </View>
+  </TouchableOpacity>
+);
+
+const styles = StyleSheet.create({
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  badges: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  badge: {
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+});
+
+export default React.memo(EntryGridCell);
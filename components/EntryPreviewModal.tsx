@@ -0,0 +1,92 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  Dimensions,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { TravelEntry } from '../storage/entryRepository.ts';
+import PhotoCarousel from './PhotoCarousel.tsx';
+
+const { width } = Dimensions.get('window');
+const PREVIEW_WIDTH = width - 32;
+
+type EntryPreviewModalProps = {
+  // Hidden while null
+  entry: TravelEntry | null;
+  onOpen: (entry: TravelEntry) => void;
+  onClose: () => void;
+};
+
+// A quick look at an entry from the grid. Tapping the photo opens the entry;
+// tapping anywhere else closes the preview.
+const EntryPreviewModal: React.FC<EntryPreviewModalProps> = ({ entry, onOpen, onClose }) => {
+  const { colors } = useTheme();
+  const { formatDate } = useProfile();
+
+  return (
+    <Modal visible={entry !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        {entry && (
+          <View style={[styles.card, { backgroundColor: colors.elevated }]}>
+            <PhotoCarousel
+              images={entry.images}
+              width={PREVIEW_WIDTH}
+              height={PREVIEW_WIDTH}
+              onPress={() => onOpen(entry)}
+            />
+            <View style={styles.details}>
+              <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+                {entry.title}
+              </Text>
+              <Text style={[styles.meta, { color: colors.mutedText }]} numberOfLines={1}>
+                {formatDate(entry.date)}
+                {entry.address ? ` · ${entry.address}` : ''}
+              </Text>
+              {entry.description ? (
+                <Text style={[styles.description, { color: colors.secondaryText }]} numberOfLines={3}>
+                  {entry.description}
+                </Text>
+              ) : null}
+            </View>
+          </View>
+        )}
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  card: {
+    width: PREVIEW_WIDTH,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  details: {
+    padding: 12,
+    gap: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 12,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
+
+export default EntryPreviewModal;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Text, StyleProp, TextStyle } from 'react-native';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { splitHashtags } from '../utils/tags.ts';
+
+type HashtagTextProps = {
+  text: string;
+  style?: StyleProp<TextStyle>;
+  // Extra tags to list after the caption, e.g. ones added by hand
+  extraTags?: string[];
+  onPressTag: (tag: string) => void;
+};
+
+// A caption whose hashtags can be tapped
+const HashtagText: React.FC<HashtagTextProps> = ({ text, style, extraTags = [], onPressTag }) => {
+  const { colors } = useTheme();
+
+  return (
+    <Text style={style}>
+      {splitHashtags(text).map((segment, index) =>
+        segment.tag ? (
+          <Text key={index} style={{ color: colors.accent }} onPress={() => onPressTag(segment.tag!)}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+      {extraTags.map(tag => (
+        <Text key={`extra-${tag}`} style={{ color: colors.accent }} onPress={() => onPressTag(tag)}>
+          {` #${tag}`}
+        </Text>
+      ))}
+    </Text>
+  );
+};
+
+export default HashtagText;
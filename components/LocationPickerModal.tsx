@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Modal,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MapView, { LatLng, Marker } from 'react-native-maps';
+import * as Location from 'expo-location';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { EntryPlace, getEntries } from '../storage/entryRepository.ts';
+import { KnownPlace, getEntryPlaces, getRecentPlaces } from '../storage/placeRepository.ts';
+import { geocodePlaceName, isEmptyPlace, reverseGeocodePlace } from '../utils/places.ts';
+import { WORLD_REGION } from '../utils/geo.ts';
+
+export type PickedLocation = {
+  coords: LatLng | null;
+  place: EntryPlace;
+};
+
+type LocationPickerModalProps = {
+  visible: boolean;
+  initialCoords: LatLng | null;
+  initialPlace?: EntryPlace;
+  onClose: () => void;
+  // Called with null when the user removes the location
+  onPicked: (picked: PickedLocation | null) => void;
+};
+
+const PLACE_FIELDS: { key: keyof EntryPlace; label: string }[] = [
+  { key: 'name', label: 'Place name' },
+  { key: 'street', label: 'Street' },
+  { key: 'city', label: 'City' },
+  { key: 'region', label: 'Region' },
+  { key: 'country', label: 'Country' },
+];
+
+const PIN_DELTA = 0.02;
+
+const LocationPickerModal: React.FC<LocationPickerModalProps> = ({
+  visible,
+  initialCoords,
+  initialPlace,
+  onClose,
+  onPicked,
+}) => {
+  const [coords, setCoords] = useState<LatLng | null>(null);
+  const [place, setPlace] = useState<EntryPlace>({});
+  const [query, setQuery] = useState('');
+  const [knownPlaces, setKnownPlaces] = useState<KnownPlace[]>([]);
+  const [isLocating, setIsLocating] = useState(false);
+  const mapRef = useRef<MapView>(null);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    if (!visible) return;
+    setCoords(initialCoords);
+    setPlace(initialPlace ?? {});
+    setQuery('');
+    loadKnownPlaces();
+  }, [visible]);
+
+  const loadKnownPlaces = async () => {
+    try {
+      const [recent, entries] = await Promise.all([getRecentPlaces(), getEntries()]);
+      const labels = new Set(recent.map(known => known.label));
+      setKnownPlaces([...recent, ...getEntryPlaces(entries).filter(known => !labels.has(known.label))]);
+    } catch (error) {
+      console.error('Error loading places:', error);
+    }
+  };
+
+  const moveMapTo = (target: LatLng) => {
+    mapRef.current?.animateToRegion({ ...target, latitudeDelta: PIN_DELTA, longitudeDelta: PIN_DELTA });
+  };
+
+  // Dropping the pin somewhere new replaces the address with the one found there
+  const dropPin = async (target: LatLng, name?: string) => {
+    setCoords(target);
+    moveMapTo(target);
+    try {
+      setIsLocating(true);
+      const found = await reverseGeocodePlace(target);
+      setPlace({ ...(found ?? {}), name });
+    } catch (error) {
+      console.error('Error looking up pin address:', error);
+      setPlace({ name });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const locateDevice = async () => {
+    try {
+      setIsLocating(true);
+      const current = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      await dropPin({ latitude: current.coords.latitude, longitude: current.coords.longitude });
+    } catch (error) {
+      console.error('Error getting location:', error);
+      Alert.alert('Location Unavailable', 'Drop the pin on the map or type the place instead.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const choosePlace = (known: KnownPlace) => {
+    setQuery('');
+    setPlace(known.place);
+    setCoords(known.coords);
+    if (known.coords) moveMapTo(known.coords);
+  };
+
+  const searchTypedPlace = async () => {
+    const name = query.trim();
+    if (!name) return;
+    setQuery('');
+    try {
+      setIsLocating(true);
+      const found = await geocodePlaceName(name);
+      if (found) {
+        await dropPin(found, name);
+      } else {
+        // Still usable for filtering by name, just without a pin
+        setCoords(null);
+        setPlace({ name });
+        Alert.alert('Not Found on Map', `"${name}" will be saved without a map pin. You can fill in the city and country below.`);
+      }
+    } catch (error) {
+      console.error('Error searching place:', error);
+      setPlace({ name });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const updateField = (key: keyof EntryPlace, value: string) => {
+    setPlace(current => ({ ...current, [key]: value }));
+  };
+
+  const done = () => {
+    const trimmed: EntryPlace = {};
+    PLACE_FIELDS.forEach(({ key }) => {
+      const value = place[key]?.trim();
+      if (value) trimmed[key] = value;
+    });
+    if (!coords && isEmptyPlace(trimmed)) {
+      Alert.alert('No Location', 'Drop a pin, pick a place or type an address first.');
+      return;
+    }
+    onPicked({ coords, place: trimmed });
+  };
+
+  const lowerQuery = query.trim().toLowerCase();
+  const matches = lowerQuery
+    ? knownPlaces.filter(known => known.label.toLowerCase().includes(lowerQuery)).slice(0, 8)
+    : [];
+
+  const renderKnownPlace = (known: KnownPlace) => (
+    <TouchableOpacity
+      key={known.label}
+      style={[styles.placeRow, { borderBottomColor: colors.divider }]}
+      onPress={() => choosePlace(known)}
+    >
+      <Ionicons name={known.coords ? 'location-outline' : 'text-outline'} size={18} color={colors.accent} />
+      <Text style={[styles.placeLabel, { color: colors.text }]} numberOfLines={1}>{known.label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+              <Text style={[styles.headerAction, { color: colors.text }]}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Location</Text>
+            <TouchableOpacity onPress={done} style={styles.headerButton}>
+              <Text style={[styles.headerAction, styles.doneText, { color: colors.accent }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.searchBar, { backgroundColor: colors.surface }]}>
+            <Ionicons name="search" size={18} color={colors.mutedText} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              placeholder="Search places or type a name"
+              placeholderTextColor={colors.mutedText}
+              value={query}
+              onChangeText={setQuery}
+              onSubmitEditing={searchTypedPlace}
+              returnKeyType="search"
+            />
+            {isLocating && <ActivityIndicator size="small" color={colors.accent} />}
+          </View>
+
+          {lowerQuery ? (
+            <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.matches}>
+              {matches.map(renderKnownPlace)}
+              <TouchableOpacity
+                style={[styles.placeRow, { borderBottomColor: colors.divider }]}
+                onPress={searchTypedPlace}
+              >
+                <Ionicons name="map-outline" size={18} color={colors.accent} />
+                <Text style={[styles.placeLabel, { color: colors.accent }]} numberOfLines={1}>
+                  Find "{query.trim()}" on the map
+                </Text>
+              </TouchableOpacity>
+            </ScrollView>
+          ) : (
+            <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+              <View style={styles.mapContainer}>
+                <MapView
+                  ref={mapRef}
+                  style={styles.map}
+                  // The map remounts after a search, so start from the current pin
+                  initialRegion={
+                    coords ? { ...coords, latitudeDelta: PIN_DELTA, longitudeDelta: PIN_DELTA } : WORLD_REGION
+                  }
+                  onPress={(event) => dropPin(event.nativeEvent.coordinate)}
+                >
+                  {coords && (
+                    <Marker
+                      coordinate={coords}
+                      draggable
+                      onDragEnd={(event) => dropPin(event.nativeEvent.coordinate)}
+                    />
+                  )}
+                </MapView>
+                <Text style={[styles.hint, { color: colors.mutedText }]}>
+                  Tap the map or drag the pin to set the spot
+                </Text>
+              </View>
+
+              <TouchableOpacity style={styles.linkRow} onPress={locateDevice} disabled={isLocating}>
+                <Ionicons name="navigate-outline" size={18} color={colors.accent} />
+                <Text style={[styles.linkText, { color: colors.accent }]}>Use current location</Text>
+              </TouchableOpacity>
+
+              {PLACE_FIELDS.map(({ key, label }) => (
+                <TextInput
+                  key={key}
+                  style={[styles.input, { color: colors.text, backgroundColor: colors.surface }]}
+                  placeholder={label}
+                  placeholderTextColor={colors.mutedText}
+                  value={place[key] ?? ''}
+                  onChangeText={(value) => updateField(key, value)}
+                />
+              ))}
+
+              {knownPlaces.length > 0 && (
+                <View>
+                  <Text style={[styles.sectionTitle, { color: colors.mutedText }]}>Recent and saved places</Text>
+                  {knownPlaces.slice(0, 10).map(renderKnownPlace)}
+                </View>
+              )}
+
+              {(initialCoords || (initialPlace && !isEmptyPlace(initialPlace))) && (
+                <TouchableOpacity style={styles.linkRow} onPress={() => onPicked(null)}>
+                  <Ionicons name="close-circle-outline" size={18} color={colors.danger} />
+                  <Text style={[styles.linkText, { color: colors.accent }, { color: colors.danger }]}>Remove location</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          )}
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerAction: {
+    fontSize: 16,
+  },
+  doneText: {
+    fontWeight: '600',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  content: {
+    padding: 16,
+    paddingTop: 8,
+    gap: 12,
+  },
+  mapContainer: {
+    gap: 6,
+  },
+  map: {
+    height: 240,
+    borderRadius: 8,
+  },
+  hint: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  matches: {
+    paddingHorizontal: 16,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  placeLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+});
+
+export default LocationPickerModal;
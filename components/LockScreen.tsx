@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH, getPinRetryAt, unlockApp } from '../storage/appLockRepository.ts';
+import { formatWait } from '../utils/dates.ts';
+
+type LockScreenProps = {
+  onUnlocked: () => void;
+};
+
+// Covers the whole app until the PIN is entered
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlocked }) => {
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  // Set while guesses are on hold after too many wrong PINs
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    getPinRetryAt()
+      .then(setRetryAt)
+      .catch(error => console.error('Error loading PIN attempts:', error));
+  }, []);
+
+  // Counts down the wait, once a second
+  useEffect(() => {
+    if (retryAt === null) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const waiting = retryAt !== null;
+  const canUnlock = pin.length >= PIN_MIN_LENGTH && !checking && !waiting;
+
+  const handleUnlock = async () => {
+    if (!canUnlock) return;
+    try {
+      setChecking(true);
+      if (await unlockApp(pin)) {
+        onUnlocked();
+        return;
+      }
+      const nextRetryAt = await getPinRetryAt();
+      setNow(Date.now());
+      setRetryAt(nextRetryAt);
+      if (!nextRetryAt) {
+        Alert.alert('Wrong PIN', 'That PIN is not correct. Try again.');
+      }
+    } catch (error) {
+      console.error('Error unlocking app:', error);
+      Alert.alert('Error', 'Failed to unlock');
+    } finally {
+      setPin('');
+      setChecking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.content}>
+        <Ionicons name="lock-closed" size={48} color={colors.accent} />
+        <Text style={[styles.title, { color: colors.text }]}>Travel Diary is Locked</Text>
+        <Text style={[styles.subtitle, { color: waiting ? colors.danger : colors.secondaryText }]}>
+          {retryAt !== null
+            ? `Too many wrong PINs. Try again in ${formatWait(retryAt - now)}.`
+            : 'Enter your PIN to continue'}
+        </Text>
+        <TextInput
+          style={[styles.input, { color: colors.text, backgroundColor: colors.surface }]}
+          value={pin}
+          onChangeText={text => setPin(text.replace(/\D/g, ''))}
+          onSubmitEditing={handleUnlock}
+          placeholder="PIN"
+          placeholderTextColor={colors.mutedText}
+          keyboardType="number-pad"
+          maxLength={PIN_MAX_LENGTH}
+          secureTextEntry
+          autoFocus
+          editable={!checking && !waiting}
+        />
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.accent }, !canUnlock && !checking && styles.disabled]}
+          onPress={handleUnlock}
+          disabled={!canUnlock}
+        >
+          {checking ? (
+            <ActivityIndicator color={colors.onAccent} />
+          ) : (
+            <Text style={[styles.buttonText, { color: colors.onAccent }]}>Unlock</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  input: {
+    alignSelf: 'stretch',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  button: {
+    alignSelf: 'stretch',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default LockScreen;
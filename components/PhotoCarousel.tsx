@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ImageResizeMode,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext.tsx';
+
+type PhotoCarouselProps = {
+  images: string[];
+  width: number;
+  height: number;
+  resizeMode?: ImageResizeMode;
+  onPress?: () => void;
+};
+
+const PhotoCarousel: React.FC<PhotoCarouselProps> = ({
+  images,
+  width,
+  height,
+  resizeMode = 'cover',
+  onPress,
+}) => {
+  const [page, setPage] = useState(0);
+  const { colors } = useTheme();
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setPage(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  const renderImage = ({ item }: { item: string }) => (
+    <TouchableOpacity activeOpacity={0.9} onPress={onPress} disabled={!onPress}>
+      <Image source={{ uri: item }} style={{ width, height }} resizeMode={resizeMode} />
+    </TouchableOpacity>
+  );
+
+  if (images.length === 1) {
+    return renderImage({ item: images[0] });
+  }
+
+  return (
+    <View>
+      <FlatList
+        data={images}
+        renderItem={renderImage}
+        keyExtractor={(item, index) => `${index}-${item}`}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        onMomentumScrollEnd={handleScrollEnd}
+        getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+      />
+      <View style={styles.dots}>
+        {images.map((_, index) => (
+          <View
+            key={index}
+            style={[styles.dot, index === page ? { backgroundColor: colors.accent } : styles.inactiveDot]}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 4,
+    paddingTop: 8,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  inactiveDot: {
+    backgroundColor: '#a8a8a8',
+  },
+});
+
+export default PhotoCarousel;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { mergeTags, normalizeTag } from '../utils/tags.ts';
+
+const MAX_SUGGESTIONS = 6;
+
+type TagInputProps = {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already used on other entries, most used first
+  suggestions: string[];
+};
+
+// Chips for the entry's tags plus a field that completes from tags in use.
+// Space, comma or return finishes a tag.
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions }) => {
+  const [text, setText] = useState('');
+  const { colors } = useTheme();
+
+  const addTag = (raw: string) => {
+    if (normalizeTag(raw)) {
+      onChange(mergeTags(tags, [raw]));
+    }
+    setText('');
+  };
+
+  const handleChangeText = (value: string) => {
+    if (/[\s,]$/.test(value)) {
+      addTag(value.slice(0, -1));
+    } else {
+      setText(value);
+    }
+  };
+
+  const typed = normalizeTag(text);
+  const matches = suggestions
+    .filter(tag => !tags.includes(tag) && (!typed || tag.startsWith(typed)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.field, { backgroundColor: colors.surface }]}>
+        <Ionicons name="pricetag-outline" size={18} color={colors.accent} />
+        {tags.map(tag => (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.tag, { backgroundColor: colors.accent }]}
+            onPress={() => onChange(tags.filter(t => t !== tag))}
+          >
+            <Text style={[styles.tagText, { color: colors.onAccent }]}>#{tag}</Text>
+            <Ionicons name="close" size={14} color={colors.onAccent} />
+          </TouchableOpacity>
+        ))}
+        <TextInput
+          style={[styles.input, { color: colors.text }]}
+          placeholder={tags.length === 0 ? 'Add tags' : ''}
+          placeholderTextColor={colors.mutedText}
+          value={text}
+          onChangeText={handleChangeText}
+          onSubmitEditing={() => addTag(text)}
+          onBlur={() => addTag(text)}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="done"
+          blurOnSubmit={false}
+        />
+      </View>
+      {text.length > 0 && matches.length > 0 && (
+        <View style={styles.suggestions}>
+          {matches.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.suggestion, { backgroundColor: colors.surface }]}
+              onPress={() => addTag(tag)}
+            >
+              <Text style={[styles.suggestionText, { color: colors.text }]}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  field: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    padding: 12,
+    borderRadius: 8,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  tagText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  input: {
+    flexGrow: 1,
+    minWidth: 80,
+    fontSize: 16,
+    padding: 0,
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  suggestion: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  suggestionText: {
+    fontSize: 13,
+  },
+});
+
+export default TagInput;
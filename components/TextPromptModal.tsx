@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal } from 'react-native';
+import { useTheme } from '../context/ThemeContext.tsx';
+
+type TextPromptModalProps = {
+  visible: boolean;
+  title: string;
+  placeholder?: string;
+  initialValue?: string;
+  submitLabel?: string;
+  onSubmit: (value: string) => void;
+  onClose: () => void;
+};
+
+// Cross-platform stand-in for Alert.prompt, which only exists on iOS
+const TextPromptModal: React.FC<TextPromptModalProps> = ({
+  visible,
+  title,
+  placeholder,
+  initialValue = '',
+  submitLabel = 'Save',
+  onSubmit,
+  onClose,
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    if (visible) setValue(initialValue);
+  }, [visible, initialValue]);
+
+  const submit = () => {
+    if (!value.trim()) return;
+    onSubmit(value.trim());
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.dialog, { backgroundColor: colors.elevated }]}>
+          <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: colors.text,
+                backgroundColor: colors.surface,
+              },
+            ]}
+            placeholder={placeholder}
+            placeholderTextColor={colors.mutedText}
+            value={value}
+            onChangeText={setValue}
+            onSubmitEditing={submit}
+            autoFocus
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={onClose} style={styles.action}>
+              <Text style={[styles.actionText, { color: colors.secondaryText }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={submit} disabled={!value.trim()} style={styles.action}>
+              <Text style={[styles.actionText, styles.submitText, { color: colors.accent }, { opacity: value.trim() ? 1 : 0.4 }]}>
+                {submitLabel}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  dialog: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+  },
+  action: {
+    padding: 4,
+  },
+  actionText: {
+    fontSize: 16,
+  },
+  submitText: {
+    fontWeight: '600',
+  },
+});
+
+export default TextPromptModal;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Image,
+  Modal,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { Trip, addTrip, updateTrip } from '../storage/tripRepository.ts';
+import { importPhoto } from '../storage/photoStore.ts';
+import { startOfDay, endOfDay } from '../utils/dates.ts';
+import DateField from './DateField.tsx';
+
+type TripFormModalProps = {
+  visible: boolean;
+  // Edit this trip, or create a new one when omitted
+  trip?: Trip | null;
+  onClose: () => void;
+  onSaved: (trip: Trip) => void;
+};
+
+const TripFormModal: React.FC<TripFormModalProps> = ({ visible, trip, onClose, onSaved }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [coverImage, setCoverImage] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(trip?.name ?? '');
+    setDescription(trip?.description ?? '');
+    setStartDate(trip ? new Date(trip.startDate) : new Date());
+    setEndDate(trip ? new Date(trip.endDate) : null);
+    setCoverImage(trip?.coverImage);
+  }, [visible, trip]);
+
+  const pickCover = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 1,
+      });
+      if (!result.canceled) {
+        setCoverImage(result.assets[0].uri);
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to pick image from gallery');
+      console.error('Error picking trip cover:', error);
+    }
+  };
+
+  const save = async () => {
+    if (!name.trim() || !startDate || !endDate) {
+      Alert.alert('Missing Information', 'Please give the trip a name, a start date and an end date');
+      return;
+    }
+    if (endDate < startDate) {
+      Alert.alert('Invalid Dates', 'The trip cannot end before it starts');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const fields = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        startDate: startOfDay(startDate).toISOString(),
+        endDate: endOfDay(endDate).toISOString(),
+        coverImage: coverImage ? await importPhoto(coverImage) : undefined,
+      };
+      const saved = trip ? await updateTrip(trip.id, fields) : await addTrip(fields);
+      onSaved(saved);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save trip. Please try again.');
+      console.error('Error saving trip:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+  ];
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={{ flex: 1 }}
+        >
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+              <Text style={[styles.headerAction, { color: colors.text }]}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>
+              {trip ? 'Edit Trip' : 'New Trip'}
+            </Text>
+            <TouchableOpacity onPress={save} disabled={isSaving} style={styles.headerButton}>
+              <Text style={[styles.headerAction, styles.saveText, { color: colors.accent }, { opacity: isSaving ? 0.5 : 1 }]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <TouchableOpacity style={styles.coverContainer} onPress={pickCover}>
+              {coverImage ? (
+                <Image source={{ uri: coverImage }} style={styles.cover} />
+              ) : (
+                <View style={[styles.cover, styles.coverPlaceholder, { backgroundColor: colors.surface }]}>
+                  <Ionicons name="image-outline" size={32} color={colors.accent} />
+                </View>
+              )}
+              <Text style={[styles.coverText, { color: colors.accent }]}>{coverImage ? 'Change cover photo' : 'Add cover photo'}</Text>
+            </TouchableOpacity>
+
+            <TextInput
+              style={inputStyle}
+              placeholder="Trip name, e.g. Japan 2025"
+              placeholderTextColor={colors.mutedText}
+              value={name}
+              onChangeText={setName}
+            />
+            <DateField label="Starts" value={startDate} onChange={setStartDate} />
+            <DateField
+              label="Ends"
+              value={endDate}
+              onChange={setEndDate}
+              minimumDate={startDate ?? undefined}
+            />
+            <TextInput
+              style={[...inputStyle, styles.descriptionInput]}
+              placeholder="Description (optional)"
+              placeholderTextColor={colors.mutedText}
+              value={description}
+              onChangeText={setDescription}
+              multiline
+              numberOfLines={3}
+            />
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerAction: {
+    fontSize: 16,
+  },
+  saveText: {
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  coverContainer: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  cover: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+  },
+  coverPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  coverText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  descriptionInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+});
+
+export default TripFormModal;
@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../context/ThemeContext.tsx';
+
+const SNACKBAR_DURATION_MS = 5000;
+
+type UndoSnackbarProps = {
+  // Hidden while null
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+// A bar along the bottom of the screen offering to take back the last action.
+// Dismisses itself after a few seconds.
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ message, onUndo, onDismiss }) => {
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, SNACKBAR_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  if (!message) return null;
+
+  return (
+    <View style={styles.snackbar}>
+      <Text style={styles.message} numberOfLines={2}>{message}</Text>
+      <TouchableOpacity
+        onPress={() => {
+          onDismiss();
+          onUndo();
+        }}
+        style={styles.undoButton}
+      >
+        <Text style={[styles.undoText, { color: colors.accent }]}>Undo</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 32,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#323232',
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  message: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  undoButton: {
+    paddingHorizontal: 4,
+  },
+  undoText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default UndoSnackbar;
@@ -0,0 +1,62 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { DEFAULT_PROFILE, Profile, getProfile, saveProfile } from '../storage/profileRepository.ts';
+import { formatDate, formatDateTime, formatLongDate } from '../utils/dates.ts';
+
+type ProfileContextType = {
+  profile: Profile;
+  updateProfile: (changes: Partial<Profile>) => Promise<void>;
+  // Dates in the format chosen on the Profile screen
+  formatDate: (value: string | Date) => string;
+  formatLongDate: (value: string | Date) => string;
+  formatDateTime: (value: string | Date) => string;
+  // Re-reads the stored profile, e.g. after a backup is restored
+  reloadProfile: () => Promise<void>;
+};
+
+const ProfileContext = createContext<ProfileContextType>({
+  profile: DEFAULT_PROFILE,
+  updateProfile: async () => {},
+  formatDate: value => formatDate(value, DEFAULT_PROFILE.dateFormat),
+  formatLongDate: value => formatLongDate(value, DEFAULT_PROFILE.dateFormat),
+  formatDateTime: value => formatDateTime(value, DEFAULT_PROFILE.dateFormat),
+  reloadProfile: async () => {},
+});
+
+export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [profile, setProfile] = useState<Profile>(DEFAULT_PROFILE);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    try {
+      setProfile(await getProfile());
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    }
+  };
+
+  const updateProfile = async (changes: Partial<Profile>) => {
+    const updated = { ...profile, ...changes };
+    setProfile(updated);
+    await saveProfile(updated);
+  };
+
+  return (
+    <ProfileContext.Provider
+      value={{
+        profile,
+        updateProfile,
+        formatDate: value => formatDate(value, profile.dateFormat),
+        formatLongDate: value => formatLongDate(value, profile.dateFormat),
+        formatDateTime: value => formatDateTime(value, profile.dateFormat),
+        reloadProfile: loadProfile,
+      }}
+    >
+      {children}
+    </ProfileContext.Provider>
+  );
+};
+
+export const useProfile = () => useContext(ProfileContext);
@@ -1,18 +1,115 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+export const THEME_KEY = 'theme';
+export const ACCENT_KEY = 'themeAccent';
+
+// 'system' follows the phone's appearance setting, live
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export const ACCENT_COLORS = {
+  blue: '#0095f6',
+  green: '#1fa855',
+  orange: '#f77f00',
+  pink: '#e1306c',
+  purple: '#8a3ab9',
+  teal: '#00a3a3',
+} as const;
+
+export type AccentName = keyof typeof ACCENT_COLORS;
+
+const DEFAULT_ACCENT: AccentName = 'blue';
+
+// Every colour a screen may draw with. Screens read these instead of picking
+// values from isDarkMode, so a new theme only needs a new palette here.
+export type ThemeColors = {
+  // Screen background
+  background: string;
+  // Modals and sheets that sit above the screen
+  elevated: string;
+  // Grouped content such as settings cards
+  card: string;
+  // Inputs, chips and image placeholders
+  surface: string;
+  text: string;
+  // Captions and body copy
+  secondaryText: string;
+  // Dates, hints and placeholders
+  mutedText: string;
+  border: string;
+  // Hairlines between list rows
+  divider: string;
+  accent: string;
+  // Text and icons drawn on top of the accent colour
+  onAccent: string;
+  danger: string;
+};
+
+const LIGHT_COLORS: Omit<ThemeColors, 'accent'> = {
+  background: '#ffffff',
+  elevated: '#ffffff',
+  card: '#f5f5f5',
+  surface: '#f5f5f5',
+  text: '#000000',
+  secondaryText: '#666666',
+  mutedText: '#999999',
+  border: '#dbdbdb',
+  divider: '#efefef',
+  onAccent: '#ffffff',
+  danger: '#ed4956',
+};
+
+const DARK_COLORS: Omit<ThemeColors, 'accent'> = {
+  background: '#000000',
+  elevated: '#1c1c1e',
+  card: '#1c1c1e',
+  surface: '#333333',
+  text: '#ffffff',
+  secondaryText: '#cccccc',
+  mutedText: '#888888',
+  border: '#333333',
+  divider: '#333333',
+  onAccent: '#ffffff',
+  danger: '#ed4956',
+};
+
 type ThemeContextType = {
+  mode: ThemeMode;
+  // The appearance actually shown, with 'system' resolved
   isDarkMode: boolean;
+  colors: ThemeColors;
+  accent: AccentName;
+  setMode: (mode: ThemeMode) => void;
+  setAccent: (accent: AccentName) => void;
+  // Switches to the opposite of what is showing now
   toggleTheme: () => void;
+  // Re-reads the stored preference, e.g. after a backup is restored
+  reloadTheme: () => Promise<void>;
 };
 
 const ThemeContext = createContext<ThemeContextType>({
+  mode: 'system',
   isDarkMode: false,
+  colors: { ...LIGHT_COLORS, accent: ACCENT_COLORS[DEFAULT_ACCENT] },
+  accent: DEFAULT_ACCENT,
+  setMode: () => {},
+  setAccent: () => {},
   toggleTheme: () => {},
+  reloadTheme: async () => {},
 });
 
+const isThemeMode = (value: string | null): value is ThemeMode =>
+  value === 'light' || value === 'dark' || value === 'system';
+
+const isAccentName = (value: string | null): value is AccentName =>
+  value !== null && value in ACCENT_COLORS;
+
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isDarkMode, setIsDarkMode] = useState(false);
+  const [mode, setModeState] = useState<ThemeMode>('system');
+  const [accent, setAccentState] = useState<AccentName>(DEFAULT_ACCENT);
+  // Updates while the app is open when the phone switches appearance
+  const systemScheme = useColorScheme();
 
   useEffect(() => {
     loadTheme();
@@ -20,30 +117,51 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const loadTheme = async () => {
     try {
-      const savedTheme = await AsyncStorage.getItem('theme');
-      if (savedTheme) {
-        setIsDarkMode(savedTheme === 'dark');
-      }
+      const [savedMode, savedAccent] = await Promise.all([
+        AsyncStorage.getItem(THEME_KEY),
+        AsyncStorage.getItem(ACCENT_KEY),
+      ]);
+      setModeState(isThemeMode(savedMode) ? savedMode : 'system');
+      setAccentState(isAccentName(savedAccent) ? savedAccent : DEFAULT_ACCENT);
     } catch (error) {
       console.error('Error loading theme:', error);
     }
   };
 
-  const toggleTheme = async () => {
+  const setMode = async (newMode: ThemeMode) => {
     try {
-      const newTheme = !isDarkMode;
-      setIsDarkMode(newTheme);
-      await AsyncStorage.setItem('theme', newTheme ? 'dark' : 'light');
+      setModeState(newMode);
+      await AsyncStorage.setItem(THEME_KEY, newMode);
     } catch (error) {
       console.error('Error saving theme:', error);
     }
   };
 
+  const setAccent = async (newAccent: AccentName) => {
+    try {
+      setAccentState(newAccent);
+      await AsyncStorage.setItem(ACCENT_KEY, newAccent);
+    } catch (error) {
+      console.error('Error saving accent colour:', error);
+    }
+  };
+
+  const isDarkMode = mode === 'system' ? systemScheme === 'dark' : mode === 'dark';
+  // Kept stable between renders so screens can depend on it in effects and memos
+  const colors = useMemo<ThemeColors>(
+    () => ({ ...(isDarkMode ? DARK_COLORS : LIGHT_COLORS), accent: ACCENT_COLORS[accent] }),
+    [isDarkMode, accent]
+  );
+
+  const toggleTheme = () => setMode(isDarkMode ? 'light' : 'dark');
+
   return (
-    <ThemeContext.Provider value={{ isDarkMode, toggleTheme }}>
+    <ThemeContext.Provider
+      value={{ mode, isDarkMode, colors, accent, setMode, setAccent, toggleTheme, reloadTheme: loadTheme }}
+    >
       {children}
     </ThemeContext.Provider>
   );
 };
 
-export const useTheme = () => useContext(ThemeContext); 
\ No newline at end of file
+export const useTheme = () => useContext(ThemeContext);
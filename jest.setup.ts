@@ -0,0 +1,3 @@
+// jest-expo replaces expo-file-system with no-op functions; tests that move
+// photos around need the in-memory one
+jest.mock('expo-file-system', () => jest.requireActual('./__mocks__/expo-file-system.ts'));
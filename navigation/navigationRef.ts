@@ -0,0 +1,20 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from './types.ts';
+
+// Lets code outside the navigator (e.g. notification handlers) change routes
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Payload attached to local notifications so a tap can open the right screen
+export type NotificationTarget =
+  | { screen: 'EntryDetail'; entryId: string }
+  | { screen: 'AddEntry' };
+
+export const openNotificationTarget = (data: Record<string, unknown> | undefined) => {
+  if (!navigationRef.isReady() || !data) return;
+
+  if (data.screen === 'EntryDetail' && typeof data.entryId === 'string') {
+    navigationRef.navigate('EntryDetail', { entryId: data.entryId });
+  } else if (data.screen === 'AddEntry') {
+    navigationRef.navigate('AddEntry');
+  }
+};
@@ -0,0 +1,27 @@
+export type RootStackParamList = {
+  Home: undefined;
+  // Opens the given draft, or starts a blank one under that id
+  AddEntry: { draftId?: string } | undefined;
+  EditEntry: { entryId: string };
+  EntryDetail: { entryId: string };
+  Comments: { entryId: string };
+  TripFeed: { tripId: string };
+  TagFeed: { tag: string };
+  // A titled list of entries, e.g. those behind a statistic or a calendar day
+  EntryList: { title: string; entryIds: string[] };
+  Map: undefined;
+  Search: undefined;
+  Saved: undefined;
+  Backup: undefined;
+  Drafts: undefined;
+  NotificationSettings: undefined;
+  Trash: undefined;
+  Tags: undefined;
+  Appearance: undefined;
+  Stats: undefined;
+  Calendar: undefined;
+  Timeline: undefined;
+  SyncSettings: undefined;
+  Profile: undefined;
+  PrivacySettings: undefined;
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,6 +9,7 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
+  Switch,
   KeyboardAvoidingView,
   Platform,
   SafeAreaView,
@@ -16,29 +17,102 @@ import {
 import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import * as Notifications from 'expo-notifications';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useTheme } from '../context/ThemeContext.tsx';
-import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useProfile } from '../context/ProfileContext.tsx';
+import {
+  EntryPlace,
+  LocationSource,
+  MetadataSource,
+  addEntry,
+  getEntries,
+  getEntry,
+  updateEntry,
+} from '../storage/entryRepository.ts';
+import { formatPlace, reverseGeocodePlace } from '../utils/places.ts';
+import { PhotoMetadata, hasPhotoMetadata, readPhotoMetadata, photoLocation } from '../utils/exif.ts';
+import { Trip, getTrips, findActiveTrip } from '../storage/tripRepository.ts';
+import { getThumbnailUri, importPhoto, importPhotos } from '../storage/photoStore.ts';
+import { addRecentPlace } from '../storage/placeRepository.ts';
+import { getAppLock } from '../storage/appLockRepository.ts';
+import { getTagCounts } from '../storage/tagRepository.ts';
+import { extractHashtags, getHandAddedTags, mergeTags } from '../utils/tags.ts';
+import {
+  EntryDraft,
+  deleteDraft,
+  getDraft,
+  getDrafts,
+  isDraftEmpty,
+  newDraftId,
+  saveDraft,
+} from '../storage/draftRepository.ts';
+import { toLocationObject } from '../utils/geo.ts';
+import ActionSheet from '../components/ActionSheet.tsx';
+import TripFormModal from '../components/TripFormModal.tsx';
+import LocationPickerModal, { PickedLocation } from '../components/LocationPickerModal.tsx';
+import TagInput from '../components/TagInput.tsx';
+import { RootStackParamList } from '../navigation/types.ts';
+import { NotificationTarget } from '../navigation/navigationRef.ts';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useIsFocused } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 
-type RootStackParamList = {
-  AddEntry: undefined;
-  Home: undefined;
-};
+// The same form serves both creating and editing an entry
+const MAX_PHOTOS = 10;
+// How long typing has to pause before the draft is written
+const AUTOSAVE_DELAY_MS = 800;
 
-type AddEntryScreenProps = {
-  navigation: NativeStackNavigationProp<RootStackParamList, 'AddEntry'>;
-};
+type AddEntryScreenProps = NativeStackScreenProps<RootStackParamList, 'AddEntry' | 'EditEntry'>;
 
-const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
-  const [image, setImage] = useState<string | null>(null);
+const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation, route }) => {
+  const params: { entryId?: string; draftId?: string } = route.params ?? {};
+  const editingId = params.entryId;
+  const [images, setImages] = useState<string[]>([]);
+  // Photos of the entry being edited whose files are already gone
+  const [missingPhotos, setMissingPhotos] = useState<string[]>([]);
+  const [coverIndex, setCoverIndex] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState(0);
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [address, setAddress] = useState('');
+  const [place, setPlace] = useState<EntryPlace | undefined>(undefined);
+  const [locationSource, setLocationSource] = useState<LocationSource | undefined>(undefined);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  // EXIF data of the first library photo that had any, offered as an
+  // alternative to the device's position and clock
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata | null>(null);
+  // null means "when saved" for new entries
+  const [entryDate, setEntryDate] = useState<Date | null>(null);
+  const [dateSource, setDateSource] = useState<MetadataSource>('device');
+  // The date an edited entry had when opened, used when switching back from the photo's time
+  const [originalDate, setOriginalDate] = useState<Date | null>(null);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  // Tags added by hand; the caption's hashtags are added on save
+  const [tags, setTags] = useState<string[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripId, setTripId] = useState<string | undefined>(undefined);
+  // Once the user picks a trip (or "No trip") stop applying the date default
+  const [tripTouched, setTripTouched] = useState(false);
+  const [showTripPicker, setShowTripPicker] = useState(false);
+  const [showTripForm, setShowTripForm] = useState(false);
+  const [isPrivate, setIsPrivate] = useState(false);
+  // Entries can only be private while a PIN is set
+  const [hasPin, setHasPin] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const { isDarkMode, toggleTheme } = useTheme();
+  // New entries only: the draft this form autosaves into. A ref, so a save
+  // started before the id was assigned can't create a second draft.
+  const draftIdRef = useRef<string | null>(null);
+  // Stops a pending autosave from bringing a draft back while it is shared
+  const isSharingRef = useRef(false);
+  // Draft saves run one after another. A picked photo is copied in once;
+  // later saves still holding its picker URI reuse the copy.
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve());
+  const importedPhotosRef = useRef(new Map<string, string>());
+  // The last place chosen in the picker. It joins the recent places once the
+  // entry is saved, unless the entry is private.
+  const pickedLocationRef = useRef<PickedLocation | null>(null);
+  const { colors } = useTheme();
+  const { formatDateTime } = useProfile();
   const isFocused = useIsFocused();
 
   useEffect(() => {
@@ -46,16 +120,214 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
   }, []);
 
   useEffect(() => {
-    if (!isFocused) {
-      // Clear form when screen loses focus
-      setImage(null);
-      setLocation(null);
-      setAddress('');
-      setTitle('');
-      setDescription('');
+    if (isFocused && editingId) {
+      loadEntryForEditing(editingId);
+    }
+  }, [isFocused, editingId]);
+
+  useEffect(() => {
+    if (isFocused) {
+      loadTrips();
+      loadKnownTags();
+      loadHasPin();
+    }
+  }, [isFocused]);
+
+  useEffect(() => {
+    if (editingId) return;
+    if (params.draftId) {
+      openDraft(params.draftId);
+    } else {
+      offerToResume();
+    }
+  }, [params.draftId]);
+
+  // Autosave new entries once typing pauses; nothing is lost on back or a call
+  useEffect(() => {
+    if (editingId) return;
+    const timer = setTimeout(persistDraft, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [images, coverIndex, title, description, tags, location, address, place, entryDate, tripId, isPrivate]);
+
+  useEffect(() => {
+    if (!isFocused && !editingId) {
+      persistDraft();
     }
   }, [isFocused]);
 
+  const resetForm = () => {
+    importedPhotosRef.current = new Map();
+    setImages([]);
+    setMissingPhotos([]);
+    setCoverIndex(0);
+    setSelectedIndex(0);
+    setLocation(null);
+    setAddress('');
+    setPlace(undefined);
+    setLocationSource(undefined);
+    setPhotoMetadata(null);
+    setEntryDate(null);
+    setDateSource('device');
+    setOriginalDate(null);
+    setTitle('');
+    setDescription('');
+    setTags([]);
+    setTripId(undefined);
+    setTripTouched(false);
+    setIsPrivate(false);
+  };
+
+  const applyDraft = (draft: EntryDraft) => {
+    resetForm();
+    setImages(draft.images);
+    setCoverIndex(draft.coverIndex);
+    setSelectedIndex(draft.coverIndex);
+    setLocation(draft.location);
+    setAddress(draft.address);
+    setPlace(draft.place);
+    setLocationSource(draft.locationSource);
+    setEntryDate(draft.date ? new Date(draft.date) : null);
+    setDateSource(draft.dateSource ?? 'device');
+    setTitle(draft.title);
+    setDescription(draft.description);
+    setTags(draft.tags ?? []);
+    setTripId(draft.tripId);
+    setTripTouched(draft.tripTouched ?? false);
+  };
+
+  const writeDraft = async () => {
+    // Drafts aren't encrypted, so a private entry is never autosaved
+    if (editingId || isPrivate || isSharingRef.current || isDraftEmpty({ images, title, description })) return;
+    const id = draftIdRef.current ?? newDraftId();
+    draftIdRef.current = id;
+    try {
+      // Picker URIs point into a cache the OS may clear, so copy them now
+      const imported = importedPhotosRef.current;
+      const storedImages = await importPhotos(images.map(uri => imported.get(uri) ?? uri));
+      if (storedImages.some((uri, index) => uri !== images[index])) {
+        images.forEach((uri, index) => imported.set(uri, storedImages[index]));
+        setImages(current => current.map(uri => imported.get(uri) ?? uri));
+      }
+      await saveDraft({
+        id,
+        title,
+        description,
+        tags,
+        images: storedImages,
+        coverIndex,
+        location,
+        address,
+        place,
+        locationSource,
+        date: entryDate?.toISOString(),
+        dateSource,
+        tripId,
+        tripTouched,
+      });
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  };
+
+  // The autosave timer and leaving the screen can both save at once
+  const persistDraft = () => {
+    const save = draftSaveRef.current.then(writeDraft);
+    draftSaveRef.current = save;
+    return save;
+  };
+
+  const openDraft = async (id: string) => {
+    try {
+      await persistDraft();
+      const draft = await getDraft(id);
+      draftIdRef.current = id;
+      if (draft) {
+        applyDraft(draft);
+      } else {
+        resetForm();
+      }
+    } catch (error) {
+      console.error('Error opening draft:', error);
+      Alert.alert('Error', 'Failed to open draft');
+    }
+  };
+
+  const offerToResume = async () => {
+    try {
+      const drafts = await getDrafts();
+      if (drafts.length === 0) return;
+      const latest = drafts[0];
+      Alert.alert(
+        'Resume Draft?',
+        drafts.length === 1
+          ? `You have an unfinished entry${latest.title.trim() ? ` "${latest.title.trim()}"` : ''}.`
+          : `You have ${drafts.length} unfinished entries.`,
+        [
+          { text: 'Start New', style: 'cancel' },
+          ...(drafts.length > 1 ? [{ text: 'All Drafts', onPress: () => navigation.navigate('Drafts') }] : []),
+          {
+            text: 'Resume',
+            onPress: () => {
+              draftIdRef.current = latest.id;
+              applyDraft(latest);
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+    }
+  };
+
+  const loadTrips = async () => {
+    try {
+      const loadedTrips = await getTrips();
+      setTrips(loadedTrips);
+      // Default to the trip happening on the entry's date
+      if (!editingId && !tripTouched) {
+        setTripId(findActiveTrip(loadedTrips, entryDate ?? new Date())?.id);
+      }
+    } catch (error) {
+      console.error('Error loading trips:', error);
+    }
+  };
+
+  const loadHasPin = async () => {
+    try {
+      setHasPin((await getAppLock()) !== null);
+    } catch (error) {
+      console.error('Error loading app lock:', error);
+    }
+  };
+
+  // Marking a new entry private also removes the plain-text draft saved so far
+  const changePrivate = async (value: boolean) => {
+    setIsPrivate(value);
+    if (value && draftIdRef.current) {
+      try {
+        // Drafts aren't encrypted, so the draft goes. Its photos stay: the
+        // form still shows them and the entry will be saved with them.
+        await deleteDraft(draftIdRef.current, { keepPhotos: true });
+        draftIdRef.current = null;
+      } catch (error) {
+        console.error('Error deleting draft:', error);
+      }
+    }
+  };
+
+  const loadKnownTags = async () => {
+    try {
+      setKnownTags(getTagCounts(await getEntries()).map(({ tag }) => tag));
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  };
+
+  const selectTrip = (id: string | undefined) => {
+    setTripId(id);
+    setTripTouched(true);
+  };
+
   const requestPermissions = async () => {
     try {
       const { status: cameraStatus } = await ImagePicker.requestCameraPermissionsAsync();
@@ -74,19 +346,112 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
     }
   };
 
+  const loadEntryForEditing = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const entry = await getEntry(id);
+      if (!entry) {
+        Alert.alert('Error', 'This entry no longer exists.', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
+      setImages(entry.images);
+      setMissingPhotos(entry.missingPhotos ?? []);
+      setCoverIndex(entry.coverIndex);
+      setSelectedIndex(entry.coverIndex);
+      setLocation(entry.location);
+      setAddress(entry.address);
+      setPlace(entry.place);
+      setLocationSource(entry.locationSource);
+      setEntryDate(new Date(entry.date));
+      setOriginalDate(new Date(entry.date));
+      setDateSource(entry.dateSource ?? 'device');
+      setTitle(entry.title);
+      setDescription(entry.description);
+      // Hashtags stay in the caption; only the hand-added tags become chips
+      setTags(getHandAddedTags(entry));
+      setTripId(entry.tripId);
+      setIsPrivate(entry.isPrivate ?? false);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load entry');
+      console.error('Error loading entry for editing:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const appendPhotos = async (uris: string[], metadata: PhotoMetadata[] = []) => {
+    const wasEmpty = images.length === 0;
+    setImages(current => [...current, ...uris].slice(0, MAX_PHOTOS));
+    setSelectedIndex(wasEmpty ? 0 : images.length);
+
+    const firstWithData = photoMetadata ?? metadata.find(hasPhotoMetadata) ?? null;
+    if (firstWithData && !photoMetadata) {
+      setPhotoMetadata(firstWithData);
+      // Edited entries keep their date unless the user switches it
+      if (firstWithData.takenAt && !editingId) {
+        applyDateSource('photo', firstWithData);
+      }
+    }
+
+    // Tag the entry once, from the first photo added
+    if (!location) {
+      if (firstWithData?.coords) {
+        await applyLocationSource('photo', firstWithData);
+      } else {
+        await getLocation();
+      }
+    }
+  };
+
+  const applyDateSource = (source: MetadataSource, metadata = photoMetadata) => {
+    const date = source === 'photo' && metadata?.takenAt ? metadata.takenAt : originalDate;
+    setEntryDate(date);
+    setDateSource(source);
+    if (!editingId && !tripTouched) {
+      setTripId(findActiveTrip(trips, date ?? new Date())?.id);
+    }
+  };
+
+  const applyLocationSource = async (source: MetadataSource, metadata = photoMetadata) => {
+    const fromPhoto = metadata ? photoLocation(metadata) : null;
+    if (source === 'device' || !fromPhoto) {
+      await getLocation();
+      return;
+    }
+    try {
+      setIsLoading(true);
+      setLocation(fromPhoto);
+      setLocationSource('photo');
+      const geocodedPlace = await reverseGeocodePlace(fromPhoto.coords);
+      setPlace(geocodedPlace ?? undefined);
+      setAddress(geocodedPlace ? formatPlace(geocodedPlace) : '');
+    } catch (error) {
+      console.error('Error looking up photo location:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const pickImage = async () => {
     try {
       setIsLoading(true);
+      // Cropping isn't available with multi-select, so photos keep their shape
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [1, 1],
+        allowsMultipleSelection: true,
+        orderedSelection: true,
+        selectionLimit: MAX_PHOTOS - images.length,
         quality: 1,
+        exif: true,
       });
 
       if (!result.canceled) {
-        setImage(result.assets[0].uri);
-        await getLocation();
+        await appendPhotos(
+          result.assets.map(asset => asset.uri),
+          result.assets.map(asset => readPhotoMetadata(asset.exif))
+        );
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to pick image from gallery');
@@ -107,8 +472,7 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
       });
 
       if (!result.canceled) {
-        setImage(result.assets[0].uri);
-        await getLocation();
+        await appendPhotos([result.assets[0].uri]);
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to take picture');
@@ -118,6 +482,26 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
     }
   };
 
+  const movePhoto = (from: number, to: number) => {
+    if (to < 0 || to >= images.length) return;
+    const reordered = [...images];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setImages(reordered);
+    // Photos only ever swap with a neighbour, so the cover follows its photo
+    if (coverIndex === from) setCoverIndex(to);
+    else if (coverIndex === to) setCoverIndex(from);
+    setSelectedIndex(to);
+  };
+
+  const removePhoto = (index: number) => {
+    const remaining = images.filter((_, i) => i !== index);
+    setImages(remaining);
+    if (index === coverIndex) setCoverIndex(0);
+    else if (index < coverIndex) setCoverIndex(coverIndex - 1);
+    setSelectedIndex(Math.max(0, Math.min(index, remaining.length - 1)));
+  };
+
   const getLocation = async () => {
     try {
       setIsLoading(true);
@@ -125,53 +509,107 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
         accuracy: Location.Accuracy.High,
       });
       setLocation(currentLocation);
+      setLocationSource('device');
       
-      const addressResponse = await Location.reverseGeocodeAsync({
-        latitude: currentLocation.coords.latitude,
-        longitude: currentLocation.coords.longitude,
-      });
-      
-      if (addressResponse && addressResponse.length > 0) {
-        const addr = addressResponse[0];
-        const formattedAddress = [
-          addr.street,
-          addr.city,
-          addr.region,
-          addr.country
-        ].filter(Boolean).join(', ');
-        setAddress(formattedAddress);
-      }
+      const geocodedPlace = await reverseGeocodePlace(currentLocation.coords);
+      setPlace(geocodedPlace ?? undefined);
+      setAddress(geocodedPlace ? formatPlace(geocodedPlace) : '');
     } catch (error) {
-      Alert.alert('Error', 'Failed to get location. Please try again.');
       console.error('Error getting location:', error);
+      Alert.alert('Location Unavailable', 'Failed to get your current location.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Choose Manually', onPress: () => setShowLocationPicker(true) },
+      ]);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const applyPickedLocation = async (picked: PickedLocation | null) => {
+    setShowLocationPicker(false);
+    if (!picked) {
+      setLocation(null);
+      setPlace(undefined);
+      setAddress('');
+      setLocationSource(undefined);
+      return;
+    }
+    setLocation(picked.coords ? toLocationObject(picked.coords) : null);
+    setPlace(picked.place);
+    setAddress(formatPlace(picked.place));
+    setLocationSource('manual');
+    pickedLocationRef.current = picked;
+  };
+
+  // Only if the entry still has the picked place
+  const rememberPickedPlace = async () => {
+    const picked = pickedLocationRef.current;
+    if (isPrivate || !picked || picked.place !== place) return;
+    try {
+      await addRecentPlace(picked.place, picked.coords);
+    } catch (error) {
+      console.error('Error saving recent place:', error);
+    }
+  };
+
   const saveEntry = async () => {
-    if (!image || !title.trim() || !description.trim()) {
+    if (images.length === 0 || !title.trim() || !description.trim()) {
       Alert.alert('Missing Information', 'Please fill in all fields and take a picture');
       return;
     }
 
     try {
       setIsLoading(true);
-      const newEntry = {
-        id: Date.now().toString(),
+
+      // Copy picked photos out of the picker's cache. Missing files can't be
+      // copied, so they stay flagged until the user removes them.
+      const storedImages: string[] = [];
+      for (const uri of images) {
+        storedImages.push(missingPhotos.includes(uri) ? uri : await importPhoto(uri));
+      }
+      const stillMissing = missingPhotos.filter(uri => storedImages.includes(uri));
+
+      if (editingId) {
+        // Keep the original id and date; only the edit time is new
+        await updateEntry(editingId, {
+          title: title.trim(),
+          description: description.trim(),
+          images: storedImages,
+          coverIndex,
+          location,
+          address,
+          place,
+          locationSource,
+          date: (entryDate ?? originalDate ?? new Date()).toISOString(),
+          dateSource,
+          tripId,
+          tags: mergeTags(tags, extractHashtags(description)),
+          missingPhotos: stillMissing.length > 0 ? stillMissing : undefined,
+          isPrivate,
+          updatedAt: new Date().toISOString(),
+        });
+        await rememberPickedPlace();
+        navigation.goBack();
+        return;
+      }
+
+      isSharingRef.current = true;
+      const newEntry = await addEntry({
         title: title.trim(),
         description: description.trim(),
-        image,
+        images: storedImages,
+        coverIndex,
         location,
         address,
-        date: new Date().toISOString(),
-      };
-
-      const existingEntriesStr = await AsyncStorage.getItem('travelEntries');
-      const existingEntries = existingEntriesStr ? JSON.parse(existingEntriesStr) : [];
-      const updatedEntries = [...existingEntries, newEntry];
-      
-      await AsyncStorage.setItem('travelEntries', JSON.stringify(updatedEntries));
+        place,
+        locationSource,
+        date: entryDate?.toISOString(),
+        dateSource,
+        tripId,
+        tags: mergeTags(tags, extractHashtags(description)),
+        isPrivate,
+      });
+      await rememberPickedPlace();
 
       // Configure notification handler
       await Notifications.setNotificationHandler({
@@ -186,68 +624,140 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
       await Notifications.scheduleNotificationAsync({
         content: {
           title: 'Travel Entry Saved! 📸',
-          body: `Your entry "${title}" has been saved successfully!`,
-          data: { screen: 'Home' },
+          // Notifications show on the lock screen, so a private title stays out
+          body: isPrivate
+            ? 'Your private entry has been saved successfully!'
+            : `Your entry "${title}" has been saved successfully!`,
+          data: { screen: 'EntryDetail', entryId: newEntry.id } satisfies NotificationTarget,
         },
         trigger: null, // null means show immediately
       });
 
+      // The draft's photos now belong to the entry, so only the draft goes
+      if (draftIdRef.current) {
+        await deleteDraft(draftIdRef.current);
+        draftIdRef.current = null;
+      }
+      resetForm();
       navigation.navigate('Home');
     } catch (error) {
       Alert.alert('Error', 'Failed to save entry. Please try again.');
       console.error('Error saving entry:', error);
     } finally {
+      isSharingRef.current = false;
       setIsLoading(false);
     }
   };
 
   return (
-    <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000000' : '#ffffff' }]}>
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <KeyboardAvoidingView 
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
         style={{ flex: 1 }}
       >
-        <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333333' : '#dbdbdb' }]}>
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
           <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
-            <Ionicons name="chevron-back" size={28} color={isDarkMode ? '#ffffff' : '#000000'} />
+            <Ionicons name="chevron-back" size={28} color={colors.text} />
           </TouchableOpacity>
-          <Text style={[styles.headerTitle, { color: isDarkMode ? '#ffffff' : '#000000' }]}>
-            New Post
+          <Text style={[styles.headerTitle, { color: colors.text }]}>
+            {editingId ? 'Edit Post' : 'New Post'}
           </Text>
-          <TouchableOpacity onPress={toggleTheme} style={styles.headerButton}>
-            <Ionicons 
-              name={isDarkMode ? "sunny" : "moon"} 
-              size={24} 
-              color={isDarkMode ? '#ffffff' : '#000000'} 
-            />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {!editingId && (
+              <TouchableOpacity onPress={() => navigation.navigate('Drafts')} style={styles.headerButton}>
+                <Ionicons name="documents-outline" size={24} color={colors.text} />
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
         <ScrollView contentContainerStyle={styles.content}>
-          {image ? (
-            <View style={styles.imageContainer}>
-              <Image source={{ uri: image }} style={styles.image} />
-              <TouchableOpacity 
-                style={styles.changePhotoButton}
-                onPress={() => setImage(null)}
-              >
-                <Text style={styles.changePhotoText}>Change Photo</Text>
-              </TouchableOpacity>
+          {images.length > 0 ? (
+            <View style={styles.photoEditor}>
+              <View style={styles.imageContainer}>
+                <Image source={{ uri: images[selectedIndex] }} style={styles.image} />
+                {selectedIndex === coverIndex && (
+                  <View style={styles.coverBadge}>
+                    <Ionicons name="star" size={12} color="#ffffff" />
+                    <Text style={styles.coverBadgeText}>Cover</Text>
+                  </View>
+                )}
+                <View style={styles.photoToolbar}>
+                  <TouchableOpacity
+                    style={styles.toolbarButton}
+                    onPress={() => movePhoto(selectedIndex, selectedIndex - 1)}
+                    disabled={selectedIndex === 0}
+                  >
+                    <Ionicons name="chevron-back" size={22} color={selectedIndex === 0 ? '#777777' : '#ffffff'} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.toolbarButton} onPress={() => setCoverIndex(selectedIndex)}>
+                    <Ionicons name={selectedIndex === coverIndex ? 'star' : 'star-outline'} size={22} color="#ffffff" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.toolbarButton} onPress={() => removePhoto(selectedIndex)}>
+                    <Ionicons name="trash-outline" size={22} color="#ffffff" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.toolbarButton}
+                    onPress={() => movePhoto(selectedIndex, selectedIndex + 1)}
+                    disabled={selectedIndex === images.length - 1}
+                  >
+                    <Ionicons
+                      name="chevron-forward"
+                      size={22}
+                      color={selectedIndex === images.length - 1 ? '#777777' : '#ffffff'}
+                    />
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.thumbnailRow}>
+                {images.map((uri, index) => (
+                  <TouchableOpacity
+                    key={`${index}-${uri}`}
+                    onPress={() => setSelectedIndex(index)}
+                    style={[styles.thumbnail, index === selectedIndex && { borderColor: colors.accent }]}
+                  >
+                    <Image source={{ uri: getThumbnailUri(uri) }} style={styles.thumbnailImage} />
+                    {missingPhotos.includes(uri) && (
+                      <Ionicons name="warning" size={14} color={colors.danger} style={styles.thumbnailWarning} />
+                    )}
+                    {index === coverIndex && (
+                      <Ionicons name="star" size={12} color="#ffffff" style={styles.thumbnailStar} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+                {images.length < MAX_PHOTOS && (
+                  <>
+                    <TouchableOpacity
+                      style={[styles.thumbnail, styles.addThumbnail, { backgroundColor: colors.surface }]}
+                      onPress={pickImage}
+                    >
+                      <Ionicons name="images-outline" size={22} color={colors.accent} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.thumbnail, styles.addThumbnail, { backgroundColor: colors.surface }]}
+                      onPress={takePicture}
+                    >
+                      <Ionicons name="camera-outline" size={22} color={colors.accent} />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </ScrollView>
             </View>
           ) : (
             <View style={styles.imagePickerContainer}>
               <View style={[
                 styles.imagePlaceholder, 
-                { backgroundColor: isDarkMode ? '#333333' : '#f5f5f5' }
+                { backgroundColor: colors.surface }
               ]}>
                 <Ionicons 
                   name="images-outline" 
                   size={64} 
-                  color={isDarkMode ? '#ffffff' : '#000000'} 
+                  color={colors.text} 
                 />
                 <Text style={[
                   styles.placeholderText, 
-                  { color: isDarkMode ? '#ffffff' : '#000000' }
+                  { color: colors.text }
                 ]}>
                   No Photo Selected
                 </Text>
@@ -255,19 +765,19 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
               
               <View style={styles.imagePickerButtons}>
                 <TouchableOpacity 
-                  style={[styles.pickButton, { backgroundColor: '#0095f6' }]} 
+                  style={[styles.pickButton, { backgroundColor: colors.accent }]} 
                   onPress={pickImage}
                 >
-                  <Ionicons name="images" size={20} color="#ffffff" />
-                  <Text style={styles.pickButtonText}>Choose from Gallery</Text>
+                  <Ionicons name="images" size={20} color={colors.onAccent} />
+                  <Text style={[styles.pickButtonText, { color: colors.onAccent }]}>Choose from Gallery</Text>
                 </TouchableOpacity>
                 
                 <TouchableOpacity 
-                  style={[styles.pickButton, { backgroundColor: '#0095f6' }]} 
+                  style={[styles.pickButton, { backgroundColor: colors.accent }]} 
                   onPress={takePicture}
                 >
-                  <Ionicons name="camera" size={20} color="#ffffff" />
-                  <Text style={styles.pickButtonText}>Take Photo</Text>
+                  <Ionicons name="camera" size={20} color={colors.onAccent} />
+                  <Text style={[styles.pickButtonText, { color: colors.onAccent }]}>Take Photo</Text>
                 </TouchableOpacity>
               </View>
             </View>
@@ -278,64 +788,212 @@ const AddEntryScreen: React.FC<AddEntryScreenProps> = ({ navigation }) => {
               style={[
                 styles.input,
                 { 
-                  color: isDarkMode ? '#ffffff' : '#000000',
-                  backgroundColor: isDarkMode ? '#333333' : '#f5f5f5',
+                  color: colors.text,
+                  backgroundColor: colors.surface,
                 }
               ]}
               placeholder="Add a title..."
-              placeholderTextColor={isDarkMode ? '#888888' : '#999999'}
+              placeholderTextColor={colors.mutedText}
               value={title}
               onChangeText={setTitle}
             />
 
-            {address && (
+            <TouchableOpacity
+              style={[
+                styles.locationContainer,
+                { backgroundColor: colors.surface }
+              ]}
+              onPress={() => setShowTripPicker(true)}
+            >
+              <Ionicons name="airplane" size={20} color={colors.accent} />
+              <Text style={[styles.locationText, { color: colors.secondaryText }]}>
+                {trips.find(trip => trip.id === tripId)?.name ?? 'No trip'}
+              </Text>
+              <Ionicons name="chevron-down" size={18} color={colors.mutedText} />
+            </TouchableOpacity>
+
+            {hasPin ? (
+              <View style={[styles.locationContainer, { backgroundColor: colors.surface }]}>
+                <Ionicons name="lock-closed" size={20} color={colors.accent} />
+                <Text style={[styles.locationText, { color: colors.secondaryText }]}>Private</Text>
+                <Switch value={isPrivate} onValueChange={changePrivate} trackColor={{ true: colors.accent }} />
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={[styles.locationContainer, { backgroundColor: colors.surface }]}
+                onPress={() => navigation.navigate('PrivacySettings')}
+              >
+                <Ionicons name="lock-open-outline" size={20} color={colors.mutedText} />
+                <Text style={[styles.locationText, { color: colors.secondaryText }]}>
+                  Set a PIN to make entries private
+                </Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.mutedText} />
+              </TouchableOpacity>
+            )}
+
+            {images.length > 0 && (
               <View style={[
                 styles.locationContainer,
-                { backgroundColor: isDarkMode ? '#333333' : '#f5f5f5' }
+                { backgroundColor: colors.surface }
               ]}>
-                <Ionicons name="location" size={20} color="#0095f6" />
-                <Text style={[styles.locationText, { color: isDarkMode ? '#ffffff' : '#666666' }]}>
-                  {address}
-                </Text>
+                <Ionicons name="calendar" size={20} color={colors.accent} />
+                <View style={styles.metadataText}>
+                  <Text style={[styles.metadataValue, { color: colors.secondaryText }]}>
+                    {entryDate ? formatDateTime(entryDate) : 'Now'}
+                  </Text>
+                  <Text style={[styles.sourceText, { color: colors.mutedText }]}>{dateSource === 'photo' ? 'from photo' : 'from device'}</Text>
+                </View>
+                {photoMetadata?.takenAt && (
+                  <TouchableOpacity
+                    onPress={() => applyDateSource(dateSource === 'photo' ? 'device' : 'photo')}
+                  >
+                    <Text style={[styles.switchSourceText, { color: colors.accent }]}>
+                      {dateSource === 'photo' ? 'Use device' : 'Use photo'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
 
+            {address || location ? (
+              <TouchableOpacity
+                style={[
+                  styles.locationContainer,
+                  { backgroundColor: colors.surface }
+                ]}
+                onPress={() => setShowLocationPicker(true)}
+              >
+                <Ionicons name="location" size={20} color={colors.accent} />
+                <View style={styles.metadataText}>
+                  <Text style={[styles.metadataValue, { color: colors.secondaryText }]}>
+                    {address ||
+                      `${location!.coords.latitude.toFixed(4)}, ${location!.coords.longitude.toFixed(4)}`}
+                  </Text>
+                  {locationSource && (
+                    <Text style={[styles.sourceText, { color: colors.mutedText }]}>
+                      {locationSource === 'photo'
+                        ? 'from photo'
+                        : locationSource === 'device'
+                          ? 'from device'
+                          : 'set manually'}
+                    </Text>
+                  )}
+                </View>
+                {photoMetadata?.coords && (
+                  <TouchableOpacity
+                    onPress={() => applyLocationSource(locationSource === 'photo' ? 'device' : 'photo')}
+                    disabled={isLoading}
+                  >
+                    <Text style={[styles.switchSourceText, { color: colors.accent }]}>
+                      {locationSource === 'photo' ? 'Use device' : 'Use photo'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <Ionicons name="chevron-forward" size={18} color={colors.mutedText} />
+              </TouchableOpacity>
+            ) : images.length > 0 ? (
+              // Entries saved without a position can be tagged later from here
+              <View style={styles.locationActions}>
+                <TouchableOpacity
+                  style={[
+                    styles.locationContainer,
+                    styles.locationAction,
+                    { backgroundColor: colors.surface }
+                  ]}
+                  onPress={getLocation}
+                >
+                  <Ionicons name="navigate-outline" size={20} color={colors.accent} />
+                  <Text style={[styles.locationText, { color: colors.accent }]}>
+                    Current location
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.locationContainer,
+                    styles.locationAction,
+                    { backgroundColor: colors.surface }
+                  ]}
+                  onPress={() => setShowLocationPicker(true)}
+                >
+                  <Ionicons name="map-outline" size={20} color={colors.accent} />
+                  <Text style={[styles.locationText, { color: colors.accent }]}>
+                    Choose place
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ) : null}
+
             <TextInput
               style={[
                 styles.input,
                 styles.descriptionInput,
                 { 
-                  color: isDarkMode ? '#ffffff' : '#000000',
-                  backgroundColor: isDarkMode ? '#333333' : '#f5f5f5',
+                  color: colors.text,
+                  backgroundColor: colors.surface,
                 }
               ]}
               placeholder="Write a caption..."
-              placeholderTextColor={isDarkMode ? '#888888' : '#999999'}
+              placeholderTextColor={colors.mutedText}
               value={description}
               onChangeText={setDescription}
               multiline
               numberOfLines={4}
             />
+
+            <TagInput tags={tags} onChange={setTags} suggestions={knownTags} />
           </View>
 
           <TouchableOpacity 
             style={[
               styles.saveButton,
               { 
-                opacity: isLoading || !image ? 0.5 : 1,
-                backgroundColor: '#0095f6'
+                opacity: isLoading || images.length === 0 ? 0.5 : 1,
+                backgroundColor: colors.accent
               }
             ]} 
             onPress={saveEntry}
-            disabled={isLoading || !image}
+            disabled={isLoading || images.length === 0}
           >
-            <Text style={styles.saveButtonText}>Share</Text>
+            <Text style={[styles.saveButtonText, { color: colors.onAccent }]}>{editingId ? 'Save' : 'Share'}</Text>
           </TouchableOpacity>
         </ScrollView>
 
+        <ActionSheet
+          visible={showTripPicker}
+          title="Add to trip"
+          options={[
+            ...trips.map(trip => ({
+              label: trip.name,
+              icon: trip.id === tripId ? 'checkmark-circle' as const : 'airplane-outline' as const,
+              onPress: () => selectTrip(trip.id),
+            })),
+            { label: 'No trip', icon: 'remove-circle-outline', onPress: () => selectTrip(undefined) },
+            { label: 'New trip…', icon: 'add-circle-outline', onPress: () => setShowTripForm(true) },
+          ]}
+          onClose={() => setShowTripPicker(false)}
+        />
+
+        <TripFormModal
+          visible={showTripForm}
+          onClose={() => setShowTripForm(false)}
+          onSaved={(trip) => {
+            setShowTripForm(false);
+            setTrips([trip, ...trips]);
+            selectTrip(trip.id);
+          }}
+        />
+
+        <LocationPickerModal
+          visible={showLocationPicker}
+          initialCoords={location ? { latitude: location.coords.latitude, longitude: location.coords.longitude } : null}
+          initialPlace={place}
+          onClose={() => setShowLocationPicker(false)}
+          onPicked={applyPickedLocation}
+        />
+
         {isLoading && (
           <View style={styles.loadingOverlay}>
-            <ActivityIndicator size="large" color="#0095f6" />
+            <ActivityIndicator size="large" color={colors.accent} />
           </View>
         )}
       </KeyboardAvoidingView>
@@ -358,6 +1016,12 @@ const styles = StyleSheet.create({
   headerButton: {
     padding: 8,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    // Keeps the title centred when there are no actions
+    minWidth: 44,
+  },
   headerTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -373,7 +1037,6 @@ const styles = StyleSheet.create({
     aspectRatio: 1,
     borderRadius: 12,
     overflow: 'hidden',
-    marginBottom: 24,
     position: 'relative',
   },
   image: {
@@ -405,24 +1068,72 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   pickButtonText: {
-    color: '#ffffff',
     fontSize: 16,
     fontWeight: '600',
   },
-  changePhotoButton: {
+  photoEditor: {
+    marginBottom: 24,
+    gap: 12,
+  },
+  photoToolbar: {
     position: 'absolute',
     bottom: 0,
     left: 0,
     right: 0,
-    padding: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    padding: 8,
     backgroundColor: 'rgba(0,0,0,0.75)',
+  },
+  toolbarButton: {
+    padding: 4,
+  },
+  coverBadge: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    flexDirection: 'row',
     alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
   },
-  changePhotoText: {
+  coverBadgeText: {
     color: '#ffffff',
-    fontSize: 16,
+    fontSize: 12,
     fontWeight: '600',
   },
+  thumbnailRow: {
+    gap: 8,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbnailStar: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+  },
+  thumbnailWarning: {
+    position: 'absolute',
+    bottom: 4,
+    left: 4,
+  },
+  addThumbnail: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   form: {
     gap: 16,
   },
@@ -446,6 +1157,27 @@ const styles = StyleSheet.create({
     fontSize: 14,
     flex: 1,
   },
+  locationActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  locationAction: {
+    flex: 1,
+  },
+  metadataText: {
+    flex: 1,
+    gap: 2,
+  },
+  metadataValue: {
+    fontSize: 14,
+  },
+  sourceText: {
+    fontSize: 12,
+  },
+  switchSourceText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   saveButton: {
     marginTop: 24,
     padding: 16,
@@ -453,7 +1185,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   saveButtonText: {
-    color: '#ffffff',
     fontSize: 16,
     fontWeight: '600',
   },
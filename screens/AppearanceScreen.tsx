@@ -0,0 +1,148 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { ACCENT_COLORS, AccentName, ThemeMode, useTheme } from '../context/ThemeContext.tsx';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type AppearanceScreenProps = NativeStackScreenProps<RootStackParamList, 'Appearance'>;
+
+const MODE_OPTIONS: { value: ThemeMode; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'light', label: 'Light', icon: 'sunny-outline' },
+  { value: 'dark', label: 'Dark', icon: 'moon-outline' },
+  { value: 'system', label: 'System', icon: 'phone-portrait-outline' },
+];
+
+const AppearanceScreen: React.FC<AppearanceScreenProps> = ({ navigation }) => {
+  const { mode, accent, colors, setMode, setAccent } = useTheme();
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card }];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Appearance</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Theme</Text>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            System matches your phone and switches along with it.
+          </Text>
+          <View style={styles.options}>
+            {MODE_OPTIONS.map(option => {
+              const active = mode === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.option, { backgroundColor: active ? colors.accent : colors.border }]}
+                  onPress={() => setMode(option.value)}
+                >
+                  <Ionicons name={option.icon} size={16} color={active ? colors.onAccent : colors.text} />
+                  <Text style={[styles.optionText, { color: active ? colors.onAccent : colors.text }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Accent Colour</Text>
+          <View style={styles.swatches}>
+            {(Object.keys(ACCENT_COLORS) as AccentName[]).map(name => (
+              <TouchableOpacity
+                key={name}
+                style={[styles.swatch, { backgroundColor: ACCENT_COLORS[name] }]}
+                onPress={() => setAccent(name)}
+                accessibilityLabel={name}
+              >
+                {accent === name && <Ionicons name="checkmark" size={20} color={colors.onAccent} />}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  swatch: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default AppearanceScreen;
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import {
+  BackupError,
+  ExportResult,
+  OpenedBackup,
+  RestoreMode,
+  RestoreReport,
+  createBackup,
+  readBackup,
+  restoreBackup,
+} from '../storage/backup.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type BackupScreenProps = NativeStackScreenProps<RootStackParamList, 'Backup'>;
+
+const BackupScreen: React.FC<BackupScreenProps> = ({ navigation }) => {
+  const [busy, setBusy] = useState<'export' | 'restore' | null>(null);
+  const [lastExport, setLastExport] = useState<ExportResult | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const { colors, reloadTheme } = useTheme();
+  const { formatDateTime, reloadProfile } = useProfile();
+
+  const exportBackup = async () => {
+    try {
+      setBusy('export');
+      const result = await createBackup();
+      setLastExport(result);
+      if (result.missingPhotos.length > 0) {
+        Alert.alert(
+          'Backup Created',
+          `${result.missingPhotos.length} photo(s) could no longer be found on this device and were left out.`
+        );
+      }
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Error', 'Failed to create backup');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const shareBackup = async () => {
+    if (!lastExport) return;
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Sharing Unavailable', 'The backup is saved in the app\'s documents folder.');
+        return;
+      }
+      await Sharing.shareAsync(lastExport.uri, { mimeType: 'application/json', dialogTitle: 'Save backup' });
+    } catch (error) {
+      console.error('Error sharing backup:', error);
+    }
+  };
+
+  const runRestore = async (archive: OpenedBackup, mode: RestoreMode) => {
+    try {
+      setBusy('restore');
+      const result = await restoreBackup(archive, mode);
+      if (mode === 'replace') {
+        await reloadTheme();
+        await reloadProfile();
+      }
+      setReport(result);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', 'Failed to restore backup. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const chooseMode = (archive: OpenedBackup) => {
+    const created = formatDateTime(archive.createdAt);
+    Alert.alert(
+      'Restore Backup',
+      `This backup from ${created} holds ${archive.entries.length} entries.\n\n` +
+        'Merge adds them to your diary and keeps whichever copy of an entry is newer. ' +
+        'Replace deletes your current diary first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runRestore(archive, 'merge') },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () =>
+            Alert.alert(
+              'Replace Diary',
+              'All current entries, notes and collections will be replaced. Private entries, which backups ' +
+                'never include, are kept. Continue?',
+              [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Replace', style: 'destructive', onPress: () => runRestore(archive, 'replace') },
+              ]
+            ),
+        },
+      ]
+    );
+  };
+
+  const pickBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      setBusy('restore');
+      setReport(null);
+      const archive = await readBackup(result.assets[0].uri);
+      setBusy(null);
+      chooseMode(archive);
+    } catch (error) {
+      setBusy(null);
+      if (error instanceof BackupError) {
+        Alert.alert('Invalid Backup', error.message);
+      } else {
+        console.error('Error opening backup:', error);
+        Alert.alert('Error', 'Failed to open backup file');
+      }
+    }
+  };
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card }];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Backup & Restore</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Export</Text>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            Saves every entry with its photos, notes, likes, saves, trips, collections, your profile and theme
+            into a single file you can keep somewhere safe. Private entries are left out.
+          </Text>
+          <TouchableOpacity style={[styles.button, { backgroundColor: colors.accent }]} onPress={exportBackup} disabled={busy !== null}>
+            {busy === 'export' ? (
+              <ActivityIndicator color={colors.onAccent} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.onAccent }]}>Create Backup</Text>
+            )}
+          </TouchableOpacity>
+          {lastExport && (
+            <View style={styles.result}>
+              <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+                {lastExport.entryCount} entries and {lastExport.photoCount} photos saved to{' '}
+                {lastExport.uri.split('/').pop()}
+              </Text>
+              <TouchableOpacity style={styles.secondaryButton} onPress={shareBackup}>
+                <Ionicons name="share-outline" size={18} color={colors.accent} />
+                <Text style={[styles.secondaryButtonText, { color: colors.accent }]}>Save or Send File</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Restore</Text>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            Open a backup file to merge it into this diary or replace the diary with it.
+          </Text>
+          <TouchableOpacity style={[styles.button, { backgroundColor: colors.accent }]} onPress={pickBackup} disabled={busy !== null}>
+            {busy === 'restore' ? (
+              <ActivityIndicator color={colors.onAccent} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.onAccent }]}>Choose Backup File</Text>
+            )}
+          </TouchableOpacity>
+          {report && (
+            <View style={styles.result}>
+              <Text style={[styles.cardText, { color: colors.text }]}>
+                {report.mode === 'merge' ? 'Merged' : 'Restored'} {report.restored} entries.
+                {report.keptLocal > 0 ? ` Kept ${report.keptLocal} newer entries from this device.` : ''}
+                {report.keptPrivate > 0 ? ` Kept ${report.keptPrivate} private entries from this device.` : ''}
+              </Text>
+              {report.failed.length > 0 && (
+                <>
+                  <Text style={[styles.failedTitle, { color: colors.danger }]}>
+                    {report.failed.length} entries could not be restored
+                  </Text>
+                  {report.failed.map((item, index) => (
+                    <Text key={`${index}-${item.label}`} style={[styles.cardText, { color: colors.secondaryText }]}>
+                      • {item.label}: {item.reason}
+                    </Text>
+                  ))}
+                </>
+              )}
+            </View>
+          )}
+        </View>
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Sync</Text>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            Keep this diary the same on several devices through a server you host.
+          </Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => navigation.navigate('SyncSettings')}>
+            <Ionicons name="cloud-outline" size={18} color={colors.accent} />
+            <Text style={[styles.secondaryButtonText, { color: colors.accent }]}>Sync Settings</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  result: {
+    gap: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  failedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default BackupScreen;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { TravelEntry, getCoverThumbnail, getEntries } from '../storage/entryRepository.ts';
+import { groupEntriesByDay } from '../utils/timeline.ts';
+import { sortByDate, toDayKey } from '../utils/dates.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type CalendarScreenProps = NativeStackScreenProps<RootStackParamList, 'Calendar'>;
+
+// Sunday first, like the platform date pickers
+const WEEKDAYS = Array.from({ length: 7 }, (_, day) =>
+  new Date(2024, 0, 7 + day).toLocaleDateString(undefined, { weekday: 'narrow' })
+);
+
+// Day numbers for a month grid, padded with nulls so the first day lands
+// under its weekday and every week is complete
+const buildMonthGrid = (month: Date) => {
+  const firstWeekday = new Date(month.getFullYear(), month.getMonth(), 1).getDay();
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (number | null)[] = [
+    ...Array(firstWeekday).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, index) => index + 1),
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+  return cells;
+};
+
+const CalendarScreen: React.FC<CalendarScreenProps> = ({ navigation }) => {
+  const [entries, setEntries] = useState<TravelEntry[]>([]);
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadEntries();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await getEntries());
+    } catch (error) {
+      console.error('Error loading entries:', error);
+      Alert.alert('Error', 'Failed to load entries');
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+  };
+
+  const openDay = (date: Date, dayEntries: TravelEntry[]) => {
+    navigation.push('EntryList', {
+      title: date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }),
+      entryIds: dayEntries.map(entry => entry.id),
+    });
+  };
+
+  const entriesByDay = groupEntriesByDay(entries);
+  const todayKey = toDayKey(new Date());
+  const monthEntryCount = entries.filter(entry => {
+    const date = new Date(entry.date);
+    return date.getFullYear() === month.getFullYear() && date.getMonth() === month.getMonth();
+  }).length;
+
+  const renderDay = (day: number | null, index: number) => {
+    if (day === null) {
+      return <View key={`blank-${index}`} style={styles.dayCell} />;
+    }
+    const date = new Date(month.getFullYear(), month.getMonth(), day);
+    const dayKey = toDayKey(date);
+    const dayEntries = sortByDate(entriesByDay.get(dayKey) ?? [], 'oldest');
+    const isToday = dayKey === todayKey;
+
+    if (dayEntries.length === 0) {
+      return (
+        <View key={dayKey} style={styles.dayCell}>
+          <Text
+            style={[
+              styles.dayNumber,
+              { color: isToday ? colors.accent : colors.mutedText },
+              isToday && styles.todayNumber,
+            ]}
+          >
+            {day}
+          </Text>
+        </View>
+      );
+    }
+
+    // Days with entries show the first entry's cover photo
+    return (
+      <TouchableOpacity key={dayKey} style={styles.dayCell} onPress={() => openDay(date, dayEntries)}>
+        <Image source={{ uri: getCoverThumbnail(dayEntries[0]) }} style={styles.dayImage} />
+        <View style={styles.dayOverlay}>
+          <Text style={styles.dayOverlayNumber}>{day}</Text>
+        </View>
+        {dayEntries.length > 1 && (
+          <View style={[styles.dayBadge, { backgroundColor: colors.accent }]}>
+            <Text style={[styles.dayBadgeText, { color: colors.onAccent }]}>{dayEntries.length}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Calendar</Text>
+        <TouchableOpacity onPress={() => navigation.navigate('Timeline')} style={styles.headerButton}>
+          <Ionicons name="list-outline" size={26} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.monthBar}>
+        <TouchableOpacity onPress={() => changeMonth(-1)} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={22} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.monthTitle}>
+          <Text style={[styles.monthName, { color: colors.text }]}>
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </Text>
+          <Text style={[styles.monthCount, { color: colors.mutedText }]}>
+            {monthEntryCount} {monthEntryCount === 1 ? 'entry' : 'entries'}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => changeMonth(1)} style={styles.headerButton}>
+          <Ionicons name="chevron-forward" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.grid}>
+        {WEEKDAYS.map((weekday, index) => (
+          <View key={`weekday-${index}`} style={styles.weekdayCell}>
+            <Text style={[styles.weekday, { color: colors.mutedText }]}>{weekday}</Text>
+          </View>
+        ))}
+        {buildMonthGrid(month).map(renderDay)}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  monthBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
+  monthTitle: {
+    alignItems: 'center',
+  },
+  monthName: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  monthCount: {
+    fontSize: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 4,
+  },
+  weekdayCell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  weekday: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayNumber: {
+    fontSize: 15,
+  },
+  todayNumber: {
+    fontWeight: '700',
+  },
+  dayImage: {
+    ...StyleSheet.absoluteFillObject,
+    margin: 2,
+    borderRadius: 6,
+  },
+  dayOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    margin: 2,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayOverlayNumber: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  dayBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 3,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+});
+
+export default CalendarScreen;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import {
+  EntryComment,
+  getComments,
+  addComment,
+  updateComment,
+  deleteComment,
+} from '../storage/commentRepository.ts';
+import { getEntry } from '../storage/entryRepository.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import ActionSheet from '../components/ActionSheet.tsx';
+
+type CommentsScreenProps = NativeStackScreenProps<RootStackParamList, 'Comments'>;
+
+const CommentsScreen: React.FC<CommentsScreenProps> = ({ navigation, route }) => {
+  const { entryId } = route.params;
+  const [comments, setComments] = useState<EntryComment[]>([]);
+  const [entryTitle, setEntryTitle] = useState('');
+  const [text, setText] = useState('');
+  const [editingComment, setEditingComment] = useState<EntryComment | null>(null);
+  const [actionComment, setActionComment] = useState<EntryComment | null>(null);
+  const { colors } = useTheme();
+  const { formatDateTime } = useProfile();
+
+  useEffect(() => {
+    loadComments();
+  }, [entryId]);
+
+  const loadComments = async () => {
+    try {
+      const [entry, entryComments] = await Promise.all([getEntry(entryId), getComments(entryId)]);
+      setEntryTitle(entry?.title ?? '');
+      setComments(entryComments);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+      Alert.alert('Error', 'Failed to load notes');
+    }
+  };
+
+  const submit = async () => {
+    if (!text.trim()) return;
+
+    try {
+      if (editingComment) {
+        const updated = await updateComment(entryId, editingComment.id, text);
+        setComments(comments.map(comment => (comment.id === updated.id ? updated : comment)));
+        setEditingComment(null);
+      } else {
+        const comment = await addComment(entryId, text);
+        setComments([...comments, comment]);
+      }
+      setText('');
+    } catch (error) {
+      console.error('Error saving comment:', error);
+      Alert.alert('Error', 'Failed to save note');
+    }
+  };
+
+  const startEditing = (comment: EntryComment) => {
+    setEditingComment(comment);
+    setText(comment.text);
+  };
+
+  const cancelEditing = () => {
+    setEditingComment(null);
+    setText('');
+  };
+
+  const removeComment = (comment: EntryComment) => {
+    Alert.alert('Delete Note', 'Are you sure you want to delete this note?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setComments(await deleteComment(entryId, comment.id));
+            if (editingComment?.id === comment.id) cancelEditing();
+          } catch (error) {
+            console.error('Error deleting comment:', error);
+            Alert.alert('Error', 'Failed to delete note');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderComment = ({ item }: { item: EntryComment }) => (
+    <TouchableOpacity
+      style={[styles.comment, { borderBottomColor: colors.divider }]}
+      onLongPress={() => setActionComment(item)}
+      delayLongPress={300}
+    >
+      <View style={styles.commentBody}>
+        <Text style={[styles.commentText, { color: colors.text }]}>
+          {item.text}
+        </Text>
+        <Text style={[styles.commentDate, { color: colors.mutedText }]}>
+          {formatDateTime(item.createdAt)}
+          {item.updatedAt ? ' · Edited' : ''}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.moreButton} onPress={() => setActionComment(item)}>
+        <Ionicons name="ellipsis-horizontal" size={18} color={colors.mutedText} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={{ flex: 1 }}
+      >
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+            <Ionicons name="chevron-back" size={28} color={colors.text} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>
+              Notes
+            </Text>
+            {entryTitle ? (
+              <Text style={[styles.headerSubtitle, { color: colors.mutedText }]} numberOfLines={1}>
+                {entryTitle}
+              </Text>
+            ) : null}
+          </View>
+          <View style={styles.headerButton} />
+        </View>
+
+        <FlatList
+          data={comments}
+          renderItem={renderComment}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={comments.length === 0 && styles.emptyList}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="chatbubbles-outline" size={48} color={colors.secondaryText} />
+              <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+                Add a note about this place, like what changed when you came back
+              </Text>
+            </View>
+          }
+        />
+
+        {editingComment && (
+          <View style={[styles.editingBar, { backgroundColor: colors.card }]}>
+            <Text style={[styles.editingText, { color: colors.secondaryText }]}>
+              Editing note
+            </Text>
+            <TouchableOpacity onPress={cancelEditing}>
+              <Text style={[styles.editingCancel, { color: colors.accent }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={[styles.inputRow, { borderTopColor: colors.border }]}>
+          <TextInput
+            style={[
+              styles.input,
+              {
+                color: colors.text,
+                backgroundColor: colors.surface,
+              },
+            ]}
+            placeholder="Add a note..."
+            placeholderTextColor={colors.mutedText}
+            value={text}
+            onChangeText={setText}
+            multiline
+          />
+          <TouchableOpacity onPress={submit} disabled={!text.trim()} style={styles.sendButton}>
+            <Text style={[styles.sendText, { color: colors.accent }, { opacity: text.trim() ? 1 : 0.4 }]}>
+              {editingComment ? 'Save' : 'Post'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+
+      <ActionSheet
+        visible={actionComment !== null}
+        options={
+          actionComment
+            ? [
+                { label: 'Edit', icon: 'create-outline', onPress: () => startEditing(actionComment) },
+                {
+                  label: 'Delete',
+                  icon: 'trash-outline',
+                  destructive: true,
+                  onPress: () => removeComment(actionComment),
+                },
+              ]
+            : []
+        }
+        onClose={() => setActionComment(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+  },
+  comment: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  commentBody: {
+    flex: 1,
+    gap: 4,
+  },
+  commentText: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  commentDate: {
+    fontSize: 12,
+  },
+  moreButton: {
+    padding: 4,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  editingBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  editingText: {
+    fontSize: 13,
+  },
+  editingCancel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    padding: 12,
+    borderTopWidth: 0.5,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    maxHeight: 120,
+  },
+  sendButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+  },
+  sendText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CommentsScreen;
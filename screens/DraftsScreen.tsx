@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { EntryDraft, deleteDraft, getDrafts, newDraftId } from '../storage/draftRepository.ts';
+import { getThumbnailUri } from '../storage/photoStore.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type DraftsScreenProps = NativeStackScreenProps<RootStackParamList, 'Drafts'>;
+
+const DraftsScreen: React.FC<DraftsScreenProps> = ({ navigation }) => {
+  const [drafts, setDrafts] = useState<EntryDraft[]>([]);
+  const { colors } = useTheme();
+  const { formatDateTime } = useProfile();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadDrafts();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await getDrafts());
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      Alert.alert('Error', 'Failed to load drafts');
+    }
+  };
+
+  // popTo returns to the New Post screen underneath instead of stacking another
+  const openDraft = (draftId: string) => {
+    navigation.popTo('AddEntry', { draftId });
+  };
+
+  const removeDraft = (draft: EntryDraft) => {
+    Alert.alert(
+      'Delete Draft',
+      `Delete "${draft.title.trim() || 'Untitled draft'}"? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDraft(draft.id);
+              setDrafts(await getDrafts());
+            } catch (error) {
+              console.error('Error deleting draft:', error);
+              Alert.alert('Error', 'Failed to delete draft');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDraft = ({ item }: { item: EntryDraft }) => {
+    const cover = item.images[item.coverIndex] ?? item.images[0];
+    return (
+      <TouchableOpacity
+        style={[styles.row, { borderBottomColor: colors.divider }]}
+        onPress={() => openDraft(item.id)}
+      >
+        {cover ? (
+          <Image source={{ uri: getThumbnailUri(cover) }} style={styles.rowImage} />
+        ) : (
+          <View style={[styles.rowImage, styles.rowPlaceholder, { backgroundColor: colors.surface }]}>
+            <Ionicons name="image-outline" size={22} color={colors.mutedText} />
+          </View>
+        )}
+        <View style={styles.rowText}>
+          <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+            {item.title.trim() || 'Untitled draft'}
+          </Text>
+          <Text style={[styles.rowMeta, { color: colors.mutedText }]} numberOfLines={1}>
+            {item.images.length} {item.images.length === 1 ? 'photo' : 'photos'}
+            {` · Edited ${formatDateTime(item.updatedAt)}`}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => removeDraft(item)} style={styles.rowAction}>
+          <Ionicons name="trash-outline" size={22} color={colors.danger} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Drafts</Text>
+        <TouchableOpacity onPress={() => openDraft(newDraftId())} style={styles.headerButton}>
+          <Ionicons name="add" size={28} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={drafts}
+        renderItem={renderDraft}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="documents-outline" size={48} color={colors.secondaryText} />
+            <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+              Unfinished posts are saved here automatically
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  rowImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  rowPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowAction: {
+    padding: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default DraftsScreen;
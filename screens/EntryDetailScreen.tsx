@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  Image,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import MapView, { Marker } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { TravelEntry, getEntry } from '../storage/entryRepository.ts';
+import { getComments } from '../storage/commentRepository.ts';
+import { getHandAddedTags } from '../utils/tags.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import HashtagText from '../components/HashtagText.tsx';
+
+const { width } = Dimensions.get('window');
+
+type EntryDetailScreenProps = NativeStackScreenProps<RootStackParamList, 'EntryDetail'>;
+
+const EntryDetailScreen: React.FC<EntryDetailScreenProps> = ({ navigation, route }) => {
+  const { entryId } = route.params;
+  const [entry, setEntry] = useState<TravelEntry | null>(null);
+  const [imageHeights, setImageHeights] = useState<{ [uri: string]: number }>({});
+  const [commentCount, setCommentCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const { colors } = useTheme();
+  const { formatLongDate } = useProfile();
+
+  useEffect(() => {
+    // Reload on focus so edits made from this screen show up on return
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadEntry();
+    });
+
+    return unsubscribe;
+  }, [navigation, entryId]);
+
+  const loadEntry = async () => {
+    try {
+      const [found, comments] = await Promise.all([getEntry(entryId), getComments(entryId)]);
+      setEntry(found ?? null);
+      setCommentCount(comments.length);
+      if (found) {
+        // Show each whole photo at its own aspect ratio rather than cropped square
+        found.images.forEach(uri => {
+          Image.getSize(
+            uri,
+            (imgWidth, imgHeight) =>
+              setImageHeights(heights => ({ ...heights, [uri]: (width * imgHeight) / imgWidth })),
+            () => {}
+          );
+        });
+      }
+    } catch (error) {
+      console.error('Error loading entry:', error);
+      Alert.alert('Error', 'Failed to load entry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+          {entry?.title ?? 'Entry'}
+        </Text>
+        {entry ? (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('EditEntry', { entryId: entry.id })}
+            style={styles.headerButton}
+          >
+            <Ionicons name="create-outline" size={24} color={colors.text} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
+      </View>
+
+      {!entry ? (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={64} color={colors.secondaryText} />
+          <Text style={[styles.emptyText, { color: colors.secondaryText }]}>
+            This entry no longer exists
+          </Text>
+        </View>
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <View style={styles.photos}>
+            {entry.images.map((uri, index) => (
+              <Image
+                key={`${index}-${uri}`}
+                source={{ uri }}
+                style={{ width, height: imageHeights[uri] ?? width }}
+                resizeMode="contain"
+              />
+            ))}
+          </View>
+
+          {entry.missingPhotos && entry.missingPhotos.length > 0 && (
+            <TouchableOpacity
+              style={styles.missingPhotos}
+              onPress={() => navigation.navigate('EditEntry', { entryId: entry.id })}
+            >
+              <Ionicons name="warning-outline" size={18} color={colors.danger} />
+              <Text style={[styles.missingPhotosText, { color: colors.danger }]}>
+                {entry.missingPhotos.length} photo{entry.missingPhotos.length === 1 ? ' is' : 's are'} no longer on
+                this device. Tap to replace.
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.content}>
+            <Text style={[styles.title, { color: colors.text }]}>{entry.title}</Text>
+            <Text style={[styles.date, { color: colors.mutedText }]}>
+              {formatLongDate(entry.date)}
+              {entry.updatedAt ? ' · Edited' : ''}
+              {entry.isPrivate ? ' · Private' : ''}
+            </Text>
+            <HashtagText
+              text={entry.description}
+              extraTags={getHandAddedTags(entry)}
+              style={[styles.description, { color: colors.text }]}
+              onPressTag={(tag) => navigation.push('TagFeed', { tag })}
+            />
+
+            {entry.address ? (
+              <View style={styles.addressRow}>
+                <Ionicons name="location" size={18} color={colors.accent} />
+                <Text style={[styles.address, { color: colors.secondaryText }]}>
+                  {entry.address}
+                </Text>
+              </View>
+            ) : null}
+
+            <TouchableOpacity
+              style={styles.addressRow}
+              onPress={() => navigation.navigate('Comments', { entryId: entry.id })}
+            >
+              <Ionicons name="chatbubble-outline" size={18} color={colors.accent} />
+              <Text style={[styles.address, { color: colors.secondaryText }]}>
+                {commentCount === 0 ? 'Add a note' : commentCount === 1 ? '1 note' : `${commentCount} notes`}
+              </Text>
+            </TouchableOpacity>
+
+            {entry.location && (
+              <View style={[styles.mapPreview, { borderColor: colors.border }]}>
+                <MapView
+                  style={StyleSheet.absoluteFill}
+                  liteMode
+                  scrollEnabled={false}
+                  zoomEnabled={false}
+                  rotateEnabled={false}
+                  pitchEnabled={false}
+                  initialRegion={{
+                    latitude: entry.location.coords.latitude,
+                    longitude: entry.location.coords.longitude,
+                    latitudeDelta: 0.02,
+                    longitudeDelta: 0.02,
+                  }}
+                >
+                  <Marker coordinate={entry.location.coords} />
+                </MapView>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  photos: {
+    gap: 2,
+  },
+  content: {
+    padding: 16,
+    gap: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  date: {
+    fontSize: 13,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    marginTop: 8,
+  },
+  missingPhotos: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(237,73,86,0.1)',
+  },
+  missingPhotosText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  address: {
+    fontSize: 14,
+    flex: 1,
+  },
+  mapPreview: {
+    height: 160,
+    borderRadius: 12,
+    borderWidth: 0.5,
+    overflow: 'hidden',
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
+
+export default EntryDetailScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -8,68 +8,150 @@ import {
   Alert,
   Dimensions,
   Image,
-  FlatList,
   Platform,
+  ScrollView,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FlashList } from '@shopify/flash-list';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import {
+  EntryPage,
+  TravelEntry,
+  getEntries,
+  getEntriesByIds,
+  getEntryPage,
+  trashEntry,
+  restoreEntry,
+} from '../storage/entryRepository.ts';
+import { getThumbnailUri } from '../storage/photoStore.ts';
+import { getDiaryTitle } from '../storage/profileRepository.ts';
+import { EntryComment, getAllComments } from '../storage/commentRepository.ts';
+import { ActionState, PostAction, getActionStates, setActionState } from '../storage/actionStateRepository.ts';
+import { Trip, getTrips, getTripCovers, deleteTrip } from '../storage/tripRepository.ts';
+import { removeEntryFromCollections } from '../storage/collectionRepository.ts';
+import { getTaggedEntries } from '../storage/tagRepository.ts';
+import {
+  FeedLayout,
+  getFeedLayout,
+  getFeedSortOrder,
+  saveFeedLayout,
+  saveFeedSortOrder,
+} from '../storage/preferencesRepository.ts';
+import { getHandAddedTags } from '../utils/tags.ts';
+import { DateSortOrder, sortByDate } from '../utils/dates.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import ActionSheet, { ActionSheetOption } from '../components/ActionSheet.tsx';
+import PhotoCarousel from '../components/PhotoCarousel.tsx';
+import TripFormModal from '../components/TripFormModal.tsx';
+import CollectionPickerModal from '../components/CollectionPickerModal.tsx';
+import UndoSnackbar from '../components/UndoSnackbar.tsx';
+import HashtagText from '../components/HashtagText.tsx';
+import EntryGridCell from '../components/EntryGridCell.tsx';
+import EntryPreviewModal from '../components/EntryPreviewModal.tsx';
 import { Ionicons } from '@expo/vector-icons';
 
 const { width } = Dimensions.get('window');
 const numColumns = 3;
 const gap = 1;
 const itemWidth = (width - (numColumns + 1) * gap) / numColumns;
-
-type TravelEntry = {
-  id: string;
-  title: string;
-  description: string;
-  image: string;
-  address: string;
-  date: string;
-};
+// Entries loaded per page as the feed scrolls; ten rows of the grid
+const PAGE_SIZE = 30;
 
 type RenderItemProps = {
   item: TravelEntry;
   index: number;
 };
 
-const HomeScreen = () => {
-  const navigation = useNavigation();
+// Also mounted as TripFeed, TagFeed and EntryList, where the feed is
+// narrowed to a single trip, a tag or a hand-picked list of entries
+type HomeScreenProps = NativeStackScreenProps<RootStackParamList, 'Home' | 'TripFeed' | 'TagFeed' | 'EntryList'>;
+
+const HomeScreen: React.FC<HomeScreenProps> = ({ navigation, route }) => {
+  const params = route.params;
+  const tripId = params && 'tripId' in params ? params.tripId : undefined;
+  const tag = params && 'tag' in params ? params.tag : undefined;
+  const listEntries = params && 'entryIds' in params ? params : undefined;
   const [entries, setEntries] = useState<TravelEntry[]>([]);
+  // How many entries the whole feed holds, loaded or not
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Stops the end of the list from requesting the same page twice
+  const loadingMoreRef = useRef(false);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripCovers, setTripCovers] = useState<{ [tripId: string]: string }>({});
+  const [tripFormVisible, setTripFormVisible] = useState(false);
+  const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [showTripActions, setShowTripActions] = useState(false);
   const [loading, setLoading] = useState(true);
-  const { isDarkMode, toggleTheme } = useTheme();
+  const [sortOrder, setSortOrder] = useState<DateSortOrder>('newest');
+  const [layout, setLayout] = useState<FeedLayout>('feed');
+  // The grid cell being previewed after a long press
+  const [previewEntry, setPreviewEntry] = useState<TravelEntry | null>(null);
+  const { colors } = useTheme();
+  const { profile, formatDate } = useProfile();
   const [likedPosts, setLikedPosts] = useState<{ [key: string]: boolean }>({});
   const [savedPosts, setSavedPosts] = useState<{ [key: string]: boolean }>({});
-  const [commentedPosts, setCommentedPosts] = useState<{ [key: string]: boolean }>({});
+  const [comments, setComments] = useState<{ [entryId: string]: EntryComment[] }>({});
   const [sharedPosts, setSharedPosts] = useState<{ [key: string]: boolean }>({});
+  const [actionEntry, setActionEntry] = useState<TravelEntry | null>(null);
+  const [collectionEntryId, setCollectionEntryId] = useState<string | null>(null);
+  // The entry just moved to the Trash, while its Undo bar is showing
+  const [trashedEntry, setTrashedEntry] = useState<TravelEntry | null>(null);
 
   useEffect(() => {
     loadEntries();
     loadActionStates();
   }, []);
 
+  const loadComments = async () => {
+    try {
+      setComments(await getAllComments());
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  };
+
+  // The main feed and trip feeds are read from the entry index a page at a
+  // time. Tags and hand-picked lists aren't in the index, so those feeds load
+  // every entry they show at once.
+  const loadFeedPage = async (order: DateSortOrder, limit: number): Promise<EntryPage> => {
+    if (tag || listEntries) {
+      const narrowed = tag
+        ? getTaggedEntries(await getEntries(), tag)
+        : await getEntriesByIds(listEntries!.entryIds);
+      return { entries: sortByDate(narrowed, order), total: narrowed.length, nextOffset: null };
+    }
+    return getEntryPage({ offset: 0, limit, order, tripId });
+  };
+
+  // Reloads the feed from the top, e.g. after an entry comes back from the
+  // Trash, keeping at least `limit` entries loaded
+  const refreshFeed = async (order: DateSortOrder, limit = PAGE_SIZE) => {
+    const page = await loadFeedPage(order, limit);
+    setEntries(page.entries);
+    setTotal(page.total);
+    setNextOffset(page.nextOffset);
+  };
+
   const loadEntries = async () => {
     try {
       setLoading(true);
-      const entriesStr = await AsyncStorage.getItem('travelEntries');
-      
-      if (entriesStr) {
-        try {
-          const parsedEntries = JSON.parse(entriesStr);
-          // Ensure we have valid entries with required properties
-          const validEntries = parsedEntries.filter((entry: TravelEntry) => 
-            entry.id && entry.title && entry.description && entry.image
-          );
-          setEntries(validEntries);
-        } catch (error) {
-          console.error('Error parsing entries:', error);
-          setEntries([]);
-        }
-      } else {
-        setEntries([]);
+      // Invalid entries are repaired or quarantined by the repository's migrations
+      const [loadedTrips, loadedSortOrder, loadedLayout] = await Promise.all([
+        getTrips(),
+        getFeedSortOrder(),
+        getFeedLayout(),
+      ]);
+      await refreshFeed(loadedSortOrder);
+      setTrips(loadedTrips);
+      setSortOrder(loadedSortOrder);
+      setLayout(loadedLayout);
+      if (!tripId && !tag && !listEntries) {
+        setTripCovers(await getTripCovers(loadedTrips));
       }
     } catch (error) {
       console.error('Error loading entries:', error);
@@ -79,112 +161,232 @@ const HomeScreen = () => {
     }
   };
 
-  const loadActionStates = async () => {
+  const loadMoreEntries = async () => {
+    if (nextOffset === null || loadingMoreRef.current) return;
     try {
-      const [liked, commented, shared, saved] = await Promise.all([
-        AsyncStorage.getItem('likedPosts'),
-        AsyncStorage.getItem('commentedPosts'),
-        AsyncStorage.getItem('sharedPosts'),
-        AsyncStorage.getItem('savedPosts'),
-      ]);
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+      const page = await getEntryPage({ offset: nextOffset, limit: PAGE_SIZE, order: sortOrder, tripId });
+      // An entry saved in the meantime shifts the pages; skip any already shown
+      setEntries(current => {
+        const shown = new Set(current.map(entry => entry.id));
+        return [...current, ...page.entries.filter(entry => !shown.has(entry.id))];
+      });
+      setTotal(page.total);
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      console.error('Error loading more entries:', error);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
 
-      if (liked) setLikedPosts(JSON.parse(liked));
-      if (commented) setCommentedPosts(JSON.parse(commented));
-      if (shared) setSharedPosts(JSON.parse(shared));
-      if (saved) setSavedPosts(JSON.parse(saved));
+  const toggleSortOrder = async () => {
+    const order = sortOrder === 'newest' ? 'oldest' : 'newest';
+    setSortOrder(order);
+    try {
+      await saveFeedSortOrder(order);
+      await refreshFeed(order);
+    } catch (error) {
+      console.error('Error changing sort order:', error);
+    }
+  };
+
+  const toggleLayout = async () => {
+    const updated = layout === 'feed' ? 'grid' : 'feed';
+    setLayout(updated);
+    try {
+      await saveFeedLayout(updated);
+    } catch (error) {
+      console.error('Error saving feed layout:', error);
+    }
+  };
+
+  const loadActionStates = async () => {
+    try {
+      const { liked, shared, saved } = await getActionStates();
+      setLikedPosts(liked);
+      setSharedPosts(shared);
+      setSavedPosts(saved);
     } catch (error) {
       console.error('Error loading action states:', error);
     }
   };
 
-  const removeEntry = async (id: string) => {
-    Alert.alert(
-      'Delete Entry',
-      'Are you sure you want to delete this entry?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              const updatedEntries = entries.filter(entry => entry.id !== id);
-              await AsyncStorage.setItem('travelEntries', JSON.stringify(updatedEntries));
-              setEntries(updatedEntries);
-            } catch (error) {
-              console.error('Error removing entry:', error);
-              Alert.alert('Error', 'Failed to remove entry');
-            }
-          },
-        },
-      ]
-    );
+  // No confirmation: the entry goes to the Trash and can be undone right away
+  const removeEntry = async (entry: TravelEntry) => {
+    try {
+      await trashEntry(entry.id);
+      setEntries(current => current.filter(e => e.id !== entry.id));
+      setTotal(current => current - 1);
+      // Later pages start one entry earlier now
+      setNextOffset(current => (current === null ? null : current - 1));
+      setTrashedEntry(entry);
+    } catch (error) {
+      console.error('Error removing entry:', error);
+      Alert.alert('Error', 'Failed to remove entry');
+    }
   };
 
-  const toggleAction = async (id: string, type: 'like' | 'comment' | 'share' | 'save') => {
+  const undoRemoveEntry = async (entry: TravelEntry) => {
     try {
-      let newState: { [key: string]: boolean } = {};
-      let storageKey = '';
+      await restoreEntry(entry.id);
+      await refreshFeed(sortOrder, entries.length + 1);
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      Alert.alert('Error', 'Failed to restore entry');
+    }
+  };
+
+  const toggleAction = async (id: string, type: PostAction) => {
+    try {
+      let newState: ActionState = {};
 
       switch (type) {
         case 'like':
           newState = { ...likedPosts, [id]: !likedPosts[id] };
           setLikedPosts(newState);
-          storageKey = 'likedPosts';
-          break;
-        case 'comment':
-          newState = { ...commentedPosts, [id]: !commentedPosts[id] };
-          setCommentedPosts(newState);
-          storageKey = 'commentedPosts';
           break;
         case 'share':
           newState = { ...sharedPosts, [id]: !sharedPosts[id] };
           setSharedPosts(newState);
-          storageKey = 'sharedPosts';
           break;
         case 'save':
           newState = { ...savedPosts, [id]: !savedPosts[id] };
           setSavedPosts(newState);
-          storageKey = 'savedPosts';
           break;
       }
 
-      await AsyncStorage.setItem(storageKey, JSON.stringify(newState));
+      await setActionState(type, newState);
+      // Unsaving an entry also takes it out of every collection
+      if (type === 'save' && !newState[id]) {
+        await removeEntryFromCollections(id);
+      }
     } catch (error) {
       console.error('Error toggling action:', error);
     }
   };
 
+  const shareEntry = async (entry: TravelEntry) => {
+    try {
+      const result = await Share.share({
+        title: entry.title,
+        message: [entry.title, entry.description, entry.address].filter(Boolean).join('\n\n'),
+      });
+      if (result.action === Share.sharedAction && !sharedPosts[entry.id]) {
+        await toggleAction(entry.id, 'share');
+      }
+    } catch (error) {
+      console.error('Error sharing entry:', error);
+    }
+  };
+
+  const getEntryActions = (entry: TravelEntry): ActionSheetOption[] => [
+    {
+      label: 'Edit',
+      icon: 'create-outline',
+      onPress: () => navigation.navigate('EditEntry', { entryId: entry.id }),
+    },
+    {
+      label: likedPosts[entry.id] ? 'Unlike' : 'Like',
+      icon: likedPosts[entry.id] ? 'heart-dislike-outline' : 'heart-outline',
+      onPress: () => toggleAction(entry.id, 'like'),
+    },
+    {
+      label: savedPosts[entry.id] ? 'Remove from Saved' : 'Save',
+      icon: savedPosts[entry.id] ? 'bookmark' : 'bookmark-outline',
+      onPress: () => toggleAction(entry.id, 'save'),
+    },
+    {
+      label: 'Add to Collection…',
+      icon: 'albums-outline',
+      onPress: () => setCollectionEntryId(entry.id),
+    },
+    {
+      label: 'Share',
+      icon: 'share-outline',
+      onPress: () => shareEntry(entry),
+    },
+    {
+      label: 'Delete',
+      icon: 'trash-outline',
+      destructive: true,
+      onPress: () => removeEntry(entry),
+    },
+  ];
+
+  const renderCommentsPreview = (entryId: string) => {
+    const entryComments = comments[entryId] ?? [];
+    if (entryComments.length === 0) return null;
+    const latest = entryComments[entryComments.length - 1];
+
+    return (
+      <TouchableOpacity onPress={() => navigation.navigate('Comments', { entryId })}>
+        <Text style={[styles.commentCount, { color: colors.mutedText }]}>
+          {entryComments.length === 1 ? 'View 1 note' : `View all ${entryComments.length} notes`}
+        </Text>
+        <Text style={[styles.commentPreview, { color: colors.secondaryText }]} numberOfLines={2}>
+          {latest.text}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderAvatar = (size: number) =>
+    profile.avatarUri ? (
+      <Image
+        source={{ uri: getThumbnailUri(profile.avatarUri) }}
+        style={{ width: size, height: size, borderRadius: size / 2 }}
+      />
+    ) : (
+      <Ionicons name="person-circle" size={size} color={colors.text} />
+    );
+
   const renderPost = ({ item }: { item: TravelEntry }) => (
     <View style={styles.postContainer}>
       <View style={styles.postHeader}>
         <View style={styles.postHeaderLeft}>
-          <View style={styles.profileImage}>
-            <Ionicons name="person-circle" size={40} color={isDarkMode ? '#ffffff' : '#000000'} />
+          <View style={[styles.profileImage, { backgroundColor: colors.surface }]}>
+            {renderAvatar(40)}
           </View>
           <View>
-            <Text style={[styles.username, { color: isDarkMode ? '#ffffff' : '#000000' }]}>
-              Aljo's Travel Diary
-            </Text>
-            <Text style={[styles.location, { color: isDarkMode ? '#999999' : '#666666' }]}>
+            <View style={styles.usernameRow}>
+              <Text style={[styles.username, { color: colors.text }]}>
+                {getDiaryTitle(profile)}
+              </Text>
+              {item.isPrivate && <Ionicons name="lock-closed" size={12} color={colors.mutedText} />}
+            </View>
+            <Text style={[styles.location, { color: colors.secondaryText }]}>
               {item.address}
             </Text>
           </View>
         </View>
         <TouchableOpacity
           style={styles.moreButton}
-          onPress={() => removeEntry(item.id)}
+          onPress={() => setActionEntry(item)}
         >
-          <Ionicons name="ellipsis-horizontal" size={24} color={isDarkMode ? '#ffffff' : '#000000'} />
+          <Ionicons name="ellipsis-horizontal" size={24} color={colors.text} />
         </TouchableOpacity>
       </View>
 
-      <Image
-        source={{ uri: item.image }}
-        style={styles.postImage}
-        resizeMode="cover"
+      <PhotoCarousel
+        images={item.images}
+        width={width}
+        height={width}
+        onPress={() => navigation.navigate('EntryDetail', { entryId: item.id })}
       />
 
+      {item.missingPhotos && item.missingPhotos.length > 0 && (
+        <TouchableOpacity
+          style={styles.missingPhotos}
+          onPress={() => navigation.navigate('EditEntry', { entryId: item.id })}
+        >
+          <Ionicons name="warning-outline" size={16} color={colors.danger} />
+          <Text style={[styles.missingPhotosText, { color: colors.danger }]}>Some photos are missing. Tap to replace them.</Text>
+        </TouchableOpacity>
+      )}
+
       <View style={styles.postActions}>
         <View style={styles.postActionsLeft}>
           <TouchableOpacity 
@@ -194,17 +396,17 @@ const HomeScreen = () => {
             <Ionicons 
               name={likedPosts[item.id] ? "heart" : "heart-outline"} 
               size={28} 
-              color={likedPosts[item.id] ? '#ff3040' : isDarkMode ? '#ffffff' : '#000000'} 
+              color={likedPosts[item.id] ? colors.danger : colors.text} 
             />
           </TouchableOpacity>
           <TouchableOpacity 
             style={styles.actionButton}
-            onPress={() => toggleAction(item.id, 'comment')}
+            onPress={() => navigation.navigate('Comments', { entryId: item.id })}
           >
             <Ionicons 
-              name={commentedPosts[item.id] ? "chatbubble" : "chatbubble-outline"} 
+              name={comments[item.id]?.length ? "chatbubble" : "chatbubble-outline"} 
               size={24} 
-              color={commentedPosts[item.id] ? '#0095f6' : isDarkMode ? '#ffffff' : '#000000'} 
+              color={comments[item.id]?.length ? colors.accent : colors.text} 
             />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -214,7 +416,7 @@ const HomeScreen = () => {
             <Ionicons 
               name={sharedPosts[item.id] ? "paper-plane" : "paper-plane-outline"} 
               size={24} 
-              color={sharedPosts[item.id] ? '#0095f6' : isDarkMode ? '#ffffff' : '#000000'} 
+              color={sharedPosts[item.id] ? colors.accent : colors.text} 
             />
           </TouchableOpacity>
         </View>
@@ -225,34 +427,122 @@ const HomeScreen = () => {
           <Ionicons 
             name={savedPosts[item.id] ? "bookmark" : "bookmark-outline"} 
             size={24} 
-            color={savedPosts[item.id] ? '#0095f6' : isDarkMode ? '#ffffff' : '#000000'} 
+            color={savedPosts[item.id] ? colors.accent : colors.text} 
           />
         </TouchableOpacity>
       </View>
 
       <View style={styles.postContent}>
-        <Text style={[styles.postTitle, { color: isDarkMode ? '#ffffff' : '#000000' }]}>
+        <Text style={[styles.postTitle, { color: colors.text }]}>
           {item.title}
         </Text>
-        <Text style={[styles.postDescription, { color: isDarkMode ? '#cccccc' : '#666666' }]}>
-          {item.description}
-        </Text>
-        <Text style={[styles.postDate, { color: isDarkMode ? '#888888' : '#999999' }]}>
-          {new Date(item.date).toLocaleDateString()}
+        <HashtagText
+          text={item.description}
+          extraTags={getHandAddedTags(item)}
+          style={[styles.postDescription, { color: colors.secondaryText }]}
+          onPressTag={(pressed) => navigation.push('TagFeed', { tag: pressed })}
+        />
+        {renderCommentsPreview(item.id)}
+        <Text style={[styles.postDate, { color: colors.mutedText }]}>
+          {formatDate(item.date)}
+          {item.updatedAt ? ' · Edited' : ''}
         </Text>
       </View>
     </View>
   );
 
-  const renderStory = ({ item }: { item: TravelEntry }) => (
-    <TouchableOpacity style={styles.storyContainer}>
-      <View style={styles.storyImageContainer}>
-        <Image source={{ uri: item.image }} style={styles.storyImage} />
-      </View>
-      <Text style={[styles.storyTitle, { color: isDarkMode ? '#ffffff' : '#000000' }]} numberOfLines={1}>
-        {item.title}
+  const formatTripDates = (trip: Trip) =>
+    `${formatDate(trip.startDate)} – ${formatDate(trip.endDate)}`;
+
+  const openTripForm = (trip: Trip | null) => {
+    setEditingTrip(trip);
+    setTripFormVisible(true);
+  };
+
+  const removeTrip = (trip: Trip) => {
+    Alert.alert(
+      'Delete Trip',
+      `Delete "${trip.name}"? Its entries will stay in your diary.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTrip(trip.id);
+              navigation.goBack();
+            } catch (error) {
+              console.error('Error deleting trip:', error);
+              Alert.alert('Error', 'Failed to delete trip');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderStory = (item: Trip) => {
+    const cover = tripCovers[item.id];
+    return (
+      <TouchableOpacity
+        key={`trip-${item.id}`}
+        style={styles.storyContainer}
+        onPress={() => navigation.push('TripFeed', { tripId: item.id })}
+      >
+        <View style={styles.storyImageContainer}>
+          {cover ? (
+            <Image source={{ uri: cover }} style={styles.storyImage} />
+          ) : (
+            <View style={[styles.storyImage, styles.storyPlaceholder, { backgroundColor: colors.surface }]}>
+              <Ionicons name="airplane" size={24} color={colors.accent} />
+            </View>
+          )}
+        </View>
+        <Text style={[styles.storyTitle, { color: colors.text }]} numberOfLines={1}>
+          {item.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderTripHeader = (trip: Trip) => (
+    <View style={[styles.tripHeader, { borderBottomColor: colors.border }]}>
+      <Text style={[styles.tripDates, { color: colors.mutedText }]}>
+        {formatTripDates(trip)} · {total} {total === 1 ? 'entry' : 'entries'}
       </Text>
-        </TouchableOpacity>
+      {trip.description ? (
+        <Text style={[styles.postDescription, { color: colors.secondaryText }]}>
+          {trip.description}
+        </Text>
+      ) : null}
+    </View>
+  );
+
+  const currentTrip = tripId ? trips.find(trip => trip.id === tripId) : undefined;
+
+  // FlashList only re-renders visible cells when this changes, so it holds
+  // everything a post shows apart from the entry itself
+  const cellState = useMemo(
+    () => ({ likedPosts, savedPosts, sharedPosts, comments, profile, colors }),
+    [likedPosts, savedPosts, sharedPosts, comments, profile, colors]
+  );
+
+  // Stable so memoized grid cells only re-render when their own entry changes
+  const openEntry = useCallback(
+    (entry: TravelEntry) => navigation.navigate('EntryDetail', { entryId: entry.id }),
+    [navigation]
+  );
+
+  const renderGridItem = ({ item }: { item: TravelEntry }) => (
+    <EntryGridCell
+      entry={item}
+      size={itemWidth}
+      spacing={gap}
+      saved={!!savedPosts[item.id]}
+      onPress={openEntry}
+      onLongPress={setPreviewEntry}
+    />
   );
 
 const styles = StyleSheet.create({
@@ -271,6 +561,19 @@ const styles = StyleSheet.create({
       fontSize: 24,
       fontWeight: 'bold',
     },
+    headerLeft: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      flex: 1,
+    },
+    tripTitle: {
+      flex: 1,
+      fontSize: 20,
+    },
+    feedTitle: {
+      flex: 1,
+      marginRight: 12,
+    },
     headerRight: {
       flexDirection: 'row',
     alignItems: 'center',
@@ -280,8 +583,9 @@ const styles = StyleSheet.create({
       padding: 4,
     },
     storiesContainer: {
+      // Fixed so the feed header doesn't change height as covers load
+      height: 112,
       borderBottomWidth: 0.5,
-      borderBottomColor: '#dbdbdb',
       paddingVertical: 8,
     },
     storyContainer: {
@@ -302,6 +606,30 @@ const styles = StyleSheet.create({
       height: '100%',
       borderRadius: 32,
     },
+    storyPlaceholder: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    sortBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-end',
+      gap: 4,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+    },
+    sortText: {
+      fontSize: 13,
+    },
+    tripHeader: {
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderBottomWidth: 0.5,
+      gap: 4,
+    },
+    tripDates: {
+      fontSize: 13,
+    },
     storyTitle: {
       fontSize: 12,
       marginTop: 4,
@@ -316,7 +644,6 @@ const styles = StyleSheet.create({
       width: 68,
       height: 68,
       borderRadius: 34,
-      backgroundColor: '#f5f5f5',
       justifyContent: 'center',
       alignItems: 'center',
     },
@@ -338,10 +665,14 @@ const styles = StyleSheet.create({
       width: 40,
       height: 40,
       borderRadius: 20,
-      backgroundColor: '#f5f5f5',
       justifyContent: 'center',
     alignItems: 'center',
     },
+    usernameRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
     username: {
       fontSize: 14,
       fontWeight: '600',
@@ -352,9 +683,15 @@ const styles = StyleSheet.create({
     moreButton: {
       padding: 4,
     },
-    postImage: {
-      width,
-      height: width,
+    missingPhotos: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingTop: 8,
+    },
+    missingPhotosText: {
+      fontSize: 13,
     },
     postActions: {
     flexDirection: 'row',
@@ -381,6 +718,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
       marginBottom: 4,
   },
+    commentCount: {
+      fontSize: 14,
+      marginBottom: 2,
+    },
+    commentPreview: {
+      fontSize: 14,
+      marginBottom: 4,
+    },
     postDate: {
       fontSize: 12,
       marginTop: 4,
@@ -404,12 +749,16 @@ const styles = StyleSheet.create({
       textAlign: 'center',
       lineHeight: 24,
     },
+    pageLoader: {
+      paddingVertical: 16,
+    },
   });
 
   // Add useEffect to reload entries when screen is focused
   useEffect(() => {
     const unsubscribe = navigation.addListener('focus', () => {
       loadEntries();
+      loadComments();
     });
 
     return unsubscribe;
@@ -417,68 +766,181 @@ const styles = StyleSheet.create({
 
   if (loading) {
     return (
-      <View style={[styles.container, { backgroundColor: isDarkMode ? '#000000' : '#ffffff' }]}>
-        <ActivityIndicator size="large" color={isDarkMode ? '#ffffff' : '#0095f6'} />
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.accent} />
       </View>
     );
   }
 
   return (
-    <SafeAreaView style={[styles.container, { backgroundColor: isDarkMode ? '#000000' : '#ffffff' }]}>
-      <View style={[styles.header, { borderBottomColor: isDarkMode ? '#333333' : '#dbdbdb' }]}>
-        <Text style={[styles.headerTitle, { color: isDarkMode ? '#ffffff' : '#000000' }]}>
-          Aljo's Travel Diary
-        </Text>
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        {tripId || tag || listEntries ? (
+          <View style={styles.headerLeft}>
+            <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+              <Ionicons name="chevron-back" size={28} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.headerTitle, styles.tripTitle, { color: colors.text }]} numberOfLines={1}>
+              {listEntries ? listEntries.title : tag ? `#${tag}` : currentTrip?.name ?? 'Trip'}
+            </Text>
+          </View>
+        ) : (
+          <Text style={[styles.headerTitle, styles.feedTitle, { color: colors.text }]} numberOfLines={1}>
+            {getDiaryTitle(profile)}
+          </Text>
+        )}
         <View style={styles.headerRight}>
-          <TouchableOpacity style={styles.headerButton} onPress={toggleTheme}>
-            <Ionicons name={isDarkMode ? "sunny" : "moon"} size={24} color={isDarkMode ? '#ffffff' : '#000000'} />
+          {currentTrip && (
+            <TouchableOpacity style={styles.headerButton} onPress={() => setShowTripActions(true)}>
+              <Ionicons name="ellipsis-horizontal" size={24} color={colors.text} />
+            </TouchableOpacity>
+          )}
+          {!tripId && !tag && !listEntries && (
+            <>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Search')}>
+                <Ionicons name="search-outline" size={24} color={colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Map')}>
+                <Ionicons name="map-outline" size={24} color={colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Calendar')}>
+                <Ionicons name="calendar-outline" size={24} color={colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Saved')}>
+                <Ionicons name="bookmarks-outline" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </>
+          )}
+          <TouchableOpacity style={styles.headerButton} onPress={toggleLayout}>
+            <Ionicons name={layout === 'grid' ? 'square-outline' : 'grid-outline'} size={24} color={colors.text} />
           </TouchableOpacity>
           <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('AddEntry')}>
-            <Ionicons name="add-circle-outline" size={28} color={isDarkMode ? '#ffffff' : '#000000'} />
+            <Ionicons name="add-circle-outline" size={28} color={colors.text} />
           </TouchableOpacity>
+          {!tripId && !tag && !listEntries && (
+            <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Profile')}>
+              {renderAvatar(26)}
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
-      <FlatList
+      <FlashList
+        // Changing numColumns needs a fresh list
+        key={layout}
         data={entries}
-        renderItem={renderPost}
+        extraData={cellState}
+        renderItem={layout === 'grid' ? renderGridItem : renderPost}
+        numColumns={layout === 'grid' ? numColumns : 1}
+        estimatedItemSize={layout === 'grid' ? itemWidth + gap : width + 200}
         keyExtractor={(item) => item.id}
         showsVerticalScrollIndicator={false}
-        ListHeaderComponent={() => (
-          <FlatList
-            data={entries}
-            renderItem={renderStory}
-            keyExtractor={(item) => `story-${item.id}`}
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            style={styles.storiesContainer}
-            ListHeaderComponent={() => (
-              <TouchableOpacity 
-                style={styles.addStoryContainer}
-                onPress={() => navigation.navigate('AddEntry')}
+        onEndReached={loadMoreEntries}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <>
+            {currentTrip ? renderTripHeader(currentTrip) : tag || listEntries ? null : (
+              // A plain row: there are only ever a handful of trips, and a
+              // virtualized list can't be nested in the feed's header
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={[styles.storiesContainer, { borderBottomColor: colors.border }]}
               >
-                <View style={[styles.addStoryButton, { backgroundColor: isDarkMode ? '#333333' : '#f5f5f5' }]}>
-                  <Ionicons name="add" size={28} color="#0095f6" />
-                </View>
-                <Text style={[styles.storyTitle, { color: isDarkMode ? '#ffffff' : '#000000' }]}>
-                  Your story
+                <TouchableOpacity
+                  style={styles.addStoryContainer}
+                  onPress={() => openTripForm(null)}
+                >
+                  <View style={[styles.addStoryButton, { backgroundColor: colors.surface }]}>
+                    <Ionicons name="add" size={28} color={colors.accent} />
+                  </View>
+                  <Text style={[styles.storyTitle, { color: colors.text }]}>
+                    New trip
+                  </Text>
+                </TouchableOpacity>
+                {trips.map(renderStory)}
+              </ScrollView>
+            )}
+            {total > 1 && (
+              <TouchableOpacity style={styles.sortBar} onPress={toggleSortOrder}>
+                <Ionicons name="swap-vertical" size={16} color={colors.mutedText} />
+                <Text style={[styles.sortText, { color: colors.mutedText }]}>
+                  {sortOrder === 'newest' ? 'Newest first' : 'Oldest first'}
                 </Text>
               </TouchableOpacity>
             )}
-          />
-        )}
+          </>
+        }
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.pageLoader} color={colors.accent} /> : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <Ionicons name="images-outline" size={64} color={isDarkMode ? '#ffffff' : '#666666'} />
-            <Text style={[styles.emptyText, { color: isDarkMode ? '#ffffff' : '#666666' }]}>
+            <Ionicons name="images-outline" size={64} color={colors.secondaryText} />
+            <Text style={[styles.emptyText, { color: colors.secondaryText }]}>
               No Entries yet
             </Text>
-            <Text style={[styles.emptySubText, { color: isDarkMode ? '#cccccc' : '#999999' }]}>
+            <Text style={[styles.emptySubText, { color: colors.mutedText }]}>
               Your travel memories will appear here
             </Text>
           </View>
         }
       />
+
+      <ActionSheet
+        visible={actionEntry !== null}
+        title={actionEntry?.title}
+        options={actionEntry ? getEntryActions(actionEntry) : []}
+        onClose={() => setActionEntry(null)}
+      />
+
+      <ActionSheet
+        visible={showTripActions}
+        title={currentTrip?.name}
+        options={currentTrip ? [
+          { label: 'Edit Trip', icon: 'create-outline', onPress: () => openTripForm(currentTrip) },
+          { label: 'Delete Trip', icon: 'trash-outline', destructive: true, onPress: () => removeTrip(currentTrip) },
+        ] : []}
+        onClose={() => setShowTripActions(false)}
+      />
+
+      <TripFormModal
+        visible={tripFormVisible}
+        trip={editingTrip}
+        onClose={() => setTripFormVisible(false)}
+        onSaved={() => {
+          setTripFormVisible(false);
+          loadEntries();
+        }}
+      />
+
+      <CollectionPickerModal
+        entryId={collectionEntryId}
+        onClose={() => setCollectionEntryId(null)}
+        onSaved={(collectionIds) => {
+          const id = collectionEntryId;
+          setCollectionEntryId(null);
+          // Filing an entry into a collection saves it too
+          if (id && collectionIds.length > 0 && !savedPosts[id]) {
+            toggleAction(id, 'save');
+          }
+        }}
+      />
+
+      <EntryPreviewModal
+        entry={previewEntry}
+        onOpen={(entry) => {
+          setPreviewEntry(null);
+          openEntry(entry);
+        }}
+        onClose={() => setPreviewEntry(null)}
+      />
+
+      <UndoSnackbar
+        message={trashedEntry ? `"${trashedEntry.title}" moved to Trash` : null}
+        onUndo={() => trashedEntry && undoRemoveEntry(trashedEntry)}
+        onDismiss={() => setTrashedEntry(null)}
+      />
     </SafeAreaView>
   );
 };
@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  FlatList,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import MapView, { Marker, Polyline, Region } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { TravelEntry, getEntries, getCoverThumbnail } from '../storage/entryRepository.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import { Cluster, WORLD_REGION, clusterPoints, regionForPoints } from '../utils/geo.ts';
+
+type MapScreenProps = NativeStackScreenProps<RootStackParamList, 'Map'>;
+
+type GeotaggedEntry = TravelEntry & { location: NonNullable<TravelEntry['location']> };
+
+const getCoordinate = (entry: GeotaggedEntry) => ({
+  latitude: entry.location.coords.latitude,
+  longitude: entry.location.coords.longitude,
+});
+
+const MapScreen: React.FC<MapScreenProps> = ({ navigation }) => {
+  const mapRef = useRef<MapView>(null);
+  const [entries, setEntries] = useState<TravelEntry[]>([]);
+  const [region, setRegion] = useState<Region | null>(null);
+  const [selectedEntry, setSelectedEntry] = useState<TravelEntry | null>(null);
+  const [showRoute, setShowRoute] = useState(false);
+  const [showUnplaced, setShowUnplaced] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { colors } = useTheme();
+  const { formatDate } = useProfile();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadEntries();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadEntries = async () => {
+    try {
+      const loaded = await getEntries();
+      setEntries(loaded);
+      if (!region) {
+        const placed = loaded.filter((entry): entry is GeotaggedEntry => entry.location !== null);
+        setRegion(regionForPoints(placed.map(getCoordinate)) ?? WORLD_REGION);
+      }
+    } catch (error) {
+      console.error('Error loading entries:', error);
+      Alert.alert('Error', 'Failed to load entries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const geotagged = useMemo(
+    () => entries.filter((entry): entry is GeotaggedEntry => entry.location !== null),
+    [entries]
+  );
+  const unplaced = useMemo(() => entries.filter(entry => entry.location === null), [entries]);
+
+  const clusters = useMemo(
+    () => (region ? clusterPoints(geotagged, getCoordinate, region) : []),
+    [geotagged, region]
+  );
+
+  // Connect entries in the order they were made, not the order they were saved
+  const routeCoordinates = useMemo(
+    () => [...geotagged].sort((a, b) => a.date.localeCompare(b.date)).map(getCoordinate),
+    [geotagged]
+  );
+
+  const openCluster = (cluster: Cluster<GeotaggedEntry>) => {
+    if (cluster.items.length === 1) {
+      setSelectedEntry(cluster.items[0]);
+      return;
+    }
+    const clusterRegion = regionForPoints(cluster.items.map(getCoordinate));
+    if (clusterRegion && region) {
+      // Zoom in at least far enough that the grid cell splits
+      mapRef.current?.animateToRegion({
+        ...clusterRegion,
+        latitudeDelta: Math.min(clusterRegion.latitudeDelta, region.latitudeDelta / 4),
+        longitudeDelta: Math.min(clusterRegion.longitudeDelta, region.longitudeDelta / 4),
+      });
+    }
+  };
+
+  const renderUnplacedEntry = ({ item }: { item: TravelEntry }) => (
+    <View style={[styles.unplacedRow, { borderBottomColor: colors.divider }]}>
+      <Image source={{ uri: getCoverThumbnail(item) }} style={styles.unplacedImage} />
+      <View style={styles.previewText}>
+        <Text style={[styles.previewTitle, { color: colors.text }]} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={[styles.previewMeta, { color: colors.mutedText }]}>
+          {formatDate(item.date)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.addLocationButton, { backgroundColor: colors.accent }]}
+        onPress={() => {
+          setShowUnplaced(false);
+          navigation.navigate('EditEntry', { entryId: item.id });
+        }}
+      >
+        <Text style={[styles.addLocationText, { color: colors.onAccent }]}>Add location</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading || !region) {
+    return (
+      <View style={[styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Map</Text>
+        <TouchableOpacity onPress={() => setShowRoute(!showRoute)} style={styles.headerButton}>
+          <Ionicons
+            name={showRoute ? 'git-commit' : 'git-commit-outline'}
+            size={24}
+            color={showRoute ? colors.accent : colors.text}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.mapContainer}>
+        <MapView
+          ref={mapRef}
+          style={StyleSheet.absoluteFill}
+          initialRegion={region}
+          onRegionChangeComplete={setRegion}
+          onPress={() => setSelectedEntry(null)}
+        >
+          {showRoute && routeCoordinates.length > 1 && (
+            <Polyline coordinates={routeCoordinates} strokeColor={colors.accent} strokeWidth={3} />
+          )}
+          {clusters.map(cluster => (
+            <Marker key={cluster.key} coordinate={cluster.coordinate} onPress={() => openCluster(cluster)}>
+              {cluster.items.length > 1 ? (
+                <View style={[styles.cluster, { backgroundColor: colors.accent }]}>
+                  <Text style={[styles.clusterText, { color: colors.onAccent }]}>{cluster.items.length}</Text>
+                </View>
+              ) : (
+                <View style={styles.pin}>
+                  <Image source={{ uri: getCoverThumbnail(cluster.items[0]) }} style={styles.pinImage} />
+                </View>
+              )}
+            </Marker>
+          ))}
+        </MapView>
+
+        {unplaced.length > 0 && (
+          <TouchableOpacity
+            style={[styles.unplacedBanner, { backgroundColor: colors.elevated }]}
+            onPress={() => setShowUnplaced(true)}
+          >
+            <Ionicons name="location-outline" size={18} color="#ff8501" />
+            <Text style={[styles.unplacedBannerText, { color: colors.text }]}>
+              {unplaced.length} {unplaced.length === 1 ? 'entry has' : 'entries have'} no location
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color={colors.mutedText} />
+          </TouchableOpacity>
+        )}
+
+        {selectedEntry && (
+          <TouchableOpacity
+            style={[styles.preview, { backgroundColor: colors.elevated }]}
+            onPress={() => navigation.navigate('EntryDetail', { entryId: selectedEntry.id })}
+          >
+            <Image source={{ uri: getCoverThumbnail(selectedEntry) }} style={styles.previewImage} />
+            <View style={styles.previewText}>
+              <Text style={[styles.previewTitle, { color: colors.text }]} numberOfLines={1}>
+                {selectedEntry.title}
+              </Text>
+              <Text style={[styles.previewMeta, { color: colors.mutedText }]}>
+                {formatDate(selectedEntry.date)}
+              </Text>
+              <Text style={[styles.previewMeta, { color: colors.secondaryText }]} numberOfLines={2}>
+                {selectedEntry.address}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.mutedText} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Modal visible={showUnplaced} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowUnplaced(false)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <View style={styles.headerButton} />
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Without Location</Text>
+            <TouchableOpacity onPress={() => setShowUnplaced(false)} style={styles.headerButton}>
+              <Ionicons name="close" size={26} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+          <FlatList data={unplaced} renderItem={renderUnplacedEntry} keyExtractor={(item) => item.id} />
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  mapContainer: {
+    flex: 1,
+  },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    borderWidth: 2,
+    borderColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clusterText: {
+    fontWeight: 'bold',
+  },
+  pin: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: '#ff8501',
+    overflow: 'hidden',
+    backgroundColor: '#ffffff',
+  },
+  pinImage: {
+    width: '100%',
+    height: '100%',
+  },
+  unplacedBanner: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    shadowColor: '#000000',
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  unplacedBannerText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  preview: {
+    position: 'absolute',
+    bottom: 24,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    shadowColor: '#000000',
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  previewImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  previewText: {
+    flex: 1,
+    gap: 2,
+  },
+  previewTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  previewMeta: {
+    fontSize: 13,
+  },
+  unplacedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  unplacedImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+  },
+  addLocationButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  addLocationText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default MapScreen;
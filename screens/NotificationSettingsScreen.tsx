@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettings,
+  NotificationTime,
+  ReminderSchedule,
+  getNotificationSettings,
+  saveNotificationSettings,
+} from '../storage/notificationSettingsRepository.ts';
+import { rescheduleNotifications } from '../utils/scheduledNotifications.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import DateField from '../components/DateField.tsx';
+
+type NotificationSettingsScreenProps = NativeStackScreenProps<RootStackParamList, 'NotificationSettings'>;
+
+const SCHEDULE_OPTIONS: { value: ReminderSchedule; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'trips', label: 'During trips' },
+];
+
+// DateField works with full dates; only the time of day is kept
+const toDate = (time: NotificationTime) => {
+  const date = new Date();
+  date.setHours(time.hour, time.minute, 0, 0);
+  return date;
+};
+
+const toTime = (date: Date): NotificationTime => ({ hour: date.getHours(), minute: date.getMinutes() });
+
+const NotificationSettingsScreen: React.FC<NotificationSettingsScreenProps> = ({ navigation }) => {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setSettings(await getNotificationSettings());
+    } catch (error) {
+      console.error('Error loading notification settings:', error);
+      Alert.alert('Error', 'Failed to load notification settings');
+    }
+  };
+
+  const updateSettings = async (changes: Partial<NotificationSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    try {
+      await saveNotificationSettings(updated);
+      await rescheduleNotifications();
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      Alert.alert('Error', 'Failed to save notification settings');
+    }
+  };
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card }];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Notifications</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={cardStyle}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>On This Day</Text>
+            <Switch
+              value={settings.onThisDay.enabled}
+              onValueChange={enabled => updateSettings({ onThisDay: { ...settings.onThisDay, enabled } })}
+              trackColor={{ true: colors.accent }}
+            />
+          </View>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            A memory from the same date in earlier years. Tapping it opens the entry.
+          </Text>
+          {settings.onThisDay.enabled && (
+            <DateField
+              label="Time"
+              mode="time"
+              value={toDate(settings.onThisDay)}
+              onChange={date => updateSettings({ onThisDay: { ...settings.onThisDay, ...toTime(date) } })}
+            />
+          )}
+        </View>
+
+        <View style={cardStyle}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Writing Reminder</Text>
+            <Switch
+              value={settings.reminder.enabled}
+              onValueChange={enabled => updateSettings({ reminder: { ...settings.reminder, enabled } })}
+              trackColor={{ true: colors.accent }}
+            />
+          </View>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            A nudge to write an entry. Days that already have one are skipped.
+          </Text>
+          {settings.reminder.enabled && (
+            <>
+              <View style={styles.options}>
+                {SCHEDULE_OPTIONS.map(option => {
+                  const active = settings.reminder.schedule === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.option, { backgroundColor: active ? colors.accent : colors.border }]}
+                      onPress={() => updateSettings({ reminder: { ...settings.reminder, schedule: option.value } })}
+                    >
+                      <Text style={[styles.optionText, { color: active ? colors.onAccent : colors.text }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <DateField
+                label="Time"
+                mode="time"
+                value={toDate(settings.reminder)}
+                onChange={date => updateSettings({ reminder: { ...settings.reminder, ...toTime(date) } })}
+              />
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
+
+export default NotificationSettingsScreen;
@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import {
+  AppLockSettings,
+  LOCK_TIMEOUTS,
+  PIN_MAX_LENGTH,
+  PIN_MIN_LENGTH,
+  changePin,
+  getAppLock,
+  getPinRetryAt,
+  isValidPin,
+  removePin,
+  saveLockTimeout,
+  setUpPin,
+} from '../storage/appLockRepository.ts';
+import { formatWait } from '../utils/dates.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type PrivacySettingsScreenProps = NativeStackScreenProps<RootStackParamList, 'PrivacySettings'>;
+
+// Which PIN form is open
+type PinForm = 'setup' | 'change' | 'remove';
+
+const PrivacySettingsScreen: React.FC<PrivacySettingsScreenProps> = ({ navigation }) => {
+  const [appLock, setAppLock] = useState<AppLockSettings | null>(null);
+  const [form, setForm] = useState<PinForm | null>(null);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    loadAppLock();
+  }, []);
+
+  const loadAppLock = async () => {
+    try {
+      setAppLock(await getAppLock());
+    } catch (error) {
+      console.error('Error loading app lock:', error);
+      Alert.alert('Error', 'Failed to load privacy settings');
+    }
+  };
+
+  const openForm = (next: PinForm | null) => {
+    setForm(next);
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmPin('');
+  };
+
+  // Checks the new PIN fields, alerting if they aren't usable
+  const checkNewPin = () => {
+    if (!isValidPin(newPin)) {
+      Alert.alert('Invalid PIN', `Your PIN must be ${PIN_MIN_LENGTH} to ${PIN_MAX_LENGTH} digits.`);
+      return false;
+    }
+    if (newPin !== confirmPin) {
+      Alert.alert('PINs Don\'t Match', 'Enter the same PIN twice.');
+      return false;
+    }
+    return true;
+  };
+
+  const submitForm = async () => {
+    if (form !== 'remove' && !checkNewPin()) return;
+    try {
+      setBusy(true);
+      let accepted = true;
+      if (form === 'setup') {
+        await setUpPin(newPin);
+      } else if (form === 'change') {
+        accepted = await changePin(currentPin, newPin);
+      } else if (form === 'remove') {
+        accepted = await removePin(currentPin);
+      }
+      if (!accepted) {
+        setCurrentPin('');
+        const retryAt = await getPinRetryAt();
+        if (retryAt) {
+          Alert.alert('Too Many Attempts', `Too many wrong PINs. Try again in ${formatWait(retryAt - Date.now())}.`);
+        } else {
+          Alert.alert('Wrong PIN', 'Your current PIN is not correct.');
+        }
+        return;
+      }
+      openForm(null);
+      await loadAppLock();
+    } catch (error) {
+      console.error('Error saving PIN:', error);
+      Alert.alert('Error', 'Failed to save your PIN');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTimeout = async (timeoutMs: number) => {
+    if (!appLock) return;
+    try {
+      await saveLockTimeout(timeoutMs);
+      setAppLock({ ...appLock, timeoutMs });
+    } catch (error) {
+      console.error('Error saving lock timeout:', error);
+      Alert.alert('Error', 'Failed to save lock timeout');
+    }
+  };
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card }];
+  const inputStyle = [styles.input, { color: colors.text, backgroundColor: colors.surface }];
+  const pinInputProps = {
+    placeholderTextColor: colors.mutedText,
+    keyboardType: 'number-pad' as const,
+    maxLength: PIN_MAX_LENGTH,
+    secureTextEntry: true,
+    editable: !busy,
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>App Lock & Privacy</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={cardStyle}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>PIN Lock</Text>
+            <Switch
+              value={appLock !== null}
+              onValueChange={enabled => openForm(enabled ? 'setup' : 'remove')}
+              disabled={busy || form !== null}
+              trackColor={{ true: colors.accent }}
+            />
+          </View>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            Asks for a PIN when the app opens and when you come back to it.
+          </Text>
+
+          {form === null && appLock && (
+            <TouchableOpacity onPress={() => openForm('change')}>
+              <Text style={[styles.linkText, { color: colors.accent }]}>Change PIN</Text>
+            </TouchableOpacity>
+          )}
+
+          {form !== null && (
+            <View style={styles.form}>
+              {form === 'remove' && (
+                <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+                  Private entries will become ordinary entries and will be included in backups and sync.
+                </Text>
+              )}
+              {form !== 'setup' && (
+                <TextInput
+                  style={inputStyle}
+                  placeholder="Current PIN"
+                  value={currentPin}
+                  onChangeText={text => setCurrentPin(text.replace(/\D/g, ''))}
+                  {...pinInputProps}
+                />
+              )}
+              {form !== 'remove' && (
+                <>
+                  <TextInput
+                    style={inputStyle}
+                    placeholder={`New PIN (${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits)`}
+                    value={newPin}
+                    onChangeText={text => setNewPin(text.replace(/\D/g, ''))}
+                    {...pinInputProps}
+                  />
+                  <TextInput
+                    style={inputStyle}
+                    placeholder="Confirm new PIN"
+                    value={confirmPin}
+                    onChangeText={text => setConfirmPin(text.replace(/\D/g, ''))}
+                    {...pinInputProps}
+                  />
+                </>
+              )}
+              <View style={styles.formButtons}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: colors.border }]}
+                  onPress={() => openForm(null)}
+                  disabled={busy}
+                >
+                  <Text style={[styles.buttonText, { color: colors.text }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: form === 'remove' ? colors.danger : colors.accent }]}
+                  onPress={submitForm}
+                  disabled={busy}
+                >
+                  {busy ? (
+                    <ActivityIndicator color={colors.onAccent} />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: colors.onAccent }]}>
+                      {form === 'setup' ? 'Turn On' : form === 'change' ? 'Change PIN' : 'Turn Off'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+
+        {appLock && (
+          <View style={cardStyle}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Lock After</Text>
+            <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+              How long the app can be in the background before it asks for the PIN again.
+            </Text>
+            <View style={styles.options}>
+              {LOCK_TIMEOUTS.map(option => {
+                const active = appLock.timeoutMs === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.option, { backgroundColor: active ? colors.accent : colors.border }]}
+                    onPress={() => handleTimeout(option.value)}
+                  >
+                    <Text style={[styles.optionText, { color: active ? colors.onAccent : colors.text }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Private Entries</Text>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            {appLock
+              ? 'Mark an entry as private when adding or editing it. Its title, description and place are encrypted with your PIN and only shown once the app is unlocked.'
+              : 'Turn on the PIN lock to mark entries as private. Their title, description and place are then encrypted with your PIN.'}
+          </Text>
+          <Text style={[styles.cardText, { color: colors.mutedText }]}>
+            Private entries stay on this device. They are left out of backups, sync and memory
+            notifications.
+          </Text>
+          <Text style={[styles.cardText, { color: colors.mutedText }]}>
+            If you forget your PIN, private entries can't be recovered.
+          </Text>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  form: {
+    gap: 12,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
+
+export default PrivacySettingsScreen;
@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { getDiaryTitle } from '../storage/profileRepository.ts';
+import { KnownPlace, clearHomePlace, getHomePlace, saveHomePlace } from '../storage/placeRepository.ts';
+import { getThumbnailUri, importPhoto } from '../storage/photoStore.ts';
+import { DATE_FORMATS, DateFormat, formatDate } from '../utils/dates.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import LocationPickerModal, { PickedLocation } from '../components/LocationPickerModal.tsx';
+
+type ProfileScreenProps = NativeStackScreenProps<RootStackParamList, 'Profile'>;
+
+type SettingsLink = {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  route:
+    | 'Appearance'
+    | 'NotificationSettings'
+    | 'PrivacySettings'
+    | 'Stats'
+    | 'Tags'
+    | 'Drafts'
+    | 'Backup'
+    | 'SyncSettings'
+    | 'Trash';
+};
+
+const SETTINGS_SECTIONS: { title: string; links: SettingsLink[] }[] = [
+  {
+    title: 'Settings',
+    links: [
+      { icon: 'color-palette-outline', label: 'Appearance', route: 'Appearance' },
+      { icon: 'notifications-outline', label: 'Notifications', route: 'NotificationSettings' },
+      { icon: 'lock-closed-outline', label: 'App Lock & Privacy', route: 'PrivacySettings' },
+    ],
+  },
+  {
+    title: 'Your Diary',
+    links: [
+      { icon: 'stats-chart-outline', label: 'Travel Stats', route: 'Stats' },
+      { icon: 'pricetags-outline', label: 'Tags', route: 'Tags' },
+      { icon: 'documents-outline', label: 'Drafts', route: 'Drafts' },
+    ],
+  },
+  {
+    title: 'Data',
+    links: [
+      { icon: 'archive-outline', label: 'Backup & Restore', route: 'Backup' },
+      { icon: 'cloud-outline', label: 'Sync', route: 'SyncSettings' },
+      { icon: 'trash-outline', label: 'Trash', route: 'Trash' },
+    ],
+  },
+];
+
+// Each choice is labelled with today's date written that way
+const dateFormatLabel = (format: DateFormat) => (format === 'system' ? 'Phone setting' : formatDate(new Date(), format));
+
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
+  const { profile, updateProfile } = useProfile();
+  const [displayName, setDisplayName] = useState(profile.displayName);
+  const [home, setHome] = useState<KnownPlace | null>(null);
+  const [homePickerVisible, setHomePickerVisible] = useState(false);
+  const { colors } = useTheme();
+
+  // Home can also be changed from the Stats screen
+  useEffect(() => {
+    loadHome();
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadHome();
+    });
+    return unsubscribe;
+  }, [navigation]);
+
+  useEffect(() => {
+    setDisplayName(profile.displayName);
+  }, [profile.displayName]);
+
+  const loadHome = async () => {
+    try {
+      setHome(await getHomePlace());
+    } catch (error) {
+      console.error('Error loading home:', error);
+    }
+  };
+
+  const saveChanges = async (changes: Parameters<typeof updateProfile>[0]) => {
+    try {
+      await updateProfile(changes);
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', 'Failed to save profile');
+    }
+  };
+
+  const saveName = () => {
+    if (displayName.trim() !== profile.displayName) {
+      saveChanges({ displayName: displayName.trim() });
+    }
+  };
+
+  const pickAvatar = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 1,
+      });
+      if (!result.canceled) {
+        await saveChanges({ avatarUri: await importPhoto(result.assets[0].uri) });
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to pick image from gallery');
+      console.error('Error picking avatar:', error);
+    }
+  };
+
+  const changeAvatar = () => {
+    if (!profile.avatarUri) {
+      pickAvatar();
+      return;
+    }
+    Alert.alert('Profile Photo', undefined, [
+      { text: 'Choose New Photo', onPress: pickAvatar },
+      { text: 'Remove Photo', style: 'destructive', onPress: () => saveChanges({ avatarUri: null }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleHomePicked = async (picked: PickedLocation | null) => {
+    setHomePickerVisible(false);
+    try {
+      if (!picked) {
+        await clearHomePlace();
+        setHome(null);
+      } else if (!picked.coords) {
+        Alert.alert('Home Not Found', 'Pick your home on the map so distances can be measured from it.');
+      } else {
+        setHome(await saveHomePlace(picked.place, picked.coords));
+      }
+    } catch (error) {
+      console.error('Error saving home:', error);
+      Alert.alert('Error', 'Failed to save home');
+    }
+  };
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card }];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Profile</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.identity}>
+          <TouchableOpacity onPress={changeAvatar}>
+            {profile.avatarUri ? (
+              <Image source={{ uri: getThumbnailUri(profile.avatarUri) }} style={styles.avatar} />
+            ) : (
+              <View style={[styles.avatar, styles.avatarPlaceholder, { backgroundColor: colors.surface }]}>
+                <Ionicons name="person" size={44} color={colors.mutedText} />
+              </View>
+            )}
+            <View style={[styles.avatarBadge, { backgroundColor: colors.accent, borderColor: colors.background }]}>
+              <Ionicons name="camera" size={14} color={colors.onAccent} />
+            </View>
+          </TouchableOpacity>
+          <Text style={[styles.diaryTitle, { color: colors.text }]}>{getDiaryTitle(profile)}</Text>
+        </View>
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Name</Text>
+          <TextInput
+            style={[styles.input, { color: colors.text, backgroundColor: colors.surface }]}
+            placeholder="Your name"
+            placeholderTextColor={colors.mutedText}
+            value={displayName}
+            onChangeText={setDisplayName}
+            onEndEditing={saveName}
+            returnKeyType="done"
+          />
+        </View>
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Home</Text>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            Used to work out how far from home you've travelled.
+          </Text>
+          <TouchableOpacity style={styles.homeRow} onPress={() => setHomePickerVisible(true)}>
+            <Ionicons name="home-outline" size={18} color={colors.mutedText} />
+            <Text style={[styles.homeText, { color: colors.text }]} numberOfLines={1}>
+              {home ? home.label || 'Pinned on map' : 'No home set'}
+            </Text>
+            <Text style={[styles.homeLink, { color: colors.accent }]}>{home ? 'Change' : 'Set'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={cardStyle}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Date Format</Text>
+          <View style={styles.options}>
+            {DATE_FORMATS.map(format => {
+              const active = profile.dateFormat === format;
+              return (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.option, { backgroundColor: active ? colors.accent : colors.border }]}
+                  onPress={() => saveChanges({ dateFormat: format })}
+                >
+                  <Text style={[styles.optionText, { color: active ? colors.onAccent : colors.text }]}>
+                    {dateFormatLabel(format)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {SETTINGS_SECTIONS.map(section => (
+          <View key={section.title} style={cardStyle}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>{section.title}</Text>
+            {section.links.map(link => (
+              <TouchableOpacity key={link.route} style={styles.linkRow} onPress={() => navigation.navigate(link.route)}>
+                <Ionicons name={link.icon} size={22} color={colors.text} />
+                <Text style={[styles.linkText, { color: colors.text }]}>{link.label}</Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.mutedText} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+
+      <LocationPickerModal
+        visible={homePickerVisible}
+        initialCoords={home?.coords ?? null}
+        initialPlace={home?.place}
+        onClose={() => setHomePickerVisible(false)}
+        onPicked={handleHomePicked}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  identity: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+  },
+  avatarPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  diaryTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  homeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  homeText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  homeLink: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 16,
+  },
+});
+
+export default ProfileScreen;
@@ -0,0 +1,423 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ScrollView,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { withAlpha } from '../utils/colors.ts';
+import { TravelEntry, getEntries, getCoverThumbnail, getTrashedEntries } from '../storage/entryRepository.ts';
+import {
+  ActionStates,
+  getActionStates,
+  pruneActionStates,
+} from '../storage/actionStateRepository.ts';
+import {
+  Collection,
+  addCollection,
+  deleteCollection,
+  getCollections,
+  moveCollection,
+  moveEntryInCollection,
+  pruneCollections,
+  renameCollection,
+} from '../storage/collectionRepository.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import ActionSheet from '../components/ActionSheet.tsx';
+import TextPromptModal from '../components/TextPromptModal.tsx';
+import CollectionPickerModal from '../components/CollectionPickerModal.tsx';
+
+type SavedScreenProps = NativeStackScreenProps<RootStackParamList, 'Saved'>;
+
+type Tab = 'saved' | 'liked';
+
+// null selects "All saved" rather than a single collection
+type CollectionFilter = string | null;
+
+const SavedScreen: React.FC<SavedScreenProps> = ({ navigation }) => {
+  const [tab, setTab] = useState<Tab>('saved');
+  const [entries, setEntries] = useState<TravelEntry[]>([]);
+  const [actionStates, setActionStates] = useState<ActionStates>({ liked: {}, shared: {}, saved: {} });
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedCollection, setSelectedCollection] = useState<CollectionFilter>(null);
+  const [showCollectionActions, setShowCollectionActions] = useState(false);
+  const [prompt, setPrompt] = useState<'new' | 'rename' | null>(null);
+  const [filingEntryId, setFilingEntryId] = useState<string | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const { colors } = useTheme();
+  const { formatDate } = useProfile();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadData();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadData = async () => {
+    try {
+      const [loadedEntries, trash] = await Promise.all([getEntries(), getTrashedEntries()]);
+      // Trashed entries keep theirs in case they are restored
+      const existingIds = new Set([...loadedEntries, ...trash.map(trashed => trashed.entry)].map(entry => entry.id));
+      // Clear out flags and collection slots left behind by deleted entries
+      await pruneActionStates(id => existingIds.has(id));
+      await pruneCollections(id => existingIds.has(id));
+
+      const [loadedStates, loadedCollections] = await Promise.all([getActionStates(), getCollections()]);
+      setEntries(loadedEntries);
+      setActionStates(loadedStates);
+      setCollections(loadedCollections);
+    } catch (error) {
+      console.error('Error loading saved entries:', error);
+      Alert.alert('Error', 'Failed to load saved entries');
+    }
+  };
+
+  const currentCollection = collections.find(collection => collection.id === selectedCollection);
+
+  const getVisibleEntries = (): TravelEntry[] => {
+    if (tab === 'liked') {
+      return entries.filter(entry => actionStates.liked[entry.id]);
+    }
+    if (currentCollection) {
+      // Keep the collection's own order
+      return currentCollection.entryIds
+        .map(id => entries.find(entry => entry.id === id))
+        .filter((entry): entry is TravelEntry => entry !== undefined);
+    }
+    return entries.filter(entry => actionStates.saved[entry.id]);
+  };
+
+  const handlePrompt = async (name: string) => {
+    try {
+      if (prompt === 'new') {
+        const collection = await addCollection(name);
+        setSelectedCollection(collection.id);
+      } else if (prompt === 'rename' && currentCollection) {
+        await renameCollection(currentCollection.id, name);
+      }
+      setPrompt(null);
+      setCollections(await getCollections());
+    } catch (error) {
+      console.error('Error saving collection:', error);
+      Alert.alert('Error', 'Failed to save collection');
+    }
+  };
+
+  const shiftCollection = async (offset: number) => {
+    if (!currentCollection) return;
+    try {
+      setCollections(await moveCollection(currentCollection.id, offset));
+    } catch (error) {
+      console.error('Error moving collection:', error);
+    }
+  };
+
+  const shiftEntry = async (entryId: string, offset: number) => {
+    if (!currentCollection) return;
+    try {
+      await moveEntryInCollection(currentCollection.id, entryId, offset);
+      setCollections(await getCollections());
+    } catch (error) {
+      console.error('Error reordering collection:', error);
+    }
+  };
+
+  const removeCollection = () => {
+    if (!currentCollection) return;
+    Alert.alert(
+      'Delete Collection',
+      `Delete "${currentCollection.name}"? The entries stay saved.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCollection(currentCollection.id);
+              setSelectedCollection(null);
+              setCollections(await getCollections());
+            } catch (error) {
+              console.error('Error deleting collection:', error);
+              Alert.alert('Error', 'Failed to delete collection');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const visibleEntries = getVisibleEntries();
+  const collectionIndex = currentCollection ? collections.indexOf(currentCollection) : -1;
+
+  const renderChip = (label: string, active: boolean, onPress: () => void, icon?: keyof typeof Ionicons.glyphMap) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, { backgroundColor: active ? colors.accent : colors.surface }]}
+      onPress={onPress}
+    >
+      {icon && <Ionicons name={icon} size={14} color={active ? colors.onAccent : colors.text} />}
+      <Text style={[styles.chipText, { color: active ? colors.onAccent : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEntry = ({ item, index }: { item: TravelEntry; index: number }) => (
+    <TouchableOpacity
+      style={[styles.row, { borderBottomColor: colors.divider }]}
+      onPress={() => navigation.navigate('EntryDetail', { entryId: item.id })}
+    >
+      <Image source={{ uri: getCoverThumbnail(item) }} style={styles.rowImage} />
+      <View style={styles.rowText}>
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>{item.title}</Text>
+        <Text style={[styles.rowMeta, { color: colors.mutedText }]} numberOfLines={1}>
+          {formatDate(item.date)}
+          {item.address ? ` · ${item.address}` : ''}
+        </Text>
+      </View>
+      {reordering && currentCollection ? (
+        <View style={styles.reorderButtons}>
+          <TouchableOpacity onPress={() => shiftEntry(item.id, -1)} disabled={index === 0}>
+            <Ionicons name="chevron-up" size={22} color={index === 0 ? colors.mutedText : colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => shiftEntry(item.id, 1)} disabled={index === visibleEntries.length - 1}>
+            <Ionicons
+              name="chevron-down"
+              size={22}
+              color={index === visibleEntries.length - 1 ? colors.mutedText : colors.text}
+            />
+          </TouchableOpacity>
+        </View>
+      ) : tab === 'saved' ? (
+        <TouchableOpacity onPress={() => setFilingEntryId(item.id)} style={styles.rowAction}>
+          <Ionicons name="albums-outline" size={22} color={colors.accent} />
+        </TouchableOpacity>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.tabs}>
+          {(['saved', 'liked'] as Tab[]).map(value => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.tab, tab === value && { borderBottomColor: colors.accent }]}
+              onPress={() => {
+                setTab(value);
+                setReordering(false);
+              }}
+            >
+              <Text style={[styles.tabText, { color: tab === value ? colors.accent : colors.mutedText }]}>
+                {value === 'saved' ? 'Saved' : 'Liked'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {tab === 'saved' && currentCollection ? (
+          <TouchableOpacity onPress={() => setShowCollectionActions(true)} style={styles.headerButton}>
+            <Ionicons name="ellipsis-horizontal" size={24} color={colors.text} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
+      </View>
+
+      {tab === 'saved' && (
+        <View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            {renderChip('All saved', selectedCollection === null, () => {
+              setSelectedCollection(null);
+              setReordering(false);
+            }, 'bookmark')}
+            {collections.map(collection =>
+              renderChip(
+                `${collection.name} (${collection.entryIds.length})`,
+                collection.id === selectedCollection,
+                () => {
+                  setSelectedCollection(collection.id);
+                  setReordering(false);
+                }
+              )
+            )}
+            {renderChip('New', false, () => setPrompt('new'), 'add')}
+          </ScrollView>
+        </View>
+      )}
+
+      {reordering && (
+        <TouchableOpacity style={[styles.reorderBar, { backgroundColor: withAlpha(colors.accent, 0.1) }]} onPress={() => setReordering(false)}>
+          <Text style={[styles.reorderBarText, { color: colors.accent }]}>Done reordering</Text>
+        </TouchableOpacity>
+      )}
+
+      <FlatList
+        data={visibleEntries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons
+              name={tab === 'liked' ? 'heart-outline' : 'bookmark-outline'}
+              size={48}
+              color={colors.secondaryText}
+            />
+            <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+              {tab === 'liked'
+                ? 'Entries you like will appear here'
+                : currentCollection
+                  ? 'Add saved entries to this collection with the albums button'
+                  : 'Tap the bookmark on an entry to save it here'}
+            </Text>
+          </View>
+        }
+      />
+
+      <ActionSheet
+        visible={showCollectionActions}
+        title={currentCollection?.name}
+        options={[
+          { label: 'Rename', icon: 'create-outline', onPress: () => setPrompt('rename') },
+          { label: 'Reorder entries', icon: 'swap-vertical', onPress: () => setReordering(true) },
+          ...(collectionIndex > 0
+            ? [{ label: 'Move left', icon: 'arrow-back' as const, onPress: () => shiftCollection(-1) }]
+            : []),
+          ...(collectionIndex < collections.length - 1
+            ? [{ label: 'Move right', icon: 'arrow-forward' as const, onPress: () => shiftCollection(1) }]
+            : []),
+          { label: 'Delete Collection', icon: 'trash-outline', destructive: true, onPress: removeCollection },
+        ]}
+        onClose={() => setShowCollectionActions(false)}
+      />
+
+      <TextPromptModal
+        visible={prompt !== null}
+        title={prompt === 'rename' ? 'Rename Collection' : 'New Collection'}
+        placeholder="e.g. Best food"
+        initialValue={prompt === 'rename' ? currentCollection?.name : ''}
+        submitLabel={prompt === 'rename' ? 'Save' : 'Create'}
+        onSubmit={handlePrompt}
+        onClose={() => setPrompt(null)}
+      />
+
+      <CollectionPickerModal
+        entryId={filingEntryId}
+        onClose={() => setFilingEntryId(null)}
+        onSaved={() => {
+          setFilingEntryId(null);
+          loadData();
+        }}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  tab: {
+    paddingVertical: 8,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  chips: {
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  reorderBar: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  reorderBarText: {
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  rowImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowAction: {
+    padding: 4,
+  },
+  reorderButtons: {
+    gap: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default SavedScreen;
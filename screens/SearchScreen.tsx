@@ -0,0 +1,391 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  ScrollView,
+  Image,
+  Modal,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { withAlpha } from '../utils/colors.ts';
+import { TravelEntry, getEntries, getCoverThumbnail } from '../storage/entryRepository.ts';
+import { ActionStates, getActionStates } from '../storage/actionStateRepository.ts';
+import { getSavedFilters, saveFilters } from '../storage/searchRepository.ts';
+import { backfillMissingPlaces } from '../storage/placeRepository.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import {
+  EMPTY_FILTERS,
+  EntryFilters,
+  LocationFilter,
+  filterEntries,
+  getPlaceOptions,
+  hasActiveFilters,
+  highlightSegments,
+} from '../utils/search.ts';
+import { startOfDay, endOfDay } from '../utils/dates.ts';
+import ActionSheet, { ActionSheetOption } from '../components/ActionSheet.tsx';
+import DateField from '../components/DateField.tsx';
+
+type SearchScreenProps = NativeStackScreenProps<RootStackParamList, 'Search'>;
+
+const LOCATION_LABELS: { [filter in LocationFilter]: string } = {
+  any: 'Location',
+  with: 'With location',
+  without: 'No location',
+};
+
+const NEXT_LOCATION_FILTER: { [filter in LocationFilter]: LocationFilter } = {
+  any: 'with',
+  with: 'without',
+  without: 'any',
+};
+
+const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
+  const [entries, setEntries] = useState<TravelEntry[]>([]);
+  const [actionStates, setActionStates] = useState<ActionStates>({ liked: {}, shared: {}, saved: {} });
+  const [filters, setFilters] = useState<EntryFilters>(EMPTY_FILTERS);
+  const [picker, setPicker] = useState<'country' | 'city' | null>(null);
+  const [showDates, setShowDates] = useState(false);
+  const { colors } = useTheme();
+  const { formatDate } = useProfile();
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [loadedEntries, loadedStates, savedFilters] = await Promise.all([
+        getEntries(),
+        getActionStates(),
+        getSavedFilters(),
+      ]);
+      setEntries(loadedEntries);
+      setActionStates(loadedStates);
+      setFilters(savedFilters);
+
+      // Older entries only have the joined address; fill in city and country
+      const updated = await backfillMissingPlaces(loadedEntries);
+      if (updated.length > 0) {
+        setEntries(current => current.map(entry => updated.find(u => u.id === entry.id) ?? entry));
+      }
+    } catch (error) {
+      console.error('Error loading search data:', error);
+      Alert.alert('Error', 'Failed to load entries');
+    }
+  };
+
+  const updateFilters = (changes: Partial<EntryFilters>) => {
+    const next = { ...filters, ...changes };
+    // A city only makes sense within the chosen country
+    if (changes.country !== undefined && changes.country !== filters.country) {
+      next.city = null;
+    }
+    setFilters(next);
+    saveFilters(next).catch(error => console.error('Error saving search filters:', error));
+  };
+
+  const results = useMemo(
+    () => filterEntries(entries, filters, actionStates),
+    [entries, filters, actionStates]
+  );
+  const placeOptions = useMemo(() => getPlaceOptions(entries, filters.country), [entries, filters.country]);
+
+  const renderHighlighted = (text: string) =>
+    highlightSegments(text, filters.query).map((segment, index) => (
+      <Text key={index} style={segment.highlighted ? [styles.highlight, { backgroundColor: withAlpha(colors.accent, 0.25) }] : undefined}>
+        {segment.text}
+      </Text>
+    ));
+
+  const renderChip = (label: string, active: boolean, onPress: () => void, icon?: keyof typeof Ionicons.glyphMap) => (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        { backgroundColor: active ? colors.accent : colors.surface },
+      ]}
+      onPress={onPress}
+    >
+      {icon && <Ionicons name={icon} size={14} color={active ? colors.onAccent : colors.text} />}
+      <Text style={[styles.chipText, { color: active ? colors.onAccent : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const dateLabel = () => {
+    if (!filters.fromDate && !filters.toDate) return 'Dates';
+    const from = filters.fromDate ? formatDate(filters.fromDate) : '…';
+    const to = filters.toDate ? formatDate(filters.toDate) : '…';
+    return `${from} – ${to}`;
+  };
+
+  const pickerOptions = (): ActionSheetOption[] => {
+    const values = picker === 'country' ? placeOptions.countries : placeOptions.cities;
+    const current = picker === 'country' ? filters.country : filters.city;
+    return [
+      ...values.map(value => ({
+        label: value,
+        icon: value === current ? 'checkmark-circle' as const : undefined,
+        onPress: () => updateFilters(picker === 'country' ? { country: value } : { city: value }),
+      })),
+      {
+        label: picker === 'country' ? 'Any country' : 'Any city',
+        icon: 'globe-outline',
+        onPress: () => updateFilters(picker === 'country' ? { country: null } : { city: null }),
+      },
+    ];
+  };
+
+  const renderResult = ({ item }: { item: TravelEntry }) => (
+    <TouchableOpacity
+      style={[styles.result, { borderBottomColor: colors.divider }]}
+      onPress={() => navigation.navigate('EntryDetail', { entryId: item.id })}
+    >
+      <Image source={{ uri: getCoverThumbnail(item) }} style={styles.resultImage} />
+      <View style={styles.resultText}>
+        <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+          {renderHighlighted(item.title)}
+        </Text>
+        <Text style={[styles.resultDescription, { color: colors.secondaryText }]} numberOfLines={2}>
+          {renderHighlighted(item.description)}
+        </Text>
+        <Text style={[styles.resultMeta, { color: colors.mutedText }]} numberOfLines={1}>
+          {formatDate(item.date)}
+          {item.address ? ' · ' : ''}
+          {renderHighlighted(item.address)}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <View style={[styles.searchBar, { backgroundColor: colors.surface }]}>
+          <Ionicons name="search" size={18} color={colors.mutedText} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            placeholder="Search titles, captions, places"
+            placeholderTextColor={colors.mutedText}
+            value={filters.query}
+            onChangeText={(query) => updateFilters({ query })}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {filters.query ? (
+            <TouchableOpacity onPress={() => updateFilters({ query: '' })}>
+              <Ionicons name="close-circle" size={18} color={colors.mutedText} />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+        <TouchableOpacity onPress={() => navigation.navigate('Tags')} style={styles.headerButton}>
+          <Ionicons name="pricetags-outline" size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {renderChip(dateLabel(), !!(filters.fromDate || filters.toDate), () => setShowDates(true), 'calendar-outline')}
+          {renderChip(filters.country ?? 'Country', !!filters.country, () => setPicker('country'), 'flag-outline')}
+          {renderChip(filters.city ?? 'City', !!filters.city, () => setPicker('city'), 'business-outline')}
+          {renderChip('Liked', filters.likedOnly, () => updateFilters({ likedOnly: !filters.likedOnly }), 'heart-outline')}
+          {renderChip('Saved', filters.savedOnly, () => updateFilters({ savedOnly: !filters.savedOnly }), 'bookmark-outline')}
+          {renderChip(
+            LOCATION_LABELS[filters.location],
+            filters.location !== 'any',
+            () => updateFilters({ location: NEXT_LOCATION_FILTER[filters.location] }),
+            'location-outline'
+          )}
+          {(hasActiveFilters(filters) || filters.query) &&
+            renderChip('Clear', false, () => updateFilters(EMPTY_FILTERS), 'close')}
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={results}
+        renderItem={renderResult}
+        keyExtractor={(item) => item.id}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <Text style={[styles.resultCount, { color: colors.mutedText }]}>
+            {results.length} of {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="search-outline" size={48} color={colors.secondaryText} />
+            <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+              No entries match your search
+            </Text>
+          </View>
+        }
+      />
+
+      <ActionSheet
+        visible={picker !== null}
+        title={picker === 'country' ? 'Country' : 'City'}
+        options={picker ? pickerOptions() : []}
+        onClose={() => setPicker(null)}
+      />
+
+      <Modal visible={showDates} transparent animationType="fade" onRequestClose={() => setShowDates(false)}>
+        <View style={styles.modalBackdrop}>
+          <View style={[styles.dateSheet, { backgroundColor: colors.elevated }]}>
+            <Text style={[styles.dateSheetTitle, { color: colors.text }]}>Date range</Text>
+            <DateField
+              label="From"
+              value={filters.fromDate ? new Date(filters.fromDate) : null}
+              placeholder="Any"
+              onChange={(date) => updateFilters({ fromDate: startOfDay(date).toISOString() })}
+            />
+            <DateField
+              label="To"
+              value={filters.toDate ? new Date(filters.toDate) : null}
+              placeholder="Any"
+              minimumDate={filters.fromDate ? new Date(filters.fromDate) : undefined}
+              onChange={(date) => updateFilters({ toDate: endOfDay(date).toISOString() })}
+            />
+            <View style={styles.dateSheetActions}>
+              <TouchableOpacity onPress={() => updateFilters({ fromDate: null, toDate: null })}>
+                <Text style={[styles.dateSheetAction, { color: colors.mutedText }]}>Clear</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setShowDates(false)}>
+                <Text style={[styles.dateSheetAction, styles.doneText, { color: colors.accent }]}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 8,
+  },
+  chips: {
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  resultCount: {
+    fontSize: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
+  result: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  resultImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+  resultText: {
+    flex: 1,
+    gap: 2,
+  },
+  resultTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  resultDescription: {
+    fontSize: 14,
+  },
+  resultMeta: {
+    fontSize: 12,
+  },
+  highlight: {
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  dateSheet: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  dateSheetTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  dateSheetActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  dateSheetAction: {
+    fontSize: 16,
+    padding: 4,
+  },
+  doneText: {
+    fontWeight: '600',
+  },
+});
+
+export default SearchScreen;
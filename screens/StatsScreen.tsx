@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import { TravelEntry, getEntries } from '../storage/entryRepository.ts';
+import { KnownPlace, clearHomePlace, getHomePlace, saveHomePlace } from '../storage/placeRepository.ts';
+import { StatGroup, TravelStats, computeTravelStats, formatDistance } from '../utils/stats.ts';
+import { fromDayKey } from '../utils/dates.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import LocationPickerModal, { PickedLocation } from '../components/LocationPickerModal.tsx';
+
+type StatsScreenProps = NativeStackScreenProps<RootStackParamList, 'Stats'>;
+
+type StatTile = {
+  key: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  value: string;
+  label: string;
+  detail?: string;
+  onPress: () => void;
+};
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ navigation }) => {
+  const [entries, setEntries] = useState<TravelEntry[]>([]);
+  const [home, setHome] = useState<KnownPlace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [homePickerVisible, setHomePickerVisible] = useState(false);
+  const { colors } = useTheme();
+  const { formatDate } = useProfile();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadStats();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadStats = async () => {
+    try {
+      const [loadedEntries, loadedHome] = await Promise.all([getEntries(), getHomePlace()]);
+      setEntries(loadedEntries);
+      setHome(loadedHome);
+    } catch (error) {
+      console.error('Error loading stats:', error);
+      Alert.alert('Error', 'Failed to load stats');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleHomePicked = async (picked: PickedLocation | null) => {
+    setHomePickerVisible(false);
+    try {
+      if (!picked) {
+        await clearHomePlace();
+        setHome(null);
+      } else if (!picked.coords) {
+        Alert.alert('Home Not Found', 'Pick your home on the map so distances can be measured from it.');
+      } else {
+        setHome(await saveHomePlace(picked.place, picked.coords));
+      }
+    } catch (error) {
+      console.error('Error saving home:', error);
+      Alert.alert('Error', 'Failed to save home');
+    }
+  };
+
+  const openEntries = (title: string, statEntries: TravelEntry[]) => {
+    if (statEntries.length === 0) return;
+    navigation.push('EntryList', { title, entryIds: statEntries.map(entry => entry.id) });
+  };
+
+  const stats: TravelStats = computeTravelStats(entries, home?.coords ?? null);
+  const { farthest, longestStreak } = stats;
+
+  const tiles: StatTile[] = [
+    {
+      key: 'entries',
+      icon: 'images-outline',
+      value: String(stats.entryCount),
+      label: stats.entryCount === 1 ? 'Entry' : 'Entries',
+      onPress: () => openEntries('All entries', entries),
+    },
+    {
+      key: 'countries',
+      icon: 'flag-outline',
+      value: String(stats.countries.length),
+      label: stats.countries.length === 1 ? 'Country' : 'Countries',
+      onPress: () => openEntries('Countries', stats.countries.flatMap(group => group.entries)),
+    },
+    {
+      key: 'cities',
+      icon: 'business-outline',
+      value: String(stats.cities.length),
+      label: stats.cities.length === 1 ? 'City' : 'Cities',
+      onPress: () => openEntries('Cities', stats.cities.flatMap(group => group.entries)),
+    },
+    {
+      key: 'distance',
+      icon: 'navigate-outline',
+      value: formatDistance(stats.totalDistanceKm),
+      label: 'Travelled',
+      detail: `Between ${stats.geotaggedEntries.length} geotagged ${stats.geotaggedEntries.length === 1 ? 'entry' : 'entries'}`,
+      onPress: () => openEntries('Geotagged entries', stats.geotaggedEntries),
+    },
+    {
+      key: 'farthest',
+      icon: 'home-outline',
+      value: farthest ? formatDistance(farthest.distanceKm) : home ? '–' : 'Set home',
+      label: 'Farthest from home',
+      detail: farthest ? farthest.entry.title : undefined,
+      onPress: () => (farthest ? openEntries('Farthest from home', [farthest.entry]) : setHomePickerVisible(true)),
+    },
+    {
+      key: 'streak',
+      icon: 'flame-outline',
+      value: longestStreak ? `${longestStreak.days} ${longestStreak.days === 1 ? 'day' : 'days'}` : '–',
+      label: 'Longest streak',
+      detail: longestStreak && longestStreak.days > 1
+        ? `${formatDate(fromDayKey(longestStreak.start))} – ${formatDate(fromDayKey(longestStreak.end))}`
+        : undefined,
+      onPress: () => longestStreak && openEntries(`${longestStreak.days}-day streak`, longestStreak.entries),
+    },
+  ];
+
+  const renderTile = (tile: StatTile) => (
+    <TouchableOpacity
+      key={tile.key}
+      style={[styles.tile, { backgroundColor: colors.card }]}
+      onPress={tile.onPress}
+    >
+      <Ionicons name={tile.icon} size={20} color={colors.accent} />
+      <Text style={[styles.tileValue, { color: colors.text }]} numberOfLines={1}>{tile.value}</Text>
+      <Text style={[styles.tileLabel, { color: colors.secondaryText }]}>{tile.label}</Text>
+      {tile.detail ? (
+        <Text style={[styles.tileDetail, { color: colors.mutedText }]} numberOfLines={1}>{tile.detail}</Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  // One row per group with a bar scaled against the largest group
+  const renderGroups = (title: string, groups: StatGroup[]) => {
+    if (groups.length === 0) return null;
+    const largest = Math.max(...groups.map(group => group.entries.length));
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{title}</Text>
+        {groups.map(group => (
+          <TouchableOpacity
+            key={group.key}
+            style={[styles.groupRow, { borderBottomColor: colors.divider }]}
+            onPress={() => openEntries(group.label, group.entries)}
+          >
+            <View style={styles.groupText}>
+              <Text style={[styles.groupLabel, { color: colors.text }]} numberOfLines={1}>{group.label}</Text>
+              <View style={[styles.barTrack, { backgroundColor: colors.surface }]}>
+                <View
+                  style={[
+                    styles.bar,
+                    { backgroundColor: colors.accent, width: `${(group.entries.length / largest) * 100}%` },
+                  ]}
+                />
+              </View>
+            </View>
+            <Text style={[styles.groupCount, { color: colors.mutedText }]}>{group.entries.length}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Stats</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={colors.accent} />
+        </View>
+      ) : entries.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="stats-chart-outline" size={48} color={colors.secondaryText} />
+          <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+            Your travel stats will appear once you add entries
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.tiles}>{tiles.map(renderTile)}</View>
+
+          <TouchableOpacity style={styles.homeRow} onPress={() => setHomePickerVisible(true)}>
+            <Ionicons name="home-outline" size={16} color={colors.mutedText} />
+            <Text style={[styles.homeText, { color: colors.mutedText }]} numberOfLines={1}>
+              {home ? `Home: ${home.label || 'Pinned on map'}` : 'No home set'}
+            </Text>
+            <Text style={[styles.homeLink, { color: colors.accent }]}>{home ? 'Change' : 'Set'}</Text>
+          </TouchableOpacity>
+
+          {renderGroups('Countries', stats.countries)}
+          {renderGroups('Cities', stats.cities)}
+          {renderGroups('By Year', stats.years)}
+          {renderGroups('By Month', stats.months)}
+        </ScrollView>
+      )}
+
+      <LocationPickerModal
+        visible={homePickerVisible}
+        initialCoords={home?.coords ?? null}
+        initialPlace={home?.place}
+        onClose={() => setHomePickerVisible(false)}
+        onPicked={handleHomePicked}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  tiles: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  tile: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    borderRadius: 12,
+    padding: 14,
+    gap: 4,
+  },
+  tileValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  tileLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  tileDetail: {
+    fontSize: 12,
+  },
+  homeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  homeText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  homeLink: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  section: {
+    gap: 4,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  groupText: {
+    flex: 1,
+    gap: 6,
+  },
+  groupLabel: {
+    fontSize: 15,
+  },
+  barTrack: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  bar: {
+    height: 4,
+    borderRadius: 2,
+  },
+  groupCount: {
+    fontSize: 15,
+    minWidth: 24,
+    textAlign: 'right',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default StatsScreen;
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { useProfile } from '../context/ProfileContext.tsx';
+import {
+  DEFAULT_SYNC_SETTINGS,
+  SyncSettings,
+  SyncState,
+  getSyncSettings,
+  getSyncState,
+} from '../storage/syncSettingsRepository.ts';
+import { SyncField, getSyncQueue } from '../storage/syncQueue.ts';
+import { SyncConflict, clearConflicts, getConflicts } from '../storage/conflictLogRepository.ts';
+import { syncNow, turnOffSync, turnOnSync } from '../utils/sync.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type SyncSettingsScreenProps = NativeStackScreenProps<RootStackParamList, 'SyncSettings'>;
+
+const FIELD_LABELS: { [field in SyncField]: string } = {
+  title: 'Title',
+  description: 'Description',
+  images: 'Photos',
+  coverIndex: 'Cover photo',
+  location: 'Location',
+  address: 'Address',
+  place: 'Place',
+  locationSource: 'Location source',
+  date: 'Date',
+  dateSource: 'Date source',
+  tripId: 'Trip',
+  tags: 'Tags',
+  deleted: 'In Trash',
+  withdrawn: 'Private',
+  liked: 'Liked',
+  shared: 'Shared',
+  saved: 'Saved',
+};
+
+// Conflicting values can be any field's value; show them as short text
+const describeValue = (field: SyncField, value: unknown, formatDateTime: (value: string) => string) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'images' && Array.isArray(value)) return `${value.length} photo(s)`;
+  if (field === 'date' && typeof value === 'string') return formatDateTime(value);
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const SyncSettingsScreen: React.FC<SyncSettingsScreenProps> = ({ navigation }) => {
+  const [settings, setSettings] = useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [busy, setBusy] = useState(false);
+  const { colors } = useTheme();
+  const { formatDateTime } = useProfile();
+
+  useEffect(() => {
+    loadSettings();
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadStatus();
+    });
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadSettings = async () => {
+    try {
+      const saved = await getSyncSettings();
+      setSettings(saved);
+      setServerUrl(saved.serverUrl);
+      setToken(saved.token);
+    } catch (error) {
+      console.error('Error loading sync settings:', error);
+      Alert.alert('Error', 'Failed to load sync settings');
+    }
+  };
+
+  const loadStatus = async () => {
+    try {
+      const [state, queue, log] = await Promise.all([getSyncState(), getSyncQueue(), getConflicts()]);
+      setSyncState(state);
+      setPendingCount(queue.length);
+      setConflicts(log);
+    } catch (error) {
+      console.error('Error loading sync status:', error);
+    }
+  };
+
+  const runSync = async (sync: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await sync();
+    } catch (error) {
+      console.error('Error syncing:', error);
+      Alert.alert('Sync Failed', error instanceof Error ? error.message : 'The server could not be reached');
+    } finally {
+      setBusy(false);
+      await loadSettings();
+      await loadStatus();
+    }
+  };
+
+  const switchOn = () => {
+    if (!/^https?:\/\/\S+$/.test(serverUrl.trim())) {
+      Alert.alert('Server Address Needed', 'Enter the server address, e.g. http://192.168.1.20:8787');
+      return;
+    }
+    runSync(() => turnOnSync(serverUrl, token));
+  };
+
+  const switchOff = () => {
+    const warning =
+      pendingCount > 0 ? `${pendingCount} change(s) have not been sent yet and will stay on this device only. ` : '';
+    Alert.alert('Turn Off Sync', `${warning}Your entries stay on this device and on the server.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Turn Off', style: 'destructive', onPress: () => runSync(turnOffSync) },
+    ]);
+  };
+
+  const confirmClearConflicts = () => {
+    Alert.alert('Clear Conflict Log', 'Remove every logged conflict? The entries are not changed.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await clearConflicts();
+            setConflicts([]);
+          } catch (error) {
+            console.error('Error clearing conflicts:', error);
+            Alert.alert('Error', 'Failed to clear the conflict log');
+          }
+        },
+      },
+    ]);
+  };
+
+  const cardStyle = [styles.card, { backgroundColor: colors.card }];
+  const inputStyle = [styles.input, { color: colors.text, backgroundColor: colors.surface }];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Sync</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={cardStyle}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Sync with a Server</Text>
+            <Switch
+              value={settings.enabled}
+              onValueChange={enabled => (enabled ? switchOn() : switchOff())}
+              disabled={busy}
+              trackColor={{ true: colors.accent }}
+            />
+          </View>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            Keeps entries, photos and likes the same on every device that uses the same server. Changes
+            made offline are sent once the server can be reached.
+          </Text>
+          <TextInput
+            style={inputStyle}
+            placeholder="Server address, e.g. http://192.168.1.20:8787"
+            placeholderTextColor={colors.mutedText}
+            value={serverUrl}
+            onChangeText={setServerUrl}
+            editable={!settings.enabled}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <TextInput
+            style={inputStyle}
+            placeholder="Token (optional)"
+            placeholderTextColor={colors.mutedText}
+            value={token}
+            onChangeText={setToken}
+            editable={!settings.enabled}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+          {settings.enabled && (
+            <Text style={[styles.cardText, { color: colors.mutedText }]}>
+              Turn sync off to change the server.
+            </Text>
+          )}
+        </View>
+
+        {settings.enabled && (
+          <View style={cardStyle}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Status</Text>
+            <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+              {syncState?.lastSyncedAt
+                ? `Last synced ${formatDateTime(syncState.lastSyncedAt)}`
+                : 'Not synced yet'}
+            </Text>
+            <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+              {pendingCount === 0 ? 'Every change has been sent' : `${pendingCount} change(s) waiting to be sent`}
+            </Text>
+            {syncState?.lastError && (
+              <Text style={[styles.cardText, { color: colors.danger }]}>Last attempt failed: {syncState.lastError}</Text>
+            )}
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accent }]}
+              onPress={() => runSync(syncNow)}
+              disabled={busy}
+            >
+              {busy ? (
+                <ActivityIndicator color={colors.onAccent} />
+              ) : (
+                <Text style={[styles.buttonText, { color: colors.onAccent }]}>Sync Now</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={cardStyle}>
+          <View style={styles.cardHeader}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Conflicts</Text>
+            {conflicts.length > 0 && (
+              <TouchableOpacity onPress={confirmClearConflicts}>
+                <Text style={[styles.clearText, { color: colors.accent }]}>Clear</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={[styles.cardText, { color: colors.secondaryText }]}>
+            When two devices change the same thing before syncing, the later change is kept. The other
+            value is listed here.
+          </Text>
+          {conflicts.length === 0 ? (
+            <Text style={[styles.cardText, { color: colors.mutedText }]}>No conflicts</Text>
+          ) : (
+            conflicts.map(conflict => (
+              <TouchableOpacity
+                key={conflict.id}
+                style={[styles.conflict, { borderTopColor: colors.divider }]}
+                onPress={() => navigation.navigate('EntryDetail', { entryId: conflict.entryId })}
+              >
+                <Text style={[styles.conflictTitle, { color: colors.text }]} numberOfLines={1}>
+                  {conflict.entryTitle} · {FIELD_LABELS[conflict.field] ?? conflict.field}
+                </Text>
+                <Text style={[styles.cardText, { color: colors.secondaryText }]} numberOfLines={2}>
+                  Kept ({conflict.winner === 'local' ? 'this device' : 'another device'}):{' '}
+                  {describeValue(conflict.field, conflict.keptValue, formatDateTime)}
+                </Text>
+                <Text style={[styles.cardText, { color: colors.mutedText }]} numberOfLines={2}>
+                  Replaced: {describeValue(conflict.field, conflict.discardedValue, formatDateTime)}
+                </Text>
+                <Text style={[styles.conflictMeta, { color: colors.mutedText }]}>
+                  {formatDateTime(conflict.resolvedAt)}
+                </Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  cardText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  input: {
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  clearText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  conflict: {
+    borderTopWidth: 0.5,
+    paddingTop: 12,
+    gap: 2,
+  },
+  conflictTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  conflictMeta: {
+    fontSize: 12,
+  },
+});
+
+export default SyncSettingsScreen;
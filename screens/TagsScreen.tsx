@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { getEntries } from '../storage/entryRepository.ts';
+import { TagCount, getTagCounts, renameTag } from '../storage/tagRepository.ts';
+import { normalizeTag } from '../utils/tags.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import TextPromptModal from '../components/TextPromptModal.tsx';
+
+type TagsScreenProps = NativeStackScreenProps<RootStackParamList, 'Tags'>;
+
+const TagsScreen: React.FC<TagsScreenProps> = ({ navigation }) => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [renaming, setRenaming] = useState<TagCount | null>(null);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadTags();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadTags = async () => {
+    try {
+      setTags(getTagCounts(await getEntries()));
+    } catch (error) {
+      console.error('Error loading tags:', error);
+      Alert.alert('Error', 'Failed to load tags');
+    }
+  };
+
+  const applyRename = async (from: string, to: string) => {
+    try {
+      await renameTag(from, to);
+      await loadTags();
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      Alert.alert('Error', 'Failed to rename tag');
+    }
+  };
+
+  const handleRename = (name: string) => {
+    const current = renaming;
+    setRenaming(null);
+    const target = normalizeTag(name);
+    if (!current || !target || target === current.tag) return;
+
+    const existing = tags.find(({ tag }) => tag === target);
+    if (!existing) {
+      applyRename(current.tag, target);
+      return;
+    }
+    Alert.alert(
+      'Merge Tags',
+      `#${target} is already used on ${existing.count} ${existing.count === 1 ? 'entry' : 'entries'}. Merge #${current.tag} into it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => applyRename(current.tag, target) },
+      ]
+    );
+  };
+
+  const renderTag = ({ item }: { item: TagCount }) => (
+    <TouchableOpacity
+      style={[styles.row, { borderBottomColor: colors.divider }]}
+      onPress={() => navigation.push('TagFeed', { tag: item.tag })}
+    >
+      <View style={styles.rowText}>
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>#{item.tag}</Text>
+        <Text style={[styles.rowMeta, { color: colors.mutedText }]}>
+          {item.count} {item.count === 1 ? 'entry' : 'entries'}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => setRenaming(item)} style={styles.rowAction}>
+        <Ionicons name="create-outline" size={22} color={colors.accent} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Tags</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <FlatList
+        data={tags}
+        renderItem={renderTag}
+        keyExtractor={(item) => item.tag}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="pricetags-outline" size={48} color={colors.secondaryText} />
+            <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+              Add #hashtags to a caption or tags to an entry to see them here
+            </Text>
+          </View>
+        }
+      />
+
+      <TextPromptModal
+        visible={renaming !== null}
+        title="Rename Tag"
+        placeholder="e.g. beach"
+        initialValue={renaming?.tag}
+        submitLabel="Rename"
+        onSubmit={handleRename}
+        onClose={() => setRenaming(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 0.5,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowAction: {
+    padding: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default TagsScreen;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import { TravelEntry, getCoverThumbnail, getEntries } from '../storage/entryRepository.ts';
+import { getFeedSortOrder } from '../storage/preferencesRepository.ts';
+import { TimelineItem, buildTimeline, findDayIndex } from '../utils/timeline.ts';
+import { DateSortOrder } from '../utils/dates.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+import DateField from '../components/DateField.tsx';
+
+type TimelineScreenProps = NativeStackScreenProps<RootStackParamList, 'Timeline'>;
+
+const TimelineScreen: React.FC<TimelineScreenProps> = ({ navigation }) => {
+  const [entries, setEntries] = useState<TravelEntry[]>([]);
+  // Follows the order picked on the main feed
+  const [sortOrder, setSortOrder] = useState<DateSortOrder>('newest');
+  const [jumpDate, setJumpDate] = useState<Date | null>(null);
+  const listRef = useRef<FlatList<TimelineItem>>(null);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadEntries();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const loadEntries = async () => {
+    try {
+      const [loadedEntries, loadedSortOrder] = await Promise.all([getEntries(), getFeedSortOrder()]);
+      setEntries(loadedEntries);
+      setSortOrder(loadedSortOrder);
+    } catch (error) {
+      console.error('Error loading entries:', error);
+      Alert.alert('Error', 'Failed to load entries');
+    }
+  };
+
+  const items = buildTimeline(entries, sortOrder);
+
+  const jumpTo = (date: Date) => {
+    setJumpDate(date);
+    const index = findDayIndex(items, date, sortOrder);
+    if (index !== -1) {
+      listRef.current?.scrollToIndex({ index, animated: true });
+    }
+  };
+
+  // Rows far down the list may not be measured yet; get close, then retry
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    listRef.current?.scrollToOffset({ offset: info.index * info.averageItemLength, animated: false });
+    setTimeout(() => {
+      listRef.current?.scrollToIndex({ index: info.index, animated: true });
+    }, 100);
+  };
+
+  const renderItem = ({ item }: { item: TimelineItem }) => {
+    switch (item.type) {
+      case 'year':
+        return <Text style={[styles.yearHeader, { color: colors.text }]}>{item.label}</Text>;
+      case 'month':
+        return <Text style={[styles.monthHeader, { color: colors.accent }]}>{item.label}</Text>;
+      case 'day':
+        return <Text style={[styles.dayHeader, { color: colors.mutedText }]}>{item.label}</Text>;
+      case 'entry':
+        return (
+          <TouchableOpacity
+            style={[styles.row, { borderBottomColor: colors.divider }]}
+            onPress={() => navigation.navigate('EntryDetail', { entryId: item.entry.id })}
+          >
+            <Image source={{ uri: getCoverThumbnail(item.entry) }} style={styles.rowImage} />
+            <View style={styles.rowText}>
+              <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                {item.entry.title}
+              </Text>
+              <Text style={[styles.rowMeta, { color: colors.mutedText }]} numberOfLines={1}>
+                {new Date(item.entry.date).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                {item.entry.address ? ` · ${item.entry.address}` : ''}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Timeline</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {entries.length > 0 && (
+        <View style={styles.jumpBar}>
+          <DateField label="Jump to" value={jumpDate} onChange={jumpTo} placeholder="Pick a date" />
+        </View>
+      )}
+
+      <FlatList
+        ref={listRef}
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.key}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="time-outline" size={48} color={colors.secondaryText} />
+            <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+              Your entries will line up here by date
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  jumpBar: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  yearHeader: {
+    fontSize: 26,
+    fontWeight: '700',
+    paddingHorizontal: 16,
+    paddingTop: 20,
+  },
+  monthHeader: {
+    fontSize: 17,
+    fontWeight: '600',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  dayHeader: {
+    fontSize: 13,
+    fontWeight: '600',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  rowImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default TimelineScreen;
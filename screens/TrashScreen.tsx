@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../context/ThemeContext.tsx';
+import {
+  TRASH_RETENTION_DAYS,
+  TrashedEntry,
+  emptyTrash,
+  getCoverThumbnail,
+  getPurgeDate,
+  getTrashedEntries,
+  purgeEntry,
+  restoreEntry,
+} from '../storage/entryRepository.ts';
+import { RootStackParamList } from '../navigation/types.ts';
+
+type TrashScreenProps = NativeStackScreenProps<RootStackParamList, 'Trash'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const describePurge = (trashed: TrashedEntry) => {
+  const days = Math.ceil((getPurgeDate(trashed).getTime() - Date.now()) / DAY_MS);
+  return days <= 1 ? 'Deleted for good within a day' : `Deleted for good in ${days} days`;
+};
+
+const TrashScreen: React.FC<TrashScreenProps> = ({ navigation }) => {
+  const [trash, setTrash] = useState<TrashedEntry[]>([]);
+  const { colors } = useTheme();
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const loadTrash = async () => {
+    try {
+      setTrash(await getTrashedEntries());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load the Trash');
+    }
+  };
+
+  const restore = async (trashed: TrashedEntry) => {
+    try {
+      await restoreEntry(trashed.entry.id);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      Alert.alert('Error', 'Failed to restore entry');
+    }
+  };
+
+  const confirmPurge = (trashed: TrashedEntry) => {
+    Alert.alert(
+      'Delete Forever',
+      `"${trashed.entry.title}" and its photos and notes will be deleted. This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeEntry(trashed.entry.id);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error deleting entry:', error);
+              Alert.alert('Error', 'Failed to delete entry');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmEmpty = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Delete all ${trash.length} ${trash.length === 1 ? 'entry' : 'entries'} forever? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+              await loadTrash();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert('Error', 'Failed to empty the Trash');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry = ({ item }: { item: TrashedEntry }) => (
+    <View style={[styles.row, { borderBottomColor: colors.divider }]}>
+      <Image source={{ uri: getCoverThumbnail(item.entry) }} style={styles.rowImage} />
+      <View style={styles.rowText}>
+        <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>{item.entry.title}</Text>
+        <Text style={[styles.rowMeta, { color: colors.mutedText }]} numberOfLines={1}>
+          {describePurge(item)}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => restore(item)} style={styles.rowAction}>
+        <Ionicons name="arrow-undo-outline" size={22} color={colors.accent} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => confirmPurge(item)} style={styles.rowAction}>
+        <Ionicons name="trash-outline" size={22} color={colors.danger} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Trash</Text>
+        {trash.length > 0 ? (
+          <TouchableOpacity onPress={confirmEmpty} style={styles.headerButton}>
+            <Text style={[styles.emptyTrashText, { color: colors.danger }]}>Empty</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
+      </View>
+
+      <FlatList
+        data={trash}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.entry.id}
+        ListHeaderComponent={
+          trash.length > 0 ? (
+            <Text style={[styles.notice, { color: colors.mutedText }]}>
+              Entries in the Trash are deleted for good after {TRASH_RETENTION_DAYS} days.
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="trash-outline" size={48} color={colors.secondaryText} />
+            <Text style={[styles.emptyText, { color: colors.mutedText }]}>
+              The Trash is empty
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 0.5,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 44,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  emptyTrashText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  notice: {
+    fontSize: 13,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+  },
+  rowImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowAction: {
+    padding: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default TrashScreen;
@@ -0,0 +1,250 @@
+// Reference sync server for the travel diary. Uses only Node's standard
+// library and keeps everything in a data directory: db.json for entries and
+// photos/ for uploaded photo files. See README.md in this folder for the API.
+//
+//   npm run sync-server
+//
+// Environment: PORT (default 8787), SYNC_DATA_DIR (default ./server/data)
+// and SYNC_TOKEN (when set, every request must send it as a bearer token).
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = process.env.SYNC_DATA_DIR ?? path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+const PHOTOS_DIR = path.join(DATA_DIR, 'photos');
+const DB_FILE = path.join(DATA_DIR, 'db.json');
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+
+const MAX_JSON_BYTES = 5 * 1024 * 1024;
+const MAX_PHOTO_BYTES = 50 * 1024 * 1024;
+const PAGE_SIZE = 500;
+
+// Entry ids come from the app; photo names are the app's stored file names
+const SAFE_NAME = /^[\w.-]+$/;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+fs.mkdirSync(PHOTOS_DIR, { recursive: true });
+
+// Maps keyed by ids and field names the client sends have no prototype, so
+// names like constructor or __proto__ are just keys
+const dictionary = (entries = {}) => Object.assign(Object.create(null), entries);
+
+const loadDb = () => {
+  const saved = JSON.parse(fs.readFileSync(DB_FILE, 'utf8'));
+  const records = dictionary();
+  for (const [id, record] of Object.entries(saved.records)) {
+    records[id] = { ...record, fields: dictionary(record.fields) };
+  }
+  return { seq: saved.seq, records };
+};
+
+// { seq, records: { [entryId]: { id, seq, fields: { [field]: { value, updatedAt, deviceId } } } } }
+const db = fs.existsSync(DB_FILE) ? loadDb() : { seq: 0, records: dictionary() };
+
+const findRecord = id => (Object.hasOwn(db.records, id) ? db.records[id] : undefined);
+
+// Written to a temporary file first so a crash never leaves half a database
+const saveDb = () => {
+  const temporary = `${DB_FILE}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(db));
+  fs.renameSync(temporary, DB_FILE);
+};
+
+const sameValue = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// Last writer wins, field by field. Equal timestamps go to the higher device
+// id so every server and client agrees on the outcome.
+const isNewer = (incoming, incomingDevice, existing) =>
+  incoming.updatedAt > existing.updatedAt ||
+  (incoming.updatedAt === existing.updatedAt && incomingDevice > existing.deviceId);
+
+// Photo files of an entry made private, unless another entry still uses them
+const deleteWithdrawnPhotos = (id, names) => {
+  const inUse = new Set(
+    Object.values(db.records)
+      .filter(record => record.id !== id)
+      .flatMap(record => (Array.isArray(record.fields.images?.value) ? record.fields.images.value : []))
+  );
+  for (const name of names) {
+    if (typeof name === 'string' && SAFE_NAME.test(name) && !inUse.has(name)) {
+      fs.rmSync(path.join(PHOTOS_DIR, name), { force: true });
+    }
+  }
+};
+
+const mergeFields = (id, deviceId, fields) => {
+  const record = findRecord(id) ?? { id, seq: 0, fields: dictionary() };
+  const previousImages = record.fields.images?.value;
+  const conflicts = [];
+  let changed = false;
+
+  for (const [field, incoming] of Object.entries(fields)) {
+    if (typeof incoming?.updatedAt !== 'string') {
+      throw new HttpError(400, `Field ${field} needs an updatedAt timestamp`);
+    }
+    const existing = Object.hasOwn(record.fields, field) ? record.fields[field] : undefined;
+    const wins = !existing || isNewer(incoming, deviceId, existing);
+
+    // Another device wrote the field after the value this change was based
+    // on: both edits were made without seeing each other
+    if (
+      existing &&
+      existing.deviceId !== deviceId &&
+      existing.updatedAt !== incoming.baseUpdatedAt &&
+      !sameValue(existing.value, incoming.value)
+    ) {
+      conflicts.push({
+        field,
+        winner: wins ? 'client' : 'server',
+        serverValue: existing.value,
+        clientValue: incoming.value,
+        serverUpdatedAt: existing.updatedAt,
+        clientUpdatedAt: incoming.updatedAt,
+      });
+    }
+
+    if (wins) {
+      record.fields[field] = { value: incoming.value, updatedAt: incoming.updatedAt, deviceId };
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    db.seq += 1;
+    record.seq = db.seq;
+    db.records[id] = record;
+    saveDb();
+    if (record.fields.withdrawn?.value === true && Array.isArray(previousImages)) {
+      deleteWithdrawnPhotos(id, previousImages);
+    }
+  }
+  return { record, conflicts };
+};
+
+const readBody = (request, limit) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, 'Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const readJson = async request => {
+  try {
+    return JSON.parse((await readBody(request, MAX_JSON_BYTES)).toString('utf8'));
+  } catch (error) {
+    throw error instanceof HttpError ? error : new HttpError(400, 'Body must be JSON');
+  }
+};
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const safeName = value => {
+  let name;
+  try {
+    name = decodeURIComponent(value);
+  } catch {
+    // A stray % that isn't an escape
+    throw new HttpError(400, 'Invalid name');
+  }
+  if (!SAFE_NAME.test(name)) {
+    throw new HttpError(400, 'Invalid name');
+  }
+  return name;
+};
+
+const handle = async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host ?? 'localhost'}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (url.pathname === '/v1/health' && request.method === 'GET') {
+    return sendJson(response, 200, { ok: true, seq: db.seq });
+  }
+
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    throw new HttpError(401, 'Missing or wrong token');
+  }
+
+  if (url.pathname === '/v1/changes' && request.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isSafeInteger(since) || since < 0) {
+      throw new HttpError(400, 'since must be a sequence number');
+    }
+    const changed = Object.values(db.records)
+      .filter(record => record.seq > since)
+      .sort((a, b) => a.seq - b.seq);
+    const records = changed.slice(0, PAGE_SIZE);
+    return sendJson(response, 200, {
+      records,
+      cursor: records.length > 0 ? records[records.length - 1].seq : since,
+      hasMore: changed.length > PAGE_SIZE,
+    });
+  }
+
+  if (parts[0] === 'v1' && parts[1] === 'entries' && parts.length === 3) {
+    const id = safeName(parts[2]);
+    if (request.method === 'GET') {
+      const record = findRecord(id);
+      if (!record) throw new HttpError(404, 'No such entry');
+      return sendJson(response, 200, { record });
+    }
+    if (request.method === 'PUT') {
+      const body = await readJson(request);
+      if (typeof body.deviceId !== 'string' || typeof body.fields !== 'object' || body.fields === null) {
+        throw new HttpError(400, 'Body needs deviceId and fields');
+      }
+      return sendJson(response, 200, mergeFields(id, body.deviceId, body.fields));
+    }
+  }
+
+  if (parts[0] === 'v1' && parts[1] === 'photos' && parts.length === 3) {
+    const file = path.join(PHOTOS_DIR, safeName(parts[2]));
+    if (request.method === 'PUT') {
+      const data = await readBody(request, MAX_PHOTO_BYTES);
+      fs.writeFileSync(`${file}.tmp`, data);
+      fs.renameSync(`${file}.tmp`, file);
+      response.writeHead(204);
+      return response.end();
+    }
+    if (request.method === 'GET') {
+      if (!fs.existsSync(file)) throw new HttpError(404, 'No such photo');
+      response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      return fs.createReadStream(file).pipe(response);
+    }
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = http.createServer((request, response) => {
+  handle(request, response).catch(error => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    sendJson(response, status, { error: error.message });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Travel diary sync server listening on port ${PORT}, data in ${DATA_DIR}`);
+});
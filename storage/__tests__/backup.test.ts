@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { randomBytes } from 'crypto';
+import { TravelEntry, addEntry, getEntries, getEntry, purgeEntry, updateEntry } from '../entryRepository.ts';
+import { addComment, getAllComments, replaceAllComments } from '../commentRepository.ts';
+import { getActionStates, setActionState } from '../actionStateRepository.ts';
+import { getCollections, replaceCollections } from '../collectionRepository.ts';
+import { addTrip, getTrips, replaceTrips } from '../tripRepository.ts';
+import { getProfile, saveProfile } from '../profileRepository.ts';
+import { PHOTOS_DIR, importPhoto } from '../photoStore.ts';
+import { setEntryKey } from '../privateEntries.ts';
+import { BackupError, createBackup, readBackup, restoreBackup } from '../backup.ts';
+
+const PICKED_URI = `${FileSystem.cacheDirectory}ImagePicker/picked.jpg`;
+
+// Ids are set so two entries added in the same millisecond don't collide
+const addTestEntry = async (title: string, isPrivate = false): Promise<TravelEntry> =>
+  addEntry({
+    id: title.toLowerCase(),
+    title,
+    description: `${title} description`,
+    images: [await importPhoto(PICKED_URI)],
+    coverIndex: 0,
+    location: null,
+    address: '',
+    isPrivate,
+  });
+
+const exists = async (uri: string) => (await FileSystem.getInfoAsync(uri)).exists;
+
+// Two public entries with a note, a like and a collection slot each, a
+// private one, a trip with its own cover and a profile with an avatar
+const fillDiary = async () => {
+  const lisbon = await addTestEntry('Lisbon');
+  const madeira = await addTestEntry('Madeira');
+  const secret = await addTestEntry('Secret', true);
+  await addComment(lisbon.id, 'Great pastries');
+  await addComment(madeira.id, 'Windy cliffs');
+  await addComment(secret.id, 'Nobody must know');
+  await setActionState('like', { [lisbon.id]: true, [madeira.id]: true, [secret.id]: true });
+  await replaceCollections([
+    {
+      id: 'favourites',
+      name: 'Favourites',
+      entryIds: [lisbon.id, madeira.id, secret.id],
+      createdAt: new Date().toISOString(),
+    },
+  ]);
+  const trip = await addTrip({
+    name: 'Portugal',
+    startDate: '2024-05-01T00:00:00.000Z',
+    endDate: '2024-05-10T23:59:59.999Z',
+    coverImage: await importPhoto(PICKED_URI),
+  });
+  await saveProfile({ displayName: 'Ana', avatarUri: await importPhoto(PICKED_URI), dateFormat: 'system' });
+  return { lisbon, madeira, secret, trip };
+};
+
+const readArchive = async (uri: string) => JSON.parse(await FileSystem.readAsStringAsync(uri));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await FileSystem.deleteAsync(FileSystem.documentDirectory!);
+  await FileSystem.writeAsStringAsync(PICKED_URI, 'cGhvdG8=', { encoding: FileSystem.EncodingType.Base64 });
+  setEntryKey(new Uint8Array(32).fill(3));
+});
+
+test('an export leaves out private entries with their notes, flags and collection slots', async () => {
+  const shown = await addTestEntry('Lisbon');
+  const hidden = await addTestEntry('Secret', true);
+  await addComment(shown.id, 'Great pastries');
+  await addComment(hidden.id, 'Nobody must know');
+  await setActionState('like', { [shown.id]: true, [hidden.id]: true });
+  await replaceCollections([
+    { id: 'favourites', name: 'Favourites', entryIds: [shown.id, hidden.id], createdAt: new Date().toISOString() },
+  ]);
+
+  const archive = await readArchive((await createBackup()).uri);
+
+  expect(archive.entries.map((entry: TravelEntry) => entry.id)).toEqual([shown.id]);
+  expect(Object.keys(archive.comments)).toEqual([shown.id]);
+  expect(archive.actionStates.liked).toEqual({ [shown.id]: true });
+  expect(archive.collections[0].entryIds).toEqual([shown.id]);
+  expect(JSON.stringify(archive)).not.toContain('Nobody must know');
+});
+
+test('a backup with a damaged section is turned down before anything is restored', async () => {
+  await addTestEntry('Lisbon');
+  const { uri } = await createBackup();
+  const archive = await readArchive(uri);
+  await FileSystem.writeAsStringAsync(
+    uri,
+    JSON.stringify({ ...archive, collections: [{ id: 'favourites', name: 'Favourites', entryIds: 'all' }] })
+  );
+
+  await expect(readBackup(uri)).rejects.toThrow(BackupError);
+});
+
+test('a photo bigger than one read comes back intact from its place in the file', async () => {
+  const photo = randomBytes(2 * 1024 * 1024);
+  await FileSystem.writeAsStringAsync(PICKED_URI, photo.toString('base64'), { encoding: FileSystem.EncodingType.Base64 });
+  await addTestEntry('Lisbon');
+  const { uri } = await createBackup();
+  await AsyncStorage.clear();
+  await FileSystem.deleteAsync(PHOTOS_DIR);
+
+  const opened = await readBackup(uri);
+  expect(Object.keys(opened.photos)).toHaveLength(1);
+  const report = await restoreBackup(opened, 'replace');
+
+  expect(report.failed).toEqual([]);
+  const [restored] = await getEntries();
+  const data = await FileSystem.readAsStringAsync(restored.images[0], { encoding: FileSystem.EncodingType.Base64 });
+  expect(Buffer.from(data, 'base64').equals(photo)).toBe(true);
+});
+
+test('replacing the diary with a backup brings everything back and keeps private entries', async () => {
+  const { lisbon, madeira, secret, trip } = await fillDiary();
+  const { uri } = await createBackup();
+  await updateEntry(lisbon.id, { title: 'Lisbon, edited later' });
+  await addTestEntry('Porto');
+  await purgeEntry(madeira.id);
+  await replaceTrips([]);
+  await saveProfile({ displayName: 'Someone else', avatarUri: null, dateFormat: 'system' });
+
+  const report = await restoreBackup(await readBackup(uri), 'replace');
+
+  expect(report).toEqual({ mode: 'replace', restored: 2, keptLocal: 0, keptPrivate: 1, failed: [] });
+  expect((await getEntries()).map(entry => entry.title).sort()).toEqual(['Lisbon', 'Madeira', 'Secret']);
+  const restored = (await getEntry(madeira.id))!;
+  expect(await exists(restored.images[0])).toBe(true);
+  const comments = await getAllComments();
+  expect(Object.keys(comments).sort()).toEqual([lisbon.id, madeira.id, secret.id].sort());
+  expect(comments[secret.id][0].text).toBe('Nobody must know');
+  expect((await getActionStates()).liked).toEqual({ [lisbon.id]: true, [madeira.id]: true, [secret.id]: true });
+  expect((await getCollections())[0].entryIds).toEqual([lisbon.id, madeira.id, secret.id]);
+  const [restoredTrip] = await getTrips();
+  expect(restoredTrip).toMatchObject({ id: trip.id, name: 'Portugal' });
+  expect(restoredTrip.coverImage).not.toBe(restored.images[0]);
+  expect(await exists(restoredTrip.coverImage!)).toBe(true);
+  const profile = await getProfile();
+  expect(profile.displayName).toBe('Ana');
+  expect(await exists(profile.avatarUri!)).toBe(true);
+});
+
+test('merging a backup keeps newer local edits and adds back what is missing', async () => {
+  const { lisbon, madeira, trip } = await fillDiary();
+  const { uri } = await createBackup();
+  await updateEntry(lisbon.id, { title: 'Lisbon, edited later', updatedAt: '2099-01-01T00:00:00.000Z' });
+  // Comment ids come from the clock, so this one is given its own
+  const comments = await getAllComments();
+  await replaceAllComments({
+    ...comments,
+    [lisbon.id]: [
+      ...comments[lisbon.id],
+      { id: 'tram', entryId: lisbon.id, text: 'Tram 28 at dawn', createdAt: new Date().toISOString() },
+    ],
+  });
+  const porto = await addTestEntry('Porto');
+  await purgeEntry(madeira.id);
+  await replaceTrips([]);
+  await saveProfile({ displayName: 'Someone else', avatarUri: null, dateFormat: 'system' });
+
+  const report = await restoreBackup(await readBackup(uri), 'merge');
+
+  expect(report).toEqual({ mode: 'merge', restored: 1, keptLocal: 1, keptPrivate: 1, failed: [] });
+  expect((await getEntry(lisbon.id))?.title).toBe('Lisbon, edited later');
+  expect(await getEntry(porto.id)).toBeDefined();
+  expect(await exists((await getEntry(madeira.id))!.images[0])).toBe(true);
+  const merged = await getAllComments();
+  expect(merged[lisbon.id].map(comment => comment.text)).toEqual(['Great pastries', 'Tram 28 at dawn']);
+  expect(merged[madeira.id].map(comment => comment.text)).toEqual(['Windy cliffs']);
+  expect((await getActionStates()).liked[madeira.id]).toBe(true);
+  expect((await getCollections())[0].entryIds).toContain(madeira.id);
+  expect((await getTrips()).map(restored => restored.id)).toEqual([trip.id]);
+  expect((await getProfile()).displayName).toBe('Someone else');
+});
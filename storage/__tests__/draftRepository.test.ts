@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { addEntry, getEntry } from '../entryRepository.ts';
+import { deleteDraft, getDraft, newDraftId, saveDraft } from '../draftRepository.ts';
+import { importPhoto } from '../photoStore.ts';
+import { setEntryKey } from '../privateEntries.ts';
+
+const PICKED_URI = `${FileSystem.cacheDirectory}ImagePicker/picked.jpg`;
+
+const exists = async (uri: string) => (await FileSystem.getInfoAsync(uri)).exists;
+
+// A draft with one photo copied into the store, as the autosave leaves it
+const saveDraftWithPhoto = async () => {
+  const photo = await importPhoto(PICKED_URI);
+  const draft = await saveDraft({
+    id: newDraftId(),
+    title: 'Harbour walk',
+    description: '',
+    images: [photo],
+    coverIndex: 0,
+    location: null,
+    address: '',
+  });
+  return { draft, photo };
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await FileSystem.deleteAsync(FileSystem.documentDirectory!);
+  await FileSystem.writeAsStringAsync(PICKED_URI, 'cGhvdG8=', { encoding: FileSystem.EncodingType.Base64 });
+  setEntryKey(null);
+});
+
+test('deleting a draft deletes the photos nothing else uses', async () => {
+  const { draft, photo } = await saveDraftWithPhoto();
+
+  await deleteDraft(draft.id);
+
+  expect(await getDraft(draft.id)).toBeUndefined();
+  expect(await exists(photo)).toBe(false);
+});
+
+test('a draft marked private and then shared keeps its photos', async () => {
+  setEntryKey(new Uint8Array(32).fill(7));
+  const { draft, photo } = await saveDraftWithPhoto();
+
+  // What the form does when Private is switched on
+  await deleteDraft(draft.id, { keepPhotos: true });
+  expect(await getDraft(draft.id)).toBeUndefined();
+
+  // Share: stored photos are passed through as they are
+  const images = [await importPhoto(photo)];
+  const entry = await addEntry({
+    title: draft.title,
+    description: '',
+    images,
+    coverIndex: 0,
+    location: null,
+    address: '',
+    isPrivate: true,
+  });
+
+  expect(await exists(photo)).toBe(true);
+  expect((await getEntry(entry.id))?.images).toEqual([photo]);
+});
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ENTRIES_KEY,
+  ENTRY_INDEX_KEY,
+  NewTravelEntry,
+  SCHEMA_VERSION_KEY,
+  TravelEntry,
+  addEntry,
+  getEntryPage,
+  initEntryStorage,
+  trashEntry,
+  updateEntry,
+} from '../entryRepository.ts';
+import { CURRENT_SCHEMA_VERSION } from '../migrations.ts';
+
+const entryOn = (id: string, date: string): NewTravelEntry & TravelEntry => ({
+  id,
+  title: `Entry ${id}`,
+  description: '',
+  images: [`file:///document/photos/${id}.jpg`],
+  coverIndex: 0,
+  location: null,
+  address: '',
+  date,
+});
+
+const readJson = async (key: string) => JSON.parse((await AsyncStorage.getItem(key)) ?? 'null');
+
+// The old array is only split the first time storage is used, so this runs
+// before anything else in the file touches entries
+test('the first start splits the old array into one record per entry and a newest-first index', async () => {
+  const entries = [
+    entryOn('a', '2024-01-01T00:00:00.000Z'),
+    entryOn('b', '2024-03-01T00:00:00.000Z'),
+    entryOn('c', '2024-02-01T00:00:00.000Z'),
+  ];
+  await AsyncStorage.setItem(ENTRIES_KEY, JSON.stringify(entries));
+  await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+
+  await initEntryStorage();
+
+  expect(await AsyncStorage.getItem(ENTRIES_KEY)).toBeNull();
+  expect(await readJson('travelEntry:b')).toEqual(entries[1]);
+  expect((await readJson(ENTRY_INDEX_KEY)).map((row: { id: string }) => row.id)).toEqual(['b', 'c', 'a']);
+});
+
+describe('with records', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  });
+
+  test('a page of the feed reads only the records on it', async () => {
+    for (const day of [1, 2, 3, 4, 5]) {
+      await addEntry(entryOn(`day-${day}`, `2024-05-0${day}T12:00:00.000Z`));
+    }
+    // The AsyncStorage mock reads single keys through multiGet too
+    const multiGet = jest.spyOn(AsyncStorage, 'multiGet');
+    multiGet.mockClear();
+    const recordsRead = () =>
+      multiGet.mock.calls.flatMap(([keys]) => keys).filter(key => key.startsWith('travelEntry:'));
+
+    const newest = await getEntryPage({ offset: 0, limit: 2, order: 'newest' });
+    const oldest = await getEntryPage({ offset: 4, limit: 2, order: 'oldest' });
+
+    expect(newest.entries.map(entry => entry.id)).toEqual(['day-5', 'day-4']);
+    expect(newest).toMatchObject({ total: 5, nextOffset: 2 });
+    expect(oldest.entries.map(entry => entry.id)).toEqual(['day-5']);
+    expect(oldest.nextOffset).toBeNull();
+    expect(recordsRead()).toEqual(['travelEntry:day-5', 'travelEntry:day-4', 'travelEntry:day-5']);
+  });
+
+  test('saves keep the index in date order and the Trash takes the record out', async () => {
+    await addEntry(entryOn('early', '2024-05-01T12:00:00.000Z'));
+    await addEntry(entryOn('late', '2024-05-03T12:00:00.000Z'));
+
+    await updateEntry('early', { date: '2024-05-04T12:00:00.000Z', tripId: 'spain' });
+    expect(await readJson(ENTRY_INDEX_KEY)).toEqual([
+      { id: 'early', date: '2024-05-04T12:00:00.000Z', tripId: 'spain' },
+      { id: 'late', date: '2024-05-03T12:00:00.000Z' },
+    ]);
+
+    await trashEntry('early');
+    expect(await AsyncStorage.getItem('travelEntry:early')).toBeNull();
+    expect((await readJson(ENTRY_INDEX_KEY)).map((row: { id: string }) => row.id)).toEqual(['late']);
+  });
+});
@@ -0,0 +1,56 @@
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, runMigrations } from '../migrations.ts';
+
+const currentEntry = {
+  id: '1718000000000',
+  title: 'Harbour walk',
+  description: '',
+  images: ['file:///document/photos/harbour.jpg'],
+  coverIndex: 0,
+  location: null,
+  address: '',
+  date: '2024-06-10T09:00:00.000Z',
+};
+
+test('legacy entries are repaired and moved to a photo list', () => {
+  const { entries, report } = runMigrations(
+    [{ id: '1718000000000', title: ' ', image: 'file:///document/photos/harbour.jpg' }],
+    LEGACY_SCHEMA_VERSION
+  );
+
+  expect(entries).toEqual([
+    {
+      id: '1718000000000',
+      title: 'Untitled entry',
+      description: '',
+      address: '',
+      location: null,
+      date: new Date(1718000000000).toISOString(),
+      images: ['file:///document/photos/harbour.jpg'],
+      coverIndex: 0,
+    },
+  ]);
+  expect(report.repaired).toEqual(['1718000000000']);
+  expect(report.quarantined).toEqual([]);
+});
+
+test('legacy entries without a photo are quarantined, not dropped', () => {
+  const { entries, report } = runMigrations([{ id: 'a', title: 'No photo' }, 'not an entry'], LEGACY_SCHEMA_VERSION);
+
+  expect(entries).toEqual([]);
+  expect(report.quarantined.map(item => [item.raw, item.reason])).toEqual([
+    ['not an entry', 'Entry is not an object'],
+    [{ id: 'a', title: 'No photo' }, 'Entry has no photo'],
+  ]);
+});
+
+test('entries already at the current version are still checked', () => {
+  const broken = { ...currentEntry, id: '2', coverIndex: 3 };
+  const { entries, report } = runMigrations([currentEntry, broken, null], CURRENT_SCHEMA_VERSION);
+
+  expect(entries).toEqual([currentEntry]);
+  expect(report.quarantined.map(item => item.reason)).toEqual([
+    'Entry is not an object',
+    'Entry has an invalid cover photo',
+  ]);
+  expect(report.quarantined.every(item => item.fromVersion === CURRENT_SCHEMA_VERSION)).toBe(true);
+});
@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addEntry, getEntries, getEntry, getEntryDates, getEntryIndex } from '../entryRepository.ts';
+import type { TravelEntry } from '../entryRepository.ts';
+import { openEntry, sealEntry, setEntryKey } from '../privateEntries.ts';
+import { DecryptionError, decryptText, encryptText, pbkdf2, pbkdf2Async, utf8Encode } from '../../utils/crypto.ts';
+
+const KEY = new Uint8Array(32).fill(7);
+const OTHER_KEY = new Uint8Array(32).fill(8);
+
+const privateEntry: TravelEntry = {
+  id: 'secret',
+  title: 'Proposal at the lighthouse',
+  description: 'She said yes',
+  images: ['file:///document/photos/ring.jpg'],
+  coverIndex: 0,
+  location: {
+    coords: {
+      latitude: 42.9,
+      longitude: -9.3,
+      altitude: null,
+      accuracy: 5,
+      altitudeAccuracy: null,
+      heading: null,
+      speed: null,
+    },
+    timestamp: 1717264800000,
+  },
+  address: 'Faro de Finisterre',
+  place: { city: 'Fisterra', country: 'Spain' },
+  tags: ['family'],
+  date: '2024-06-01T18:00:00.000Z',
+  isPrivate: true,
+};
+
+// Flips one hex digit of the ciphertext
+const tamper = (sealed: string) => {
+  const parts = sealed.split(':');
+  parts[2] = (parts[2][0] === '0' ? '1' : '0') + parts[2].slice(1);
+  return parts.join(':');
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  setEntryKey(null);
+});
+
+test('sealed text opens with its key and nothing else', () => {
+  const sealed = encryptText(KEY, 'Café at dawn ☕');
+
+  expect(sealed).not.toContain('Café');
+  expect(encryptText(KEY, 'Café at dawn ☕')).not.toBe(sealed);
+  expect(decryptText(KEY, sealed)).toBe('Café at dawn ☕');
+  expect(() => decryptText(OTHER_KEY, sealed)).toThrow(DecryptionError);
+  expect(() => decryptText(KEY, tamper(sealed))).toThrow(DecryptionError);
+  expect(() => decryptText(KEY, 'not sealed')).toThrow(DecryptionError);
+});
+
+test('a sealed entry keeps only its photos, date and position readable', () => {
+  const stored = sealEntry(privateEntry, KEY);
+
+  expect(stored).toMatchObject({ title: '', description: '', address: '', images: privateEntry.images });
+  expect(stored.place).toBeUndefined();
+  expect(stored.tags).toBeUndefined();
+  expect(stored.date).toBe(privateEntry.date);
+  expect(stored.location).toEqual(privateEntry.location);
+  expect(JSON.stringify(stored)).not.toContain('lighthouse');
+
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  expect(openEntry(stored, KEY)).toEqual(privateEntry);
+  expect(openEntry(stored, OTHER_KEY)).toBeNull();
+  expect(openEntry(stored, null)).toBeNull();
+  expect(sealEntry({ ...privateEntry, isPrivate: false }, null).title).toBe(privateEntry.title);
+});
+
+test('private entries are stored sealed and hidden while the diary is locked', async () => {
+  setEntryKey(KEY);
+  const hidden = await addEntry(privateEntry);
+  const shown = await addEntry({ ...privateEntry, id: 'beach', title: 'Beach day', isPrivate: false });
+
+  const record = await AsyncStorage.getItem(`travelEntry:${hidden.id}`);
+  expect(record).not.toContain('lighthouse');
+  expect(await getEntry(hidden.id)).toMatchObject({ title: 'Proposal at the lighthouse' });
+
+  setEntryKey(null);
+  expect((await getEntries()).map(entry => entry.id)).toEqual([shown.id]);
+  expect((await getEntryIndex()).map(row => row.id)).toEqual([shown.id]);
+  expect(await getEntry(hidden.id)).toBeUndefined();
+  // Reminders still see that the day has an entry
+  expect(await getEntryDates()).toHaveLength(2);
+
+  setEntryKey(KEY);
+  expect(await getEntry(hidden.id)).toMatchObject({ title: 'Proposal at the lighthouse', tags: ['family'] });
+});
+
+test('the sliced key derivation gives the same key as the plain one', async () => {
+  const password = utf8Encode('1234');
+  const salt = utf8Encode('travel-diary-salt');
+
+  expect(await pbkdf2Async(password, salt, 2000, 32)).toEqual(pbkdf2(password, salt, 2000, 32));
+});
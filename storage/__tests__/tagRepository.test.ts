@@ -0,0 +1,34 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NewTravelEntry, addEntry, getEntry, getTrashedEntries, trashEntry } from '../entryRepository.ts';
+import { renameTag } from '../tagRepository.ts';
+import { setEntryKey } from '../privateEntries.ts';
+
+const taggedEntry = (title: string): NewTravelEntry => ({
+  title,
+  description: 'Tapas by the harbour #food',
+  images: ['file:///document/photos/harbour.jpg'],
+  coverIndex: 0,
+  location: null,
+  address: '',
+  tags: ['food', 'sunset'],
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  setEntryKey(null);
+});
+
+test('renaming a tag renames it in the diary and in the Trash', async () => {
+  const kept = await addEntry({ ...taggedEntry('Barcelona'), id: 'kept' });
+  await addEntry({ ...taggedEntry('Valencia'), id: 'trashed' });
+  await trashEntry('trashed');
+
+  expect(await renameTag('food', 'tapas')).toBe(1);
+
+  expect(await getEntry(kept.id)).toMatchObject({
+    description: 'Tapas by the harbour #tapas',
+    tags: ['tapas', 'sunset'],
+  });
+  const [trashed] = await getTrashedEntries();
+  expect(trashed.entry).toMatchObject({ description: 'Tapas by the harbour #tapas', tags: ['tapas', 'sunset'] });
+});
@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  NewTravelEntry,
+  addEntry,
+  getEntry,
+  getEntryIndex,
+  getTrashedEntries,
+  trashEntry,
+} from '../entryRepository.ts';
+import { addTrip, deleteTrip, getTrips } from '../tripRepository.ts';
+import { setEntryKey } from '../privateEntries.ts';
+
+const KEY = new Uint8Array(32).fill(7);
+
+const entryInTrip = (id: string, tripId: string, isPrivate = false): NewTravelEntry => ({
+  id,
+  title: `Entry ${id}`,
+  description: '',
+  images: ['file:///document/photos/harbour.jpg'],
+  coverIndex: 0,
+  location: null,
+  address: '',
+  tripId,
+  isPrivate,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  setEntryKey(null);
+});
+
+test('deleting a trip takes every entry out of it, even private ones while locked and ones in the Trash', async () => {
+  const trip = await addTrip({ name: 'Portugal', startDate: '2024-05-01T00:00:00.000Z', endDate: '2024-05-10T23:59:59.999Z' });
+  setEntryKey(KEY);
+  await addEntry(entryInTrip('public', trip.id));
+  await addEntry(entryInTrip('private', trip.id, true));
+  await addEntry(entryInTrip('trashed', trip.id));
+  await trashEntry('trashed');
+  setEntryKey(null);
+
+  await deleteTrip(trip.id);
+
+  expect(await getTrips()).toEqual([]);
+  expect((await getEntryIndex()).map(row => row.tripId)).toEqual([undefined]);
+  setEntryKey(KEY);
+  expect((await getEntry('public'))?.tripId).toBeUndefined();
+  const opened = await getEntry('private');
+  expect(opened?.title).toBe('Entry private');
+  expect(opened?.tripId).toBeUndefined();
+  const [trashed] = await getTrashedEntries();
+  expect(trashed.entry.tripId).toBeUndefined();
+});
@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { queueActionChanges } from './syncQueue.ts';
+
+export type PostAction = 'like' | 'share' | 'save';
+
+export type ActionState = { [entryId: string]: boolean };
+
+export type ActionStates = {
+  liked: ActionState;
+  shared: ActionState;
+  saved: ActionState;
+};
+
+export const ACTION_STORAGE_KEYS: { [action in PostAction]: string } = {
+  like: 'likedPosts',
+  share: 'sharedPosts',
+  save: 'savedPosts',
+};
+
+const parseState = (stateStr: string | null): ActionState => (stateStr ? JSON.parse(stateStr) : {});
+
+export const getActionStates = async (): Promise<ActionStates> => {
+  const [liked, shared, saved] = await Promise.all([
+    AsyncStorage.getItem(ACTION_STORAGE_KEYS.like),
+    AsyncStorage.getItem(ACTION_STORAGE_KEYS.share),
+    AsyncStorage.getItem(ACTION_STORAGE_KEYS.save),
+  ]);
+  return { liked: parseState(liked), shared: parseState(shared), saved: parseState(saved) };
+};
+
+export const setActionState = async (action: PostAction, state: ActionState) => {
+  const previous = parseState(await AsyncStorage.getItem(ACTION_STORAGE_KEYS[action]));
+  await AsyncStorage.setItem(ACTION_STORAGE_KEYS[action], JSON.stringify(state));
+  try {
+    await queueActionChanges(action, previous, state);
+  } catch (error) {
+    console.error('Error queueing sync change:', error);
+  }
+};
+
+// Writes flags pulled from the sync server without queueing them to be sent back
+export const applySyncedActionFlags = async (action: PostAction, flags: ActionState) => {
+  if (Object.keys(flags).length === 0) return;
+  const state = parseState(await AsyncStorage.getItem(ACTION_STORAGE_KEYS[action]));
+  await AsyncStorage.setItem(ACTION_STORAGE_KEYS[action], JSON.stringify({ ...state, ...flags }));
+};
+
+// Forget every like/share/save flag for an entry that no longer exists
+export const clearActionStatesForEntry = async (entryId: string) => {
+  await pruneActionStates(id => id !== entryId);
+};
+
+// Drops flags whose entry fails `keep`, e.g. ones left behind by deletions
+// made before deletes cleaned up after themselves
+export const pruneActionStates = async (keep: (entryId: string) => boolean) => {
+  const states = await getActionStates();
+  const actions: [PostAction, ActionState][] = [
+    ['like', states.liked],
+    ['share', states.shared],
+    ['save', states.saved],
+  ];
+  for (const [action, state] of actions) {
+    const ids = Object.keys(state);
+    const kept = ids.filter(keep);
+    if (kept.length !== ids.length) {
+      await setActionState(action, Object.fromEntries(kept.map(id => [id, state[id]])));
+    }
+  }
+};
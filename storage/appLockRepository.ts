@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { bytesEqual, fromHex, hmacSha256, pbkdf2Async, randomBytes, toHex, utf8Encode } from '../utils/crypto.ts';
+import { setEntryKey } from './privateEntries.ts';
+import { resealPrivateEntries, revealPrivateEntries } from './entryRepository.ts';
+
+export const APP_LOCK_KEY = 'appLock';
+export const PIN_ATTEMPTS_KEY = 'appLockAttempts';
+
+// Hashing the PIN this many times makes each guess slow. The hashing runs in
+// JavaScript, and Hermes gets through roughly 8,000 iterations a second, so
+// this keeps an unlock to a few seconds. A four-digit PIN can still be found
+// by someone holding a copy of the app's storage; the lock is meant to stop
+// someone holding the phone, and the waits after wrong PINs slow them down.
+// Locks set up with another count are moved to this one at the next unlock.
+const PIN_ITERATIONS = 20000;
+
+// Wrong PINs allowed before each further one brings a wait. The wait starts
+// at 30 seconds and doubles with every wrong PIN, up to an hour.
+const FREE_PIN_ATTEMPTS = 5;
+const BASE_PIN_DELAY_MS = 30 * 1000;
+const MAX_PIN_DELAY_MS = 60 * 60 * 1000;
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+// How long the app may sit in the background before asking for the PIN again
+export const LOCK_TIMEOUTS = [
+  { value: 0, label: 'Immediately' },
+  { value: 60 * 1000, label: '1 minute' },
+  { value: 5 * 60 * 1000, label: '5 minutes' },
+  { value: 15 * 60 * 1000, label: '15 minutes' },
+];
+
+// Kept across restarts, so closing the app doesn't reset the wait
+type PinAttempts = {
+  failures: number;
+  retryAt: number;
+};
+
+// Only a check value is stored, never the PIN or the key derived from it
+export type AppLockSettings = {
+  salt: string;
+  iterations: number;
+  verifier: string;
+  timeoutMs: number;
+};
+
+export const isValidPin = (pin: string) =>
+  new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+
+const deriveKey = (pin: string, salt: Uint8Array, iterations: number) =>
+  pbkdf2Async(utf8Encode(pin), salt, iterations, 32);
+
+const verifierFor = (key: Uint8Array) => toHex(hmacSha256(key, utf8Encode('pin-check')));
+
+// Null when no PIN is set
+export const getAppLock = async (): Promise<AppLockSettings | null> => {
+  const lockStr = await AsyncStorage.getItem(APP_LOCK_KEY);
+  return lockStr ? JSON.parse(lockStr) : null;
+};
+
+const getPinAttempts = async (): Promise<PinAttempts> => {
+  const attemptsStr = await AsyncStorage.getItem(PIN_ATTEMPTS_KEY);
+  return attemptsStr ? JSON.parse(attemptsStr) : { failures: 0, retryAt: 0 };
+};
+
+// When the next PIN may be tried, or null if it may be tried now
+export const getPinRetryAt = async (): Promise<number | null> => {
+  const { retryAt } = await getPinAttempts();
+  return retryAt > Date.now() ? retryAt : null;
+};
+
+// Returns the key for the PIN, or null if it is the wrong PIN or guesses are
+// on hold after too many wrong ones
+const checkPin = async (settings: AppLockSettings, pin: string): Promise<Uint8Array | null> => {
+  const attempts = await getPinAttempts();
+  if (attempts.retryAt > Date.now()) return null;
+  const key = await deriveKey(pin, fromHex(settings.salt), settings.iterations);
+  if (bytesEqual(fromHex(verifierFor(key)), fromHex(settings.verifier))) {
+    if (attempts.failures > 0) {
+      await AsyncStorage.removeItem(PIN_ATTEMPTS_KEY);
+    }
+    return key;
+  }
+  const failures = attempts.failures + 1;
+  const delayMs =
+    failures <= FREE_PIN_ATTEMPTS
+      ? 0
+      : Math.min(BASE_PIN_DELAY_MS * 2 ** (failures - FREE_PIN_ATTEMPTS - 1), MAX_PIN_DELAY_MS);
+  await AsyncStorage.setItem(PIN_ATTEMPTS_KEY, JSON.stringify({ failures, retryAt: Date.now() + delayMs }));
+  return null;
+};
+
+const newLock = async (pin: string, timeoutMs: number) => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(pin, salt, PIN_ITERATIONS);
+  const settings: AppLockSettings = { salt: toHex(salt), iterations: PIN_ITERATIONS, verifier: verifierFor(key), timeoutMs };
+  return { settings, key };
+};
+
+// Opening the camera or photo library sends the app to the background on
+// Android, so by default it may be away for a minute before locking
+export const DEFAULT_LOCK_TIMEOUT = LOCK_TIMEOUTS[1].value;
+
+// Turns the lock on. The app counts as unlocked afterwards.
+export const setUpPin = async (pin: string, timeoutMs = DEFAULT_LOCK_TIMEOUT) => {
+  const { settings, key } = await newLock(pin, timeoutMs);
+  await AsyncStorage.setItem(APP_LOCK_KEY, JSON.stringify(settings));
+  setEntryKey(key);
+};
+
+// Private entries are re-encrypted with the new lock's key and saved in the
+// same write as the new lock, so a crash can't leave them under a key nobody
+// knows
+const replaceLock = async (oldKey: Uint8Array, pin: string, timeoutMs: number) => {
+  const { settings, key } = await newLock(pin, timeoutMs);
+  const entryWrites = await resealPrivateEntries(oldKey, key);
+  await AsyncStorage.multiSet([...entryWrites, [APP_LOCK_KEY, JSON.stringify(settings)]]);
+  setEntryKey(key);
+};
+
+// Opens private entries when the PIN is right. Returns whether it was; it
+// is also false while guesses are on hold, see getPinRetryAt.
+export const unlockApp = async (pin: string): Promise<boolean> => {
+  const current = await getAppLock();
+  if (!current) return true;
+  const key = await checkPin(current, pin);
+  if (!key) return false;
+  if (current.iterations !== PIN_ITERATIONS) {
+    await replaceLock(key, pin, current.timeoutMs);
+  } else {
+    setEntryKey(key);
+  }
+  return true;
+};
+
+// Private entries can't be read or saved again until the next unlock
+export const lockApp = () => {
+  setEntryKey(null);
+};
+
+// Returns false if the current PIN is wrong or guesses are on hold
+export const changePin = async (currentPin: string, newPin: string): Promise<boolean> => {
+  const current = await getAppLock();
+  if (!current) return false;
+  const oldKey = await checkPin(current, currentPin);
+  if (!oldKey) return false;
+  await replaceLock(oldKey, newPin, current.timeoutMs);
+  return true;
+};
+
+// Turns the lock off. Private entries become ordinary entries, since there
+// is no PIN left to protect them. Returns false if the PIN is wrong or
+// guesses are on hold.
+export const removePin = async (pin: string): Promise<boolean> => {
+  const current = await getAppLock();
+  if (!current) return true;
+  const key = await checkPin(current, pin);
+  if (!key) return false;
+  setEntryKey(key);
+  await revealPrivateEntries();
+  await AsyncStorage.removeItem(APP_LOCK_KEY);
+  setEntryKey(null);
+  return true;
+};
+
+export const saveLockTimeout = async (timeoutMs: number) => {
+  const current = await getAppLock();
+  if (!current) return;
+  await AsyncStorage.setItem(APP_LOCK_KEY, JSON.stringify({ ...current, timeoutMs }));
+};
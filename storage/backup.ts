@@ -0,0 +1,555 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import { isRunningInExpoGo } from 'expo';
+import { TravelEntry, getEntries, getTrashedEntries, replaceEntries, restoreEntry } from './entryRepository.ts';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from './migrations.ts';
+import { CommentsByEntry, EntryComment, getAllComments, replaceAllComments } from './commentRepository.ts';
+import { ActionState, ActionStates, getActionStates, setActionState } from './actionStateRepository.ts';
+import { Trip, getTrips, replaceTrips } from './tripRepository.ts';
+import { Collection, getCollections, replaceCollections } from './collectionRepository.ts';
+import { savePhotoData } from './photoStore.ts';
+import { Profile, getProfile, parseProfile, saveProfile } from './profileRepository.ts';
+import { KnownPlace, getHomePlace, saveHomePlace } from './placeRepository.ts';
+import { ACCENT_KEY, THEME_KEY } from '../context/ThemeContext.tsx';
+import { ByteRange, readText, scanJsonFile } from '../utils/jsonFile.ts';
+
+export const BACKUP_FORMAT = 'travel-diary-backup';
+// Bump when the archive layout changes; older archives must stay readable
+export const BACKUP_VERSION = 1;
+
+const BACKUP_DIR = `${FileSystem.documentDirectory}backups/`;
+
+type BackupPhoto = {
+  fileName: string;
+  // Base64 file contents
+  data: string;
+};
+
+// One self-contained JSON file. Photo URIs in entries and trip covers are
+// replaced by keys into `photos`, which holds the image bytes.
+export type BackupArchive = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersion: number;
+  // Written at schemaVersion; migrated and checked before restoring
+  entries: unknown[];
+  photos: { [key: string]: BackupPhoto };
+  comments: CommentsByEntry;
+  actionStates: ActionStates;
+  trips: Trip[];
+  collections: Collection[];
+  theme: string | null;
+  accent: string | null;
+  // The avatar, like other photos, is a key into `photos`
+  profile: Profile | null;
+  homePlace: KnownPlace | null;
+};
+
+// A photo in an opened archive. Its data stays in the file until it is
+// restored, so opening a large backup doesn't load every photo.
+type ArchivedPhoto = {
+  fileName: string;
+  data: ByteRange;
+};
+
+// An archive as readBackup returns it, every section checked
+export type OpenedBackup = Omit<BackupArchive, 'photos'> & {
+  uri: string;
+  photos: { [key: string]: ArchivedPhoto };
+};
+
+export type ExportResult = {
+  uri: string;
+  entryCount: number;
+  photoCount: number;
+  // Photos whose files could no longer be read; entries keep the old URI
+  missingPhotos: string[];
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type FailedEntry = {
+  label: string;
+  reason: string;
+};
+
+export type RestoreReport = {
+  mode: RestoreMode;
+  restored: number;
+  // Merge only: entries where the copy on this device was newer
+  keptLocal: number;
+  // Private entries on this device; backups never hold them, so they stay
+  keptPrivate: number;
+  failed: FailedEntry[];
+};
+
+export class BackupError extends Error {}
+
+const fileNameFromUri = (uri: string) => uri.split('/').pop()?.split('?')[0] || 'photo.jpg';
+
+const timestampForFileName = (date: Date) =>
+  date.toISOString().slice(0, 16).replace(/[-:T]/g, '');
+
+type ArchiveWriter = {
+  write: (text: string) => void;
+  close: () => Promise<void>;
+  // Closes and deletes a half-written archive
+  discard: () => Promise<void>;
+};
+
+// Writes the archive a piece at a time, so only one photo is held in memory.
+// Expo Go doesn't include the file handles this needs; there the pieces are
+// joined and written at the end.
+const openArchive = (uri: string): ArchiveWriter => {
+  if (isRunningInExpoGo()) {
+    const pieces: string[] = [];
+    return {
+      write: text => {
+        pieces.push(text);
+      },
+      close: () => FileSystem.writeAsStringAsync(uri, pieces.join('')),
+      discard: async () => {
+        pieces.length = 0;
+      },
+    };
+  }
+  const file = new File(uri);
+  if (file.exists) file.delete();
+  file.create();
+  const handle = file.open();
+  const encoder = new TextEncoder();
+  return {
+    write: text => handle.writeBytes(encoder.encode(text)),
+    close: async () => handle.close(),
+    discard: async () => {
+      handle.close();
+      file.delete();
+    },
+  };
+};
+
+// Notes and flags, keyed by entry id, of only the given entries
+const forEntries = <T>(byEntry: { [entryId: string]: T }, ids: Set<string>) =>
+  Object.fromEntries(Object.entries(byEntry).filter(([id]) => ids.has(id)));
+
+export const createBackup = async (): Promise<ExportResult> => {
+  const [allEntries, comments, actionStates, trips, collections, theme, accent, profile, homePlace] = await Promise.all([
+    getEntries(),
+    getAllComments(),
+    getActionStates(),
+    getTrips(),
+    getCollections(),
+    AsyncStorage.getItem(THEME_KEY),
+    AsyncStorage.getItem(ACCENT_KEY),
+    getProfile(),
+    getHomePlace(),
+  ]);
+
+  // Private entries never leave the device in readable form, and neither do
+  // their notes, flags or places in collections
+  const entries = allEntries.filter(entry => !entry.isPrivate);
+  const exportedIds = new Set(entries.map(entry => entry.id));
+
+  const createdAt = new Date();
+  await FileSystem.makeDirectoryAsync(BACKUP_DIR, { intermediates: true });
+  const uri = `${BACKUP_DIR}travel-diary-${timestampForFileName(createdAt)}.json`;
+  const archive = openArchive(uri);
+
+  const keysByUri = new Map<string, string>();
+  const missingPhotos: string[] = [];
+
+  // Reads each distinct photo once, however many entries use it, and writes
+  // it straight into the archive's `photos`
+  const packPhoto = async (uri: string): Promise<string> => {
+    const known = keysByUri.get(uri);
+    if (known) return known;
+    try {
+      const data = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+      const key = `photo-${keysByUri.size + 1}`;
+      const photo: BackupPhoto = { fileName: fileNameFromUri(uri), data };
+      archive.write(`${keysByUri.size > 0 ? ',' : ''}${JSON.stringify(key)}:${JSON.stringify(photo)}`);
+      keysByUri.set(uri, key);
+      return key;
+    } catch (error) {
+      console.error('Error reading photo for backup:', error);
+      if (!missingPhotos.includes(uri)) missingPhotos.push(uri);
+      return uri;
+    }
+  };
+
+  try {
+    const header: Pick<BackupArchive, 'format' | 'version' | 'createdAt' | 'schemaVersion'> = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: createdAt.toISOString(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    };
+    // Photos come first, written as they are read; everything else follows
+    archive.write(`${JSON.stringify(header).slice(0, -1)},"photos":{`);
+
+    const packedEntries: TravelEntry[] = [];
+    for (const entry of entries) {
+      const images: string[] = [];
+      for (const uri of entry.images) {
+        images.push(await packPhoto(uri));
+      }
+      packedEntries.push({ ...entry, images });
+    }
+
+    const packedTrips: Trip[] = [];
+    for (const trip of trips) {
+      packedTrips.push(trip.coverImage ? { ...trip, coverImage: await packPhoto(trip.coverImage) } : trip);
+    }
+
+    const packedProfile = profile.avatarUri ? { ...profile, avatarUri: await packPhoto(profile.avatarUri) } : profile;
+
+    const rest: Omit<BackupArchive, keyof typeof header | 'photos'> = {
+      entries: packedEntries,
+      comments: forEntries(comments, exportedIds),
+      actionStates: {
+        liked: forEntries(actionStates.liked, exportedIds),
+        shared: forEntries(actionStates.shared, exportedIds),
+        saved: forEntries(actionStates.saved, exportedIds),
+      },
+      trips: packedTrips,
+      collections: collections.map(collection => ({
+        ...collection,
+        entryIds: collection.entryIds.filter(id => exportedIds.has(id)),
+      })),
+      theme,
+      accent,
+      profile: packedProfile,
+      homePlace,
+    };
+    archive.write(`},${JSON.stringify(rest).slice(1)}`);
+    await archive.close();
+  } catch (error) {
+    await archive.discard();
+    throw error;
+  }
+
+  return { uri, entryCount: entries.length, photoCount: keysByUri.size, missingPhotos };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptionalString = (value: unknown) => value === undefined || isString(value);
+
+const isComment = (value: unknown): value is EntryComment =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.entryId) &&
+  isString(value.text) &&
+  isString(value.createdAt) &&
+  isOptionalString(value.updatedAt);
+
+const isComments = (value: unknown): value is CommentsByEntry =>
+  isRecord(value) && Object.values(value).every(comments => Array.isArray(comments) && comments.every(isComment));
+
+const isFlags = (value: unknown): value is ActionState =>
+  isRecord(value) && Object.values(value).every(flag => typeof flag === 'boolean');
+
+const isTrip = (value: unknown): value is Trip =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.startDate) &&
+  isString(value.endDate) &&
+  isOptionalString(value.coverImage) &&
+  isOptionalString(value.description);
+
+const isCollection = (value: unknown): value is Collection =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.createdAt) &&
+  Array.isArray(value.entryIds) &&
+  value.entryIds.every(isString);
+
+const isKnownPlace = (value: unknown): value is KnownPlace =>
+  isRecord(value) &&
+  isString(value.label) &&
+  isRecord(value.place) &&
+  (value.coords === null ||
+    (isRecord(value.coords) && typeof value.coords.latitude === 'number' && typeof value.coords.longitude === 'number'));
+
+const isPhotoData = (path: string[]) => path.length === 3 && path[0] === 'photos' && path[2] === 'data';
+
+// Parses and checks an archive without touching stored data. Every section is
+// checked here, so a damaged archive fails before a restore writes anything.
+// Photo data is left in the file; see ArchivedPhoto.
+export const readBackup = async (uri: string): Promise<OpenedBackup> => {
+  let parsed: unknown;
+  let photoData: Map<string, ByteRange>;
+  try {
+    const scanned = await scanJsonFile(uri, isPhotoData);
+    parsed = scanned.value;
+    photoData = new Map(scanned.skipped.map(({ path, range }) => [path[1], range]));
+  } catch (error) {
+    console.error('Error reading backup:', error);
+    throw new BackupError('This file could not be read as a diary backup.');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new BackupError('This file is not a travel diary backup.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the app. Please update the app and try again.');
+  }
+
+  // A missing section is empty; one that is there but can't be read fails
+  // the whole backup
+  const section = <T>(name: string, value: unknown, isValid: (value: unknown) => value is T, empty: T): T => {
+    if (value === undefined || value === null) return empty;
+    if (!isValid(value)) {
+      throw new BackupError(`This backup is damaged: its ${name} can't be read.`);
+    }
+    return value;
+  };
+
+  const photos: OpenedBackup['photos'] = {};
+  Object.entries(section('photos', parsed.photos, isRecord, {})).forEach(([key, photo]) => {
+    const data = photoData.get(key);
+    if (!isRecord(photo) || !isString(photo.fileName) || !data) {
+      throw new BackupError('This backup is damaged: its photos can\'t be read.');
+    }
+    photos[key] = { fileName: photo.fileName, data };
+  });
+
+  const actionStates = section('likes and bookmarks', parsed.actionStates, isRecord, {});
+  const isTrips = (value: unknown): value is Trip[] => Array.isArray(value) && value.every(isTrip);
+  const isCollections = (value: unknown): value is Collection[] => Array.isArray(value) && value.every(isCollection);
+
+  // Entries are checked field by field when restored, so one bad entry
+  // doesn't stop the rest
+  return {
+    uri,
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+    schemaVersion: typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : CURRENT_SCHEMA_VERSION,
+    entries: parsed.entries,
+    photos,
+    comments: section('notes', parsed.comments, isComments, {}),
+    actionStates: {
+      liked: section('likes', actionStates.liked, isFlags, {}),
+      shared: section('shares', actionStates.shared, isFlags, {}),
+      saved: section('bookmarks', actionStates.saved, isFlags, {}),
+    },
+    trips: section('trips', parsed.trips, isTrips, []),
+    collections: section('collections', parsed.collections, isCollections, []),
+    theme: section('theme', parsed.theme, isString, null),
+    accent: section('accent colour', parsed.accent, isString, null),
+    profile: parsed.profile ? parseProfile(parsed.profile) : null,
+    homePlace: section('home place', parsed.homePlace, isKnownPlace, null),
+  };
+};
+
+const describeRaw = (raw: unknown, index: number) =>
+  isRecord(raw) && typeof raw.title === 'string' && raw.title.trim()
+    ? raw.title
+    : `Entry ${index + 1}`;
+
+const entryTime = (entry: TravelEntry) => new Date(entry.updatedAt ?? entry.date).getTime();
+
+export const restoreBackup = async (archive: OpenedBackup, mode: RestoreMode): Promise<RestoreReport> => {
+  const failed: FailedEntry[] = [];
+
+  // Archives from older builds go through the same migrations as stored
+  // data, which also turn away entries that don't fit the schema
+  const { entries: migrated, report } = runMigrations(archive.entries, archive.schemaVersion);
+  report.quarantined.forEach((item, index) => {
+    failed.push({ label: describeRaw(item.raw, index), reason: item.reason });
+  });
+
+  const [localEntries, trashed] = await Promise.all([getEntries(), getTrashedEntries()]);
+  const privateEntries = localEntries.filter(entry => entry.isPrivate);
+  // An entry made private after the backup was taken keeps its private copy
+  const privateIds = new Set([
+    ...privateEntries.map(entry => entry.id),
+    ...trashed.filter(t => t.entry.isPrivate).map(t => t.entry.id),
+  ]);
+
+  const valid = migrated.filter(entry => !privateIds.has(entry.id));
+
+  // Keys come from the file, so only the archive's own photos count
+  const findPhoto = (key: string) => (Object.hasOwn(archive.photos, key) ? archive.photos[key] : undefined);
+
+  // Only unpack photos that a restored entry or trip actually uses. Trips get
+  // their own copies so deleting a trip never removes an entry's photo.
+  const unpackPhoto = async (key: string, restoredUris: Map<string, string>): Promise<string> => {
+    const photo = findPhoto(key);
+    if (!photo) return key;
+    const known = restoredUris.get(key);
+    if (known) return known;
+    const uri = await savePhotoData(await readText(archive.uri, photo.data), photo.fileName);
+    restoredUris.set(key, uri);
+    return uri;
+  };
+  const entryPhotos = new Map<string, string>();
+  const tripPhotos = new Map<string, string>();
+
+  const incomingEntries: TravelEntry[] = [];
+  for (const entry of valid) {
+    try {
+      const images: string[] = [];
+      for (const key of entry.images) {
+        images.push(await unpackPhoto(key, entryPhotos));
+      }
+      // Photos that were already gone when the backup was made
+      const missing = entry.images.filter(key => !findPhoto(key));
+      incomingEntries.push({ ...entry, images, missingPhotos: missing.length > 0 ? missing : undefined });
+    } catch (error) {
+      console.error('Error restoring photo:', error);
+      failed.push({ label: entry.title || entry.id, reason: 'Photo could not be restored' });
+    }
+  }
+
+  const incomingTrips: Trip[] = [];
+  for (const trip of archive.trips) {
+    try {
+      incomingTrips.push(trip.coverImage ? { ...trip, coverImage: await unpackPhoto(trip.coverImage, tripPhotos) } : trip);
+    } catch (error) {
+      console.error('Error restoring trip cover:', error);
+      incomingTrips.push({ ...trip, coverImage: undefined });
+    }
+  }
+
+  // The avatar gets its own copy so changing it never removes an entry's photo
+  const restoreProfile = async (profile: Profile) => {
+    let avatarUri: string | null = null;
+    // A key with no photo behind it means the avatar was missing at backup time
+    if (profile.avatarUri && findPhoto(profile.avatarUri)) {
+      try {
+        avatarUri = await unpackPhoto(profile.avatarUri, new Map());
+      } catch (error) {
+        console.error('Error restoring profile photo:', error);
+      }
+    }
+    await saveProfile({ ...profile, avatarUri });
+  };
+
+  const restoredIds = new Set(incomingEntries.map(entry => entry.id));
+
+  // An entry can't be in the Trash and the diary at once, so restored ones
+  // come out of the Trash first; in a merge the newer copy still wins
+  for (const { entry } of trashed.filter(t => restoredIds.has(t.entry.id))) {
+    await restoreEntry(entry.id);
+  }
+
+  const keepRestored = <T>(byEntry: { [entryId: string]: T }) => forEntries(byEntry, restoredIds);
+  const incomingComments: CommentsByEntry = keepRestored(archive.comments);
+  const incomingCollections = archive.collections.map(collection => ({
+    ...collection,
+    entryIds: collection.entryIds.filter(id => restoredIds.has(id)),
+  }));
+
+  if (mode === 'replace') {
+    // Private entries stay, with their notes, flags and collection slots
+    const [comments, actionStates, collections] = await Promise.all([
+      getAllComments(),
+      getActionStates(),
+      getCollections(),
+    ]);
+    const keptIds = new Set(privateEntries.map(entry => entry.id));
+    const keepPrivate = <T>(byEntry: { [entryId: string]: T }) => forEntries(byEntry, keptIds);
+    const keepPrivateFlags = (local: { [id: string]: boolean }, incoming: { [id: string]: boolean }) => ({
+      ...keepPrivate(local),
+      ...keepRestored(incoming),
+    });
+    await replaceEntries([...incomingEntries, ...privateEntries]);
+    await replaceAllComments({ ...keepPrivate(comments), ...incomingComments });
+    await setActionState('like', keepPrivateFlags(actionStates.liked, archive.actionStates.liked));
+    await setActionState('share', keepPrivateFlags(actionStates.shared, archive.actionStates.shared));
+    await setActionState('save', keepPrivateFlags(actionStates.saved, archive.actionStates.saved));
+    await replaceTrips(incomingTrips);
+    await replaceCollections(
+      incomingCollections.map(collection => {
+        const local = collections.find(existing => existing.id === collection.id);
+        const privateSlots = local ? local.entryIds.filter(id => keptIds.has(id)) : [];
+        return { ...collection, entryIds: [...collection.entryIds, ...privateSlots] };
+      })
+    );
+    if (archive.theme) {
+      await AsyncStorage.setItem(THEME_KEY, archive.theme);
+    }
+    if (archive.accent) {
+      await AsyncStorage.setItem(ACCENT_KEY, archive.accent);
+    }
+    if (archive.profile) {
+      await restoreProfile(archive.profile);
+    }
+    if (archive.homePlace?.coords) {
+      await saveHomePlace(archive.homePlace.place, archive.homePlace.coords);
+    }
+    return { mode, restored: incomingEntries.length, keptLocal: 0, keptPrivate: privateEntries.length, failed };
+  }
+
+  // Merge: the newer copy of an entry wins; notes, flags, trips and
+  // collections are combined. The theme and profile on this device are left
+  // alone.
+  const [entries, comments, actionStates, trips, collections] = await Promise.all([
+    getEntries(),
+    getAllComments(),
+    getActionStates(),
+    getTrips(),
+    getCollections(),
+  ]);
+
+  const merged = [...entries];
+  let restored = 0;
+  let keptLocal = 0;
+  incomingEntries.forEach(entry => {
+    const index = merged.findIndex(existing => existing.id === entry.id);
+    if (index === -1) {
+      merged.push(entry);
+      restored++;
+    } else if (entryTime(entry) > entryTime(merged[index])) {
+      merged[index] = entry;
+      restored++;
+    } else {
+      keptLocal++;
+    }
+  });
+
+  const mergedComments: CommentsByEntry = { ...comments };
+  Object.entries(incomingComments).forEach(([entryId, incoming]) => {
+    const existing = mergedComments[entryId] ?? [];
+    const existingIds = new Set(existing.map(comment => comment.id));
+    mergedComments[entryId] = [...existing, ...incoming.filter(comment => !existingIds.has(comment.id))];
+  });
+
+  const mergeFlags = (local: { [id: string]: boolean }, incoming: { [id: string]: boolean }) => ({
+    ...local,
+    ...Object.fromEntries(Object.entries(keepRestored(incoming)).filter(([, value]) => value)),
+  });
+
+  const mergedCollections = [...collections];
+  incomingCollections.forEach(collection => {
+    const index = mergedCollections.findIndex(existing => existing.id === collection.id);
+    if (index === -1) {
+      mergedCollections.push(collection);
+    } else {
+      const existing = mergedCollections[index];
+      mergedCollections[index] = {
+        ...existing,
+        entryIds: [...existing.entryIds, ...collection.entryIds.filter(id => !existing.entryIds.includes(id))],
+      };
+    }
+  });
+
+  await replaceEntries(merged);
+  await replaceAllComments(mergedComments);
+  await setActionState('like', mergeFlags(actionStates.liked, archive.actionStates.liked));
+  await setActionState('share', mergeFlags(actionStates.shared, archive.actionStates.shared));
+  await setActionState('save', mergeFlags(actionStates.saved, archive.actionStates.saved));
+  await replaceTrips([...trips, ...incomingTrips.filter(trip => !trips.some(existing => existing.id === trip.id))]);
+  await replaceCollections(mergedCollections);
+
+  return { mode, restored, keptLocal, keptPrivate: privateEntries.length, failed };
+};
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const COLLECTIONS_KEY = 'savedCollections';
+
+// A named group of saved entries, e.g. "Places to revisit". An entry can be
+// in any number of collections; the array order is the display order.
+export type Collection = {
+  id: string;
+  name: string;
+  entryIds: string[];
+  createdAt: string;
+};
+
+const writeCollections = async (collections: Collection[]) => {
+  await AsyncStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+};
+
+const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+export const getCollections = async (): Promise<Collection[]> => {
+  const collectionsStr = await AsyncStorage.getItem(COLLECTIONS_KEY);
+  return collectionsStr ? JSON.parse(collectionsStr) : [];
+};
+
+export const addCollection = async (name: string): Promise<Collection> => {
+  const collections = await getCollections();
+  const collection: Collection = {
+    id: Date.now().toString(),
+    name: name.trim(),
+    entryIds: [],
+    createdAt: new Date().toISOString(),
+  };
+  await writeCollections([...collections, collection]);
+  return collection;
+};
+
+export const replaceCollections = async (collections: Collection[]) => {
+  await writeCollections(collections);
+};
+
+export const renameCollection = async (id: string, name: string) => {
+  const collections = await getCollections();
+  await writeCollections(
+    collections.map(collection => (collection.id === id ? { ...collection, name: name.trim() } : collection))
+  );
+};
+
+export const deleteCollection = async (id: string) => {
+  const collections = await getCollections();
+  await writeCollections(collections.filter(collection => collection.id !== id));
+};
+
+export const moveCollection = async (id: string, offset: number): Promise<Collection[]> => {
+  const collections = await getCollections();
+  const index = collections.findIndex(collection => collection.id === id);
+  const moved = moveItem(collections, index, index + offset);
+  await writeCollections(moved);
+  return moved;
+};
+
+export const moveEntryInCollection = async (collectionId: string, entryId: string, offset: number) => {
+  const collections = await getCollections();
+  await writeCollections(
+    collections.map(collection => {
+      if (collection.id !== collectionId) return collection;
+      const index = collection.entryIds.indexOf(entryId);
+      return { ...collection, entryIds: moveItem(collection.entryIds, index, index + offset) };
+    })
+  );
+};
+
+// Puts the entry in exactly the given collections, appending it where new
+export const setEntryCollections = async (entryId: string, collectionIds: string[]) => {
+  const collections = await getCollections();
+  await writeCollections(
+    collections.map(collection => {
+      const wanted = collectionIds.includes(collection.id);
+      const present = collection.entryIds.includes(entryId);
+      if (wanted && !present) return { ...collection, entryIds: [...collection.entryIds, entryId] };
+      if (!wanted && present) return { ...collection, entryIds: collection.entryIds.filter(id => id !== entryId) };
+      return collection;
+    })
+  );
+};
+
+export const removeEntryFromCollections = async (entryId: string) => {
+  await pruneCollections(id => id !== entryId);
+};
+
+export const pruneCollections = async (keep: (entryId: string) => boolean) => {
+  const collections = await getCollections();
+  const pruned = collections.map(collection => ({
+    ...collection,
+    entryIds: collection.entryIds.filter(keep),
+  }));
+  if (pruned.some((collection, i) => collection.entryIds.length !== collections[i].entryIds.length)) {
+    await writeCollections(pruned);
+  }
+};
@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const COMMENTS_KEY = 'travelEntryComments';
+// Pre-comments builds only stored a per-entry boolean under this key
+export const LEGACY_COMMENTED_KEY = 'commentedPosts';
+
+// A follow-up note added to an entry after the trip
+export type EntryComment = {
+  id: string;
+  entryId: string;
+  text: string;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+export type CommentsByEntry = { [entryId: string]: EntryComment[] };
+
+let initPromise: Promise<void> | null = null;
+
+// The old `commentedPosts` flags never captured any text. Each entry that was
+// flagged gets a note saying so, which keeps its comment icon filled in. The
+// key is only dropped once the notes are written; a rerun after a failure
+// doesn't add a second note.
+const LEGACY_COMMENT_TEXT = 'Commented on in an earlier version of the app.';
+
+const migrateLegacyFlags = async () => {
+  const legacy = await AsyncStorage.getItem(LEGACY_COMMENTED_KEY);
+  if (legacy === null) return;
+
+  let flags: { [entryId: string]: boolean } = {};
+  try {
+    flags = JSON.parse(legacy) ?? {};
+  } catch (error) {
+    console.error('Error reading legacy comment flags:', error);
+  }
+
+  const existing = await AsyncStorage.getItem(COMMENTS_KEY);
+  const comments: CommentsByEntry = existing ? JSON.parse(existing) : {};
+  const createdAt = new Date().toISOString();
+  Object.keys(flags)
+    .filter(entryId => flags[entryId] === true)
+    .forEach(entryId => {
+      const id = `legacy-${entryId}`;
+      const entryComments = comments[entryId] ?? [];
+      if (entryComments.some(comment => comment.id === id)) return;
+      comments[entryId] = [{ id, entryId, text: LEGACY_COMMENT_TEXT, createdAt }, ...entryComments];
+    });
+  await AsyncStorage.setItem(COMMENTS_KEY, JSON.stringify(comments));
+  await AsyncStorage.removeItem(LEGACY_COMMENTED_KEY);
+};
+
+export const initCommentStorage = (): Promise<void> => {
+  if (!initPromise) {
+    initPromise = migrateLegacyFlags().catch((error) => {
+      initPromise = null;
+      throw error;
+    });
+  }
+  return initPromise;
+};
+
+const readComments = async (): Promise<CommentsByEntry> => {
+  await initCommentStorage();
+  const commentsStr = await AsyncStorage.getItem(COMMENTS_KEY);
+  return commentsStr ? JSON.parse(commentsStr) : {};
+};
+
+const writeComments = async (comments: CommentsByEntry) => {
+  await AsyncStorage.setItem(COMMENTS_KEY, JSON.stringify(comments));
+};
+
+export const getAllComments = async (): Promise<CommentsByEntry> => readComments();
+
+// Overwrites every note, e.g. when restoring a backup
+export const replaceAllComments = async (comments: CommentsByEntry) => {
+  await initCommentStorage();
+  await writeComments(comments);
+};
+
+export const getComments = async (entryId: string): Promise<EntryComment[]> => {
+  const comments = await readComments();
+  return comments[entryId] ?? [];
+};
+
+export const addComment = async (entryId: string, text: string): Promise<EntryComment> => {
+  const comments = await readComments();
+  const comment: EntryComment = {
+    id: Date.now().toString(),
+    entryId,
+    text: text.trim(),
+    createdAt: new Date().toISOString(),
+  };
+  await writeComments({
+    ...comments,
+    [entryId]: [...(comments[entryId] ?? []), comment],
+  });
+  return comment;
+};
+
+export const updateComment = async (
+  entryId: string,
+  commentId: string,
+  text: string
+): Promise<EntryComment> => {
+  const comments = await readComments();
+  const entryComments = comments[entryId] ?? [];
+  const existing = entryComments.find(comment => comment.id === commentId);
+  if (!existing) {
+    throw new Error(`Comment ${commentId} not found`);
+  }
+  const updated = { ...existing, text: text.trim(), updatedAt: new Date().toISOString() };
+  await writeComments({
+    ...comments,
+    [entryId]: entryComments.map(comment => (comment.id === commentId ? updated : comment)),
+  });
+  return updated;
+};
+
+export const deleteComment = async (entryId: string, commentId: string): Promise<EntryComment[]> => {
+  const comments = await readComments();
+  const remaining = (comments[entryId] ?? []).filter(comment => comment.id !== commentId);
+  await writeComments({ ...comments, [entryId]: remaining });
+  return remaining;
+};
+
+export const deleteCommentsForEntry = async (entryId: string) => {
+  const comments = await readComments();
+  if (!(entryId in comments)) return;
+  const { [entryId]: _removed, ...rest } = comments;
+  await writeComments(rest);
+};
@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SyncField } from './syncQueue.ts';
+
+export const CONFLICT_LOG_KEY = 'syncConflictLog';
+
+const MAX_CONFLICTS = 200;
+
+// A field two devices changed without seeing each other's edit. The later
+// edit was kept; the other value is recorded here so it isn't lost silently.
+export type SyncConflict = {
+  id: string;
+  entryId: string;
+  entryTitle: string;
+  field: SyncField;
+  // Which device's value survived
+  winner: 'local' | 'remote';
+  keptValue: unknown;
+  discardedValue: unknown;
+  resolvedAt: string;
+};
+
+// Newest first
+export const getConflicts = async (): Promise<SyncConflict[]> => {
+  const logStr = await AsyncStorage.getItem(CONFLICT_LOG_KEY);
+  return logStr ? JSON.parse(logStr) : [];
+};
+
+export const addConflicts = async (conflicts: Omit<SyncConflict, 'id' | 'resolvedAt'>[]) => {
+  if (conflicts.length === 0) return;
+  const resolvedAt = new Date().toISOString();
+  const logged = conflicts.map((conflict, index) => ({
+    ...conflict,
+    id: `${Date.now()}-${index}`,
+    resolvedAt,
+  }));
+  const existing = await getConflicts();
+  await AsyncStorage.setItem(CONFLICT_LOG_KEY, JSON.stringify([...logged, ...existing].slice(0, MAX_CONFLICTS)));
+};
+
+// Drops what the log holds of entries made private, whose text must not
+// stay readable here
+export const removeConflictsForEntries = async (entryIds: string[]) => {
+  if (entryIds.length === 0) return;
+  const removed = new Set(entryIds);
+  const existing = await getConflicts();
+  const kept = existing.filter(conflict => !removed.has(conflict.entryId));
+  if (kept.length === existing.length) return;
+  await AsyncStorage.setItem(CONFLICT_LOG_KEY, JSON.stringify(kept));
+};
+
+export const clearConflicts = async () => {
+  await AsyncStorage.removeItem(CONFLICT_LOG_KEY);
+};
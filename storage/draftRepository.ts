@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import {
+  EntryPlace,
+  LocationSource,
+  MetadataSource,
+  getEntries,
+  getTrashedEntries,
+} from './entryRepository.ts';
+import { deletePhotos } from './photoStore.ts';
+
+export const DRAFTS_KEY = 'entryDrafts';
+
+// An unfinished new entry, autosaved while the user types. Unlike entries a
+// draft may have no photos or title yet. It becomes an entry on Share.
+export type EntryDraft = {
+  id: string;
+  title: string;
+  description: string;
+  // Hand-added tags; hashtags stay in the description
+  tags?: string[];
+  images: string[];
+  coverIndex: number;
+  location: Location.LocationObject | null;
+  address: string;
+  place?: EntryPlace;
+  locationSource?: LocationSource;
+  // The chosen entry date; unset means "when shared"
+  date?: string;
+  dateSource?: MetadataSource;
+  tripId?: string;
+  // Whether the trip was picked by hand rather than defaulted from the date
+  tripTouched?: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DraftInput = Omit<EntryDraft, 'createdAt' | 'updatedAt'>;
+
+export const newDraftId = () => `draft-${Date.now()}`;
+
+const readDrafts = async (): Promise<EntryDraft[]> => {
+  const draftsStr = await AsyncStorage.getItem(DRAFTS_KEY);
+  return draftsStr ? JSON.parse(draftsStr) : [];
+};
+
+const writeDrafts = async (drafts: EntryDraft[]) => {
+  await AsyncStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+};
+
+// Draft photos live in the photo store too. Only delete the ones no entry or
+// other draft still uses, e.g. after a draft was shared as an entry.
+const deleteUnusedPhotos = async (uris: string[], remainingDrafts: EntryDraft[]) => {
+  const [entries, trash] = await Promise.all([getEntries(), getTrashedEntries()]);
+  const inUse = new Set([
+    ...entries.flatMap(entry => entry.images),
+    ...trash.flatMap(trashed => trashed.entry.images),
+    ...remainingDrafts.flatMap(draft => draft.images),
+  ]);
+  await deletePhotos(uris.filter(uri => !inUse.has(uri)));
+};
+
+// Most recently edited first
+export const getDrafts = async (): Promise<EntryDraft[]> => {
+  const drafts = await readDrafts();
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getDraft = async (id: string): Promise<EntryDraft | undefined> => {
+  const drafts = await readDrafts();
+  return drafts.find(draft => draft.id === id);
+};
+
+// Creates the draft or overwrites it, keyed by id
+export const saveDraft = async (input: DraftInput): Promise<EntryDraft> => {
+  const drafts = await readDrafts();
+  const existing = drafts.find(draft => draft.id === input.id);
+  const now = new Date().toISOString();
+  const draft: EntryDraft = { ...input, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  const updated = [...drafts.filter(d => d.id !== input.id), draft];
+  await writeDrafts(updated);
+  if (existing) {
+    await deleteUnusedPhotos(existing.images.filter(uri => !draft.images.includes(uri)), updated);
+  }
+  return draft;
+};
+
+// Its photos go too unless `keepPhotos` is set, e.g. when the form still
+// showing them carries on as a private entry
+export const deleteDraft = async (id: string, { keepPhotos = false } = {}) => {
+  const drafts = await readDrafts();
+  const deleted = drafts.find(draft => draft.id === id);
+  if (!deleted) return;
+  const remaining = drafts.filter(draft => draft.id !== id);
+  await writeDrafts(remaining);
+  if (!keepPhotos) {
+    await deleteUnusedPhotos(deleted.images, remaining);
+  }
+};
+
+export const isDraftEmpty = (draft: Pick<EntryDraft, 'images' | 'title' | 'description'>) =>
+  draft.images.length === 0 && !draft.title.trim() && !draft.description.trim();
@@ -0,0 +1,688 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  MigrationReport,
+  QuarantinedEntry,
+  runMigrations,
+} from './migrations.ts';
+import { deleteCommentsForEntry } from './commentRepository.ts';
+import { clearActionStatesForEntry } from './actionStateRepository.ts';
+import { removeEntryFromCollections } from './collectionRepository.ts';
+import { deletePhotos, getThumbnailUri } from './photoStore.ts';
+import { EntryChange, dropQueuedEntries, queueEntryChange, queueEntryChanges } from './syncQueue.ts';
+import { removeConflictsForEntries } from './conflictLogRepository.ts';
+import { isUnlocked, openEntry, resealEntry, sealEntry } from './privateEntries.ts';
+import { DateSortOrder } from '../utils/dates.ts';
+
+// Where every entry was kept, as one array, before each entry had its own
+// record. Only read to move an older diary over.
+export const ENTRIES_KEY = 'travelEntries';
+export const ENTRY_INDEX_KEY = 'travelEntriesIndex';
+const ENTRY_RECORD_PREFIX = 'travelEntry:';
+export const SCHEMA_VERSION_KEY = 'travelEntriesSchemaVersion';
+export const QUARANTINE_KEY = 'travelEntriesQuarantine';
+export const CORRUPT_BACKUP_KEY = 'travelEntriesCorruptBackup';
+export const TRASH_KEY = 'travelEntriesTrash';
+
+// Trashed entries are purged for good after this many days
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The structured place an entry's address string is built from. Filled in by
+// reverse geocoding and editable by hand in the location picker.
+export type EntryPlace = {
+  // A landmark or venue the user typed, e.g. "Colosseum"
+  name?: string;
+  street?: string;
+  city?: string;
+  region?: string;
+  country?: string;
+};
+
+// Where an entry's position or date came from: the photo's EXIF data or the
+// phone itself at the time of saving
+export type MetadataSource = 'photo' | 'device';
+
+// Positions can also be placed by hand in the location picker
+export type LocationSource = MetadataSource | 'manual';
+
+// The one shape every screen reads and writes. Adding a required field here
+// means bumping CURRENT_SCHEMA_VERSION and adding a migration in migrations.ts.
+export type TravelEntry = {
+  id: string;
+  title: string;
+  description: string;
+  // Ordered photo URIs; never empty
+  images: string[];
+  coverIndex: number;
+  location: Location.LocationObject | null;
+  address: string;
+  // Missing on entries saved before places were kept; see utils/places.ts
+  place?: EntryPlace;
+  locationSource?: LocationSource;
+  date: string;
+  dateSource?: MetadataSource;
+  // Set whenever an existing entry is edited; `date` keeps the original time
+  updatedAt?: string;
+  tripId?: string;
+  // Normalized tags (see utils/tags.ts): those added by hand plus the
+  // caption's hashtags. Older entries fall back to parsing the caption.
+  tags?: string[];
+  // Photos whose files were already gone when photos moved into app storage
+  missingPhotos?: string[];
+  // Hidden until the app is unlocked and kept off backups and sync. See
+  // privateEntries.ts for what is encrypted.
+  isPrivate?: boolean;
+  // Storage only: the encrypted text of a private entry. Entries handed to
+  // screens never have it.
+  sealed?: string;
+};
+
+export type NewTravelEntry = Omit<TravelEntry, 'id' | 'date'> & {
+  id?: string;
+  date?: string;
+};
+
+// A deleted entry waiting in the Trash. Its photos, notes, flags and
+// collection slots are kept until it is purged, so restoring brings them back.
+export type TrashedEntry = {
+  entry: TravelEntry;
+  deletedAt: string;
+};
+
+// One row per entry, newest first. Small enough to read whole, so a page of
+// the feed only loads the records on that page.
+export type EntryIndexRow = {
+  id: string;
+  date: string;
+  tripId?: string;
+  isPrivate?: boolean;
+};
+
+export type EntryPageOptions = {
+  offset: number;
+  limit: number;
+  order: DateSortOrder;
+  // Pages through a single trip
+  tripId?: string;
+};
+
+export type EntryPage = {
+  entries: TravelEntry[];
+  // How many entries there are to page through
+  total: number;
+  // Where the next page starts, or null after the last page
+  nextOffset: number | null;
+};
+
+export const getCoverImage = (entry: TravelEntry): string =>
+  entry.images[entry.coverIndex] ?? entry.images[0];
+
+// Small version of the cover for story circles, pins and list rows
+export const getCoverThumbnail = (entry: TravelEntry): string => getThumbnailUri(getCoverImage(entry));
+
+let initPromise: Promise<MigrationReport> | null = null;
+
+// Runs pending migrations once per app session. Every read and write waits
+// for it, so screens never see an old stored shape.
+export const initEntryStorage = (): Promise<MigrationReport> => {
+  if (!initPromise) {
+    initPromise = migrateStoredEntries().catch((error) => {
+      initPromise = null;
+      throw error;
+    });
+  }
+  return initPromise;
+};
+
+const recordKey = (id: string) => `${ENTRY_RECORD_PREFIX}${id}`;
+
+const toIndexRow = ({ id, date, tripId, isPrivate }: TravelEntry): EntryIndexRow => ({ id, date, tripId, isPrivate });
+
+const newestFirst = (a: EntryIndexRow, b: EntryIndexRow) => Date.parse(b.date) - Date.parse(a.date);
+
+// Places the row after any entries from the same moment, so the index
+// needn't be sorted again for a single save
+const insertRow = (index: EntryIndexRow[], row: EntryIndexRow) => {
+  const time = Date.parse(row.date);
+  let low = 0;
+  let high = index.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (Date.parse(index[middle].date) >= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return [...index.slice(0, low), row, ...index.slice(low)];
+};
+
+// Records in the order asked for. Ids without a record are skipped.
+const readRecords = async (ids: string[]): Promise<TravelEntry[]> => {
+  if (ids.length === 0) return [];
+  const pairs = await AsyncStorage.multiGet(ids.map(recordKey));
+  return pairs.flatMap(([, value]) => (value ? [JSON.parse(value)] : []));
+};
+
+const migrateStoredEntries = async (): Promise<MigrationReport> => {
+  const [entriesStr, versionStr, indexStr] = await Promise.all([
+    AsyncStorage.getItem(ENTRIES_KEY),
+    AsyncStorage.getItem(SCHEMA_VERSION_KEY),
+    AsyncStorage.getItem(ENTRY_INDEX_KEY),
+  ]);
+  const fromVersion = versionStr ? parseInt(versionStr, 10) : LEGACY_SCHEMA_VERSION;
+  const index: EntryIndexRow[] = indexStr ? JSON.parse(indexStr) : [];
+
+  // A diary still kept as one array is always split into records, whatever
+  // its version
+  let rawEntries: unknown[] = [];
+  let corrupt = false;
+  if (entriesStr) {
+    try {
+      const parsed = JSON.parse(entriesStr);
+      if (Array.isArray(parsed)) {
+        rawEntries = parsed;
+      } else {
+        corrupt = true;
+      }
+    } catch (error) {
+      console.error('Error parsing stored entries:', error);
+      corrupt = true;
+    }
+  } else if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return { fromVersion, toVersion: fromVersion, repaired: [], quarantined: [], corrupt };
+  } else {
+    rawEntries = await readRecords(index.map(row => row.id));
+  }
+
+  if (corrupt && entriesStr) {
+    // Keep the unreadable blob around instead of overwriting the diary
+    await AsyncStorage.setItem(CORRUPT_BACKUP_KEY, entriesStr);
+  }
+
+  const { entries, report } = runMigrations(rawEntries, fromVersion);
+
+  if (report.quarantined.length > 0) {
+    const existing = await getQuarantinedEntries();
+    await AsyncStorage.setItem(
+      QUARANTINE_KEY,
+      JSON.stringify([...existing, ...report.quarantined])
+    );
+  }
+
+  // The old array is only removed once the records are written, so a split
+  // cut short is simply done again at the next start
+  const migratedIds = new Set(entries.map(entry => entry.id));
+  await AsyncStorage.multiSet([
+    ...entries.map((entry): [string, string] => [recordKey(entry.id), JSON.stringify(entry)]),
+    [ENTRY_INDEX_KEY, JSON.stringify(entries.map(toIndexRow).sort(newestFirst))],
+    [SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION)],
+  ]);
+  await AsyncStorage.multiRemove([
+    ENTRIES_KEY,
+    ...index.filter(row => !migratedIds.has(row.id)).map(row => recordKey(row.id)),
+  ]);
+
+  return { ...report, corrupt };
+};
+
+type EntriesListener = () => void;
+
+const entriesListeners = new Set<EntriesListener>();
+
+// Called after every write, for state kept in step with the diary such as
+// scheduled notifications. Returns an unsubscribe function.
+export const onEntriesChanged = (listener: EntriesListener) => {
+  entriesListeners.add(listener);
+  return () => {
+    entriesListeners.delete(listener);
+  };
+};
+
+const readIndex = async (): Promise<EntryIndexRow[]> => {
+  await initEntryStorage();
+  const indexStr = await AsyncStorage.getItem(ENTRY_INDEX_KEY);
+  return indexStr ? JSON.parse(indexStr) : [];
+};
+
+// Entries as stored, with private ones still sealed. Everything below works
+// on these and only opens entries on the way out.
+const readStoredEntries = async (): Promise<TravelEntry[]> =>
+  readRecords((await readIndex()).map(row => row.id));
+
+const readStoredEntry = async (id: string): Promise<TravelEntry | undefined> => {
+  await initEntryStorage();
+  const entryStr = await AsyncStorage.getItem(recordKey(id));
+  return entryStr ? JSON.parse(entryStr) : undefined;
+};
+
+// Private entries are left out while the app is locked
+const openEntries = (stored: TravelEntry[]): TravelEntry[] =>
+  stored.flatMap(entry => {
+    const opened = openEntry(entry);
+    return opened ? [opened] : [];
+  });
+
+let indexLock: Promise<unknown> = Promise.resolve();
+
+// The index is read, changed and written back; running every write through
+// one chain keeps a sync and a save from dropping each other's rows
+const withIndex = <T>(update: () => Promise<T>): Promise<T> => {
+  const result = indexLock.then(update);
+  indexLock = result.catch(() => undefined);
+  return result;
+};
+
+// Saves the changed records and drops the removed ones. The records and the
+// index go in one multiSet, so the index never lists an entry that wasn't
+// written; a removed record left behind by a crash is never read again.
+const writeEntries = async (changed: TravelEntry[], removedIds: string[] = []) => {
+  await withIndex(async () => {
+    const replaced = new Set([...changed.map(entry => entry.id), ...removedIds]);
+    const kept = (await readIndex()).filter(row => !replaced.has(row.id));
+    const index =
+      changed.length === 1
+        ? insertRow(kept, toIndexRow(changed[0]))
+        : [...kept, ...changed.map(toIndexRow)].sort(newestFirst);
+    await AsyncStorage.multiSet([
+      ...changed.map((entry): [string, string] => [recordKey(entry.id), JSON.stringify(entry)]),
+      [ENTRY_INDEX_KEY, JSON.stringify(index)],
+    ]);
+    if (removedIds.length > 0) {
+      await AsyncStorage.multiRemove(removedIds.map(recordKey));
+    }
+  });
+  entriesListeners.forEach(listener => listener());
+};
+
+const lockedError = (id: string) => new Error(`Entry ${id} is private and the app is locked`);
+
+// A failed sync queue write shouldn't fail the save that triggered it
+const queueSyncChange = async (before: TravelEntry | null, after: TravelEntry | null) => {
+  try {
+    await queueEntryChange(before, after);
+  } catch (error) {
+    console.error('Error queueing sync change:', error);
+  }
+};
+
+const queueSyncChanges = async (edits: EntryChange[]) => {
+  try {
+    await queueEntryChanges(edits);
+  } catch (error) {
+    console.error('Error queueing sync changes:', error);
+  }
+};
+
+// The Trash only holds the last TRASH_RETENTION_DAYS, so it stays one list
+const readTrash = async (): Promise<TrashedEntry[]> => {
+  const trashStr = await AsyncStorage.getItem(TRASH_KEY);
+  return trashStr ? JSON.parse(trashStr) : [];
+};
+
+const writeTrash = async (trash: TrashedEntry[]) => {
+  await AsyncStorage.setItem(TRASH_KEY, JSON.stringify(trash));
+};
+
+// Deletes photo files that no entry, trashed or not, still uses. Every entry
+// is only read when there is a photo to check.
+const deleteUnusedPhotos = async (uris: string[]) => {
+  if (uris.length === 0) return;
+  const [stored, trash] = await Promise.all([readStoredEntries(), readTrash()]);
+  const inUse = new Set([...stored, ...trash.map(trashed => trashed.entry)].flatMap(entry => entry.images));
+  await deletePhotos(uris.filter(uri => !inUse.has(uri)));
+};
+
+// Every entry, newest first. This reads every record, so the feed pages
+// through getEntryPage instead.
+export const getEntries = async (): Promise<TravelEntry[]> => openEntries(await readStoredEntries());
+
+export const getEntry = async (id: string): Promise<TravelEntry | undefined> => {
+  const stored = await readStoredEntry(id);
+  return (stored && openEntry(stored)) ?? undefined;
+};
+
+// In the order asked for, skipping ids that aren't in the diary
+export const getEntriesByIds = async (ids: string[]): Promise<TravelEntry[]> => {
+  await initEntryStorage();
+  return openEntries(await readRecords(ids));
+};
+
+// Newest first, without private entries while the app is locked
+export const getEntryIndex = async (): Promise<EntryIndexRow[]> => {
+  const index = await readIndex();
+  return isUnlocked() ? index : index.filter(row => !row.isPrivate);
+};
+
+// The date of every entry, private ones too, even while the app is locked.
+// Dates aren't sealed, so the index is enough; e.g. reminders use this to
+// skip days that already have an entry.
+export const getEntryDates = async (): Promise<string[]> => (await readIndex()).map(row => row.date);
+
+// One page of the feed. Only the index and the entries on the page are read.
+export const getEntryPage = async ({ offset, limit, order, tripId }: EntryPageOptions): Promise<EntryPage> => {
+  const index = (await getEntryIndex()).filter(row => !tripId || row.tripId === tripId);
+  const ordered = order === 'newest' ? index : [...index].reverse();
+  const rows = ordered.slice(offset, offset + limit);
+  const end = offset + rows.length;
+  return {
+    entries: openEntries(await readRecords(rows.map(row => row.id))),
+    total: index.length,
+    nextOffset: end < index.length ? end : null,
+  };
+};
+
+export const addEntry = async (input: NewTravelEntry): Promise<TravelEntry> => {
+  const entry: TravelEntry = {
+    ...input,
+    id: input.id ?? Date.now().toString(),
+    date: input.date ?? new Date().toISOString(),
+  };
+  await writeEntries([sealEntry(entry)]);
+  await queueSyncChange(null, entry);
+  return entry;
+};
+
+export const updateEntry = async (
+  id: string,
+  changes: Partial<Omit<TravelEntry, 'id'>>
+): Promise<TravelEntry> => {
+  const stored = await readStoredEntry(id);
+  if (!stored) {
+    throw new Error(`Entry ${id} not found`);
+  }
+  const current = openEntry(stored);
+  if (!current) {
+    throw lockedError(id);
+  }
+  const updated = { ...current, ...changes, id };
+  await writeEntries([sealEntry(updated)]);
+  await queueSyncChange(current, updated);
+  if (changes.images) {
+    await deleteUnusedPhotos(current.images.filter(uri => !updated.images.includes(uri)));
+  }
+  return updated;
+};
+
+// Edits many entries in one write and one sync queue batch. Entries that are
+// gone or locked are skipped.
+const editEntries = async (
+  updates: { id: string; changes: Partial<Omit<TravelEntry, 'id'>> }[]
+): Promise<TravelEntry[]> => {
+  if (updates.length === 0) return [];
+  await initEntryStorage();
+  const changesById = new Map(updates.map(({ id, changes }) => [id, changes]));
+  const edits = openEntries(await readRecords([...changesById.keys()])).map(current => ({
+    before: current,
+    after: { ...current, ...changesById.get(current.id), id: current.id },
+  }));
+  if (edits.length === 0) return [];
+  await writeEntries(edits.map(({ after }) => sealEntry(after)));
+  await queueSyncChanges(edits);
+  return edits.map(({ after }) => after);
+};
+
+// The same kind of edit to many entries, saved in one write, e.g. places
+// filled in for older entries. Not for photo changes: photos dropped here
+// aren't cleaned up.
+export const updateEntries = (
+  updates: { id: string; changes: Partial<Omit<TravelEntry, 'id' | 'images'>> }[]
+): Promise<TravelEntry[]> => editEntries(updates);
+
+// Points entries at new copies of their photos in one write. The files they
+// pointed at before are left alone; the app never owned them.
+export const relinkEntryPhotos = (
+  updates: { id: string; images: string[]; missingPhotos?: string[] }[]
+): Promise<TravelEntry[]> =>
+  editEntries(updates.map(({ id, images, missingPhotos }) => ({ id, changes: { images, missingPhotos } })));
+
+// The same kind of edit to entries in the Trash, saved in one write. They
+// aren't synced until restored, when they are sent in full. Locked private
+// entries are skipped.
+export const updateTrashedEntries = async (
+  updates: { id: string; changes: Partial<Omit<TravelEntry, 'id' | 'images'>> }[]
+): Promise<TravelEntry[]> => {
+  if (updates.length === 0) return [];
+  const changesById = new Map(updates.map(({ id, changes }) => [id, changes]));
+  const edited: TravelEntry[] = [];
+  const trash = (await readTrash()).map(trashed => {
+    const changes = changesById.get(trashed.entry.id);
+    const current = changes && openEntry(trashed.entry);
+    if (!current) return trashed;
+    const updated = { ...current, ...changes, id: current.id };
+    edited.push(updated);
+    return { ...trashed, entry: sealEntry(updated) };
+  });
+  if (edited.length > 0) {
+    await writeTrash(trash);
+  }
+  return edited;
+};
+
+// Takes every entry out of a trip, in the diary and in the Trash, with one
+// write each. Trips aren't sealed, so private entries are taken out as
+// stored, even while the app is locked.
+export const removeEntriesFromTrip = async (tripId: string) => {
+  const ids = (await readIndex()).filter(row => row.tripId === tripId).map(row => row.id);
+  const stored = await readRecords(ids);
+  if (stored.length > 0) {
+    await writeEntries(stored.map(entry => ({ ...entry, tripId: undefined })));
+    await queueSyncChanges(
+      stored.flatMap(entry => {
+        const before = openEntry(entry);
+        return before ? [{ before, after: { ...before, tripId: undefined } }] : [];
+      })
+    );
+  }
+
+  const trash = await readTrash();
+  if (trash.some(({ entry }) => entry.tripId === tripId)) {
+    await writeTrash(
+      trash.map(trashed =>
+        trashed.entry.tripId === tripId ? { ...trashed, entry: { ...trashed.entry, tripId: undefined } } : trashed
+      )
+    );
+  }
+};
+
+export const trashEntry = async (id: string) => {
+  const entry = await readStoredEntry(id);
+  if (!entry) {
+    throw new Error(`Entry ${id} not found`);
+  }
+  // Trash first: if the app dies in between the entry shows up twice rather than not at all.
+  // Private entries stay sealed in the Trash.
+  const trash = await readTrash();
+  await writeTrash([...trash.filter(trashed => trashed.entry.id !== id), { entry, deletedAt: new Date().toISOString() }]);
+  await writeEntries([], [id]);
+  await queueSyncChange(openEntry(entry), null);
+};
+
+// Most recently deleted first
+export const getTrashedEntries = async (): Promise<TrashedEntry[]> => {
+  const trash = await readTrash();
+  return trash
+    .flatMap(trashed => {
+      const entry = openEntry(trashed.entry);
+      return entry ? [{ ...trashed, entry }] : [];
+    })
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+// Only the trashed entries with these ids, so just those are opened
+export const getTrashedEntriesByIds = async (ids: string[]): Promise<TrashedEntry[]> => {
+  const wanted = new Set(ids);
+  const trash = await readTrash();
+  return trash.flatMap(trashed => {
+    const entry = wanted.has(trashed.entry.id) ? openEntry(trashed.entry) : null;
+    return entry ? [{ ...trashed, entry }] : [];
+  });
+};
+
+export const getPurgeDate = (trashed: TrashedEntry) =>
+  new Date(new Date(trashed.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const restoreEntry = async (id: string): Promise<TravelEntry> => {
+  const trash = await readTrash();
+  const trashed = trash.find(t => t.entry.id === id);
+  if (!trashed) {
+    throw new Error(`Entry ${id} is not in the Trash`);
+  }
+  const restored = openEntry(trashed.entry);
+  if (!restored) {
+    throw lockedError(id);
+  }
+  await writeEntries([trashed.entry]);
+  await writeTrash(trash.filter(t => t.entry.id !== id));
+  await queueSyncChange(null, restored);
+  return restored;
+};
+
+// Deletes entries for good, in the Trash or not, with their photos, notes,
+// flags and collection slots
+const purgeEntries = async (ids: Set<string>) => {
+  if (ids.size === 0) return;
+  const [index, trash] = await Promise.all([readIndex(), readTrash()]);
+  const active = await readRecords(index.filter(row => ids.has(row.id)).map(row => row.id));
+  const trashed = trash.filter(t => ids.has(t.entry.id)).map(t => t.entry);
+  const purged = [...active, ...trashed];
+  if (purged.length === 0) return;
+  if (trashed.length > 0) {
+    await writeTrash(trash.filter(t => !ids.has(t.entry.id)));
+  }
+  if (active.length > 0) {
+    await writeEntries([], active.map(entry => entry.id));
+  }
+  await deleteUnusedPhotos(purged.flatMap(entry => entry.images));
+  for (const entry of purged) {
+    await deleteCommentsForEntry(entry.id);
+    await clearActionStatesForEntry(entry.id);
+    await removeEntryFromCollections(entry.id);
+  }
+};
+
+export const purgeEntry = async (id: string) => {
+  await purgeEntries(new Set([id]));
+};
+
+export const emptyTrash = async () => {
+  const trash = await readTrash();
+  await purgeEntries(new Set(trash.map(trashed => trashed.entry.id)));
+};
+
+// Run at startup. Returns how many entries were purged.
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const now = Date.now();
+  const trash = await readTrash();
+  const expired = trash.filter(trashed => getPurgeDate(trashed).getTime() <= now);
+  await purgeEntries(new Set(expired.map(trashed => trashed.entry.id)));
+  return expired.length;
+};
+
+// Overwrites the whole diary, e.g. when restoring a backup. Callers must pass
+// entries that already match the current schema.
+export const replaceEntries = async (entries: TravelEntry[]) => {
+  const stored = await readStoredEntries();
+  const previous = openEntries(stored);
+  // Private entries that can't be opened can't have been meant to be replaced
+  const incomingIds = new Set(entries.map(entry => entry.id));
+  const removedIds = stored
+    .filter(entry => !incomingIds.has(entry.id) && openEntry(entry))
+    .map(entry => entry.id);
+  await writeEntries(entries.map(entry => sealEntry(entry)), removedIds);
+  for (const entry of previous.filter(e => !incomingIds.has(e.id))) {
+    await queueSyncChange(entry, null);
+  }
+  for (const entry of entries) {
+    await queueSyncChange(previous.find(e => e.id === entry.id) ?? null, entry);
+  }
+};
+
+// Writes changes pulled from the sync server. Unlike the other writes these
+// aren't queued to be sent back. Entries deleted on another device go to the
+// Trash here too, so they can still be restored. Entries made private on
+// another device are deleted for good, along with any unsent edits to them.
+export const applySyncedEntries = async (
+  allUpserts: TravelEntry[],
+  allDeletedIds: string[],
+  allWithdrawnIds: string[] = []
+) => {
+  const [index, trash] = await Promise.all([readIndex(), readTrash()]);
+  // Private entries never sync, so the server's copy of one is out of date
+  const privateIds = new Set([
+    ...index.filter(row => row.isPrivate).map(row => row.id),
+    ...trash.filter(trashed => trashed.entry.isPrivate).map(trashed => trashed.entry.id),
+  ]);
+  const withdrawn = new Set(allWithdrawnIds.filter(id => !privateIds.has(id)));
+  const deleted = new Set(allDeletedIds.filter(id => !privateIds.has(id) && !withdrawn.has(id)));
+  const upserts = allUpserts.filter(
+    entry => !privateIds.has(entry.id) && !deleted.has(entry.id) && !withdrawn.has(entry.id)
+  );
+  const upserted = new Map(upserts.map(entry => [entry.id, entry]));
+  const deletedAt = new Date().toISOString();
+
+  // Only the entries the server changed are read
+  const indexed = new Set(index.map(row => row.id));
+  const existing = await readRecords([...upserted.keys(), ...deleted].filter(id => indexed.has(id)));
+
+  // Entries restored on another device come back out of the Trash
+  const newlyTrashed = existing.filter(entry => deleted.has(entry.id));
+  await writeTrash([
+    ...trash.filter(trashed => !upserted.has(trashed.entry.id)),
+    ...newlyTrashed.map(entry => ({ entry, deletedAt })),
+  ]);
+  await writeEntries(upserts, newlyTrashed.map(entry => entry.id));
+
+  // Remote edits may have dropped photos this device was holding
+  const replacedPhotos = existing.flatMap(entry => {
+    const incoming = upserted.get(entry.id);
+    return incoming ? entry.images.filter(uri => !incoming.images.includes(uri)) : [];
+  });
+  await deleteUnusedPhotos(replacedPhotos);
+
+  await purgeEntries(withdrawn);
+  await dropQueuedEntries([...withdrawn]);
+  await removeConflictsForEntries([...withdrawn]);
+};
+
+// Re-encrypts every private entry, in the Trash too, from one key to another.
+// Returns the storage writes instead of making them, so the caller can save
+// them together with the new PIN's details in a single multiSet.
+export const resealPrivateEntries = async (from: Uint8Array, to: Uint8Array): Promise<[string, string][]> => {
+  const [index, trash] = await Promise.all([readIndex(), readTrash()]);
+  const sealed = await readRecords(index.filter(row => row.isPrivate).map(row => row.id));
+  return [
+    ...sealed.map((entry): [string, string] => [recordKey(entry.id), JSON.stringify(resealEntry(entry, from, to))]),
+    [TRASH_KEY, JSON.stringify(trash.map(trashed => ({ ...trashed, entry: resealEntry(trashed.entry, from, to) })))],
+  ];
+};
+
+// Makes every private entry an ordinary one again, e.g. when the PIN is
+// removed. The app must be unlocked.
+export const revealPrivateEntries = async () => {
+  const [index, trash] = await Promise.all([readIndex(), readTrash()]);
+  const sealed = await readRecords(index.filter(row => row.isPrivate).map(row => row.id));
+  const reveal = (entry: TravelEntry) => {
+    if (!entry.isPrivate) return entry;
+    const opened = openEntry(entry);
+    if (!opened) {
+      throw lockedError(entry.id);
+    }
+    return { ...opened, isPrivate: false };
+  };
+  const revealed = sealed.map(reveal);
+  await writeTrash(trash.map(trashed => ({ ...trashed, entry: reveal(trashed.entry) })));
+  await writeEntries(revealed);
+  for (const entry of sealed) {
+    await queueSyncChange(openEntry(entry), revealed.find(e => e.id === entry.id)!);
+  }
+};
+
+export const getQuarantinedEntries = async (): Promise<QuarantinedEntry[]> => {
+  const quarantineStr = await AsyncStorage.getItem(QUARANTINE_KEY);
+  return quarantineStr ? JSON.parse(quarantineStr) : [];
+};
@@ -0,0 +1,198 @@
+import type { TravelEntry } from './entryRepository.ts';
+
+// Entries written before versioning existed have no stored schema version
+export const LEGACY_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type QuarantinedEntry = {
+  reason: string;
+  fromVersion: number;
+  quarantinedAt: string;
+  raw: unknown;
+};
+
+export type MigrationReport = {
+  fromVersion: number;
+  toVersion: number;
+  // Ids of entries that were fixed up to fit the current schema
+  repaired: string[];
+  // Entries that could not be repaired; stored apart, never dropped
+  quarantined: QuarantinedEntry[];
+  corrupt: boolean;
+};
+
+type RawEntry = Record<string, unknown>;
+
+type MigrationContext = {
+  repair: (id: string) => void;
+  quarantine: (raw: unknown, reason: string) => void;
+};
+
+type Migration = {
+  // The schema version this migration produces
+  version: number;
+  migrate: (entries: RawEntry[], context: MigrationContext) => RawEntry[];
+};
+
+const isRawEntry = (value: unknown): value is RawEntry =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// A location as expo-location returns it: an object with a coords field
+const isLocation = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && 'coords' in value && !!value.coords;
+
+// v1 -> v2: the original unversioned array. Older builds dropped anything
+// missing id/title/description/image at render time; repair what we can and
+// quarantine the rest.
+const normalizeLegacyEntries: Migration = {
+  version: 2,
+  migrate: (entries, { repair, quarantine }) => {
+    const seenIds = new Set<string>();
+    const migrated: RawEntry[] = [];
+
+    entries.forEach((raw, index) => {
+      if (!isNonEmptyString(raw.image)) {
+        quarantine(raw, 'Entry has no photo');
+        return;
+      }
+
+      let changed = false;
+      const entry: RawEntry = { ...raw };
+
+      const id = isNonEmptyString(entry.id) && !seenIds.has(entry.id) ? entry.id : `${Date.now()}-${index}`;
+      if (id !== entry.id) {
+        entry.id = id;
+        changed = true;
+      }
+      if (!isNonEmptyString(entry.title)) {
+        entry.title = 'Untitled entry';
+        changed = true;
+      }
+      if (typeof entry.description !== 'string') {
+        entry.description = '';
+        changed = true;
+      }
+      if (typeof entry.address !== 'string') {
+        entry.address = '';
+        changed = true;
+      }
+      if (!isLocation(entry.location)) {
+        if (entry.location !== null) changed = true;
+        entry.location = null;
+      }
+      if (!isNonEmptyString(entry.date) || isNaN(new Date(entry.date).getTime())) {
+        // Fall back to the timestamp ids were generated from, if there is one
+        const idTime = Number(raw.id);
+        entry.date = new Date(Number.isFinite(idTime) && idTime > 0 ? idTime : Date.now()).toISOString();
+        changed = true;
+      }
+
+      seenIds.add(id);
+      if (changed) repair(id);
+      migrated.push(entry);
+    });
+
+    return migrated;
+  },
+};
+
+// v2 -> v3: entries hold an ordered list of photos plus which one is the cover
+const splitIntoPhotoList: Migration = {
+  version: 3,
+  migrate: (entries) => entries.map(entry => {
+    if (Array.isArray(entry.images) && entry.images.length > 0) {
+      return entry;
+    }
+    const { image, ...rest } = entry;
+    return { ...rest, images: [image], coverIndex: 0 };
+  }),
+};
+
+// Why an entry doesn't fit the current schema, or null when it does. Every
+// entry runMigrations returns has passed this.
+const findSchemaProblem = (entry: unknown): string | null => {
+  if (!isRawEntry(entry)) return 'Entry is not an object';
+  if (!isNonEmptyString(entry.id)) return 'Entry has no id';
+  if (typeof entry.title !== 'string') return 'Entry has no title';
+  if (typeof entry.description !== 'string') return 'Entry has no description';
+  if (typeof entry.address !== 'string') return 'Entry has no address';
+  if (!Array.isArray(entry.images) || entry.images.length === 0 || !entry.images.every(isNonEmptyString)) {
+    return 'Entry has no photo';
+  }
+  if (
+    typeof entry.coverIndex !== 'number' ||
+    !Number.isInteger(entry.coverIndex) ||
+    entry.coverIndex < 0 ||
+    entry.coverIndex >= entry.images.length
+  ) {
+    return 'Entry has an invalid cover photo';
+  }
+  if (entry.location !== null && !isLocation(entry.location)) {
+    return 'Entry has an invalid location';
+  }
+  if (!isNonEmptyString(entry.date) || isNaN(new Date(entry.date).getTime())) {
+    return 'Entry has an invalid date';
+  }
+  return null;
+};
+
+const fitsSchema = (entry: unknown): entry is TravelEntry => findSchemaProblem(entry) === null;
+
+// Ordered by version. Append new migrations here when TravelEntry changes.
+const migrations: Migration[] = [normalizeLegacyEntries, splitIntoPhotoList];
+
+export const runMigrations = (
+  rawEntries: unknown[],
+  fromVersion: number
+): { entries: TravelEntry[]; report: MigrationReport } => {
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    repaired: [],
+    quarantined: [],
+    corrupt: false,
+  };
+
+  const context: MigrationContext = {
+    repair: (id) => {
+      if (!report.repaired.includes(id)) report.repaired.push(id);
+    },
+    quarantine: (raw, reason) => {
+      report.quarantined.push({
+        reason,
+        fromVersion,
+        quarantinedAt: new Date().toISOString(),
+        raw,
+      });
+    },
+  };
+
+  let entries: RawEntry[] = [];
+  rawEntries.forEach(raw => {
+    if (isRawEntry(raw)) {
+      entries.push(raw);
+    } else {
+      context.quarantine(raw, 'Entry is not an object');
+    }
+  });
+  migrations
+    .filter(migration => migration.version > fromVersion)
+    .forEach(migration => {
+      entries = migration.migrate(entries, context);
+    });
+
+  // Checked whatever version the data started at, so nothing reaches the
+  // diary on trust
+  const valid: TravelEntry[] = [];
+  entries.forEach(entry => {
+    if (fitsSchema(entry)) {
+      valid.push(entry);
+    } else {
+      context.quarantine(entry, findSchemaProblem(entry)!);
+    }
+  });
+  return { entries: valid, report };
+};
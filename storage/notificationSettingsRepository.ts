@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const NOTIFICATION_SETTINGS_KEY = 'notificationSettings';
+
+// Local time of day a notification fires at
+export type NotificationTime = {
+  hour: number;
+  minute: number;
+};
+
+// 'daily' reminds every day; 'trips' only on days inside a trip
+export type ReminderSchedule = 'daily' | 'trips';
+
+export type NotificationSettings = {
+  onThisDay: NotificationTime & { enabled: boolean };
+  reminder: NotificationTime & { enabled: boolean; schedule: ReminderSchedule };
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  onThisDay: { enabled: true, hour: 9, minute: 0 },
+  reminder: { enabled: false, schedule: 'daily', hour: 20, minute: 0 },
+};
+
+export const getNotificationSettings = async (): Promise<NotificationSettings> => {
+  const settingsStr = await AsyncStorage.getItem(NOTIFICATION_SETTINGS_KEY);
+  if (!settingsStr) return DEFAULT_NOTIFICATION_SETTINGS;
+  const saved: Partial<NotificationSettings> = JSON.parse(settingsStr);
+  // Merge so settings added in later versions get their defaults
+  return {
+    onThisDay: { ...DEFAULT_NOTIFICATION_SETTINGS.onThisDay, ...saved.onThisDay },
+    reminder: { ...DEFAULT_NOTIFICATION_SETTINGS.reminder, ...saved.reminder },
+  };
+};
+
+export const saveNotificationSettings = async (settings: NotificationSettings) => {
+  await AsyncStorage.setItem(NOTIFICATION_SETTINGS_KEY, JSON.stringify(settings));
+};
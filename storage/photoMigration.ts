@@ -0,0 +1,89 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getEntries, relinkEntryPhotos } from './entryRepository.ts';
+import { Trip, getTrips, replaceTrips } from './tripRepository.ts';
+import { importPhoto, isStoredPhoto, photoExists } from './photoStore.ts';
+
+export const PHOTO_MIGRATION_KEY = 'travelPhotosImported';
+// Ids of entries already handled while earlier runs were left incomplete
+export const PHOTO_MIGRATION_PROGRESS_KEY = 'travelPhotosImportedIds';
+
+export type PhotoMigrationReport = {
+  imported: number;
+  // Ids of entries with at least one photo whose file was already gone
+  flagged: string[];
+};
+
+// One-off move of photos saved before the app kept its own copies. Photos
+// that still resolve are copied in; entries whose files are gone are flagged
+// with `missingPhotos` rather than dropped. Only entries whose photos changed
+// are written. If a copy fails the finished entries are remembered, so the
+// next launch retries the rest and reports each missing photo only once.
+// Returns null once it has run.
+export const importExistingPhotos = async (): Promise<PhotoMigrationReport | null> => {
+  if (await AsyncStorage.getItem(PHOTO_MIGRATION_KEY)) return null;
+
+  const report: PhotoMigrationReport = { imported: 0, flagged: [] };
+  const progressStr = await AsyncStorage.getItem(PHOTO_MIGRATION_PROGRESS_KEY);
+  const done = new Set<string>(progressStr ? JSON.parse(progressStr) : []);
+  // A copy that fails on a file that does exist is retried next launch
+  let incomplete = false;
+
+  const importIfPresent = async (uri: string): Promise<{ uri: string; missing: boolean; failed: boolean }> => {
+    if (isStoredPhoto(uri)) return { uri, missing: false, failed: false };
+    if (!(await photoExists(uri))) return { uri, missing: true, failed: false };
+    try {
+      const stored = await importPhoto(uri);
+      report.imported++;
+      return { uri: stored, missing: false, failed: false };
+    } catch (error) {
+      console.error('Error importing existing photo:', error);
+      incomplete = true;
+      return { uri, missing: false, failed: true };
+    }
+  };
+
+  const entries = (await getEntries()).filter(entry => !done.has(entry.id));
+  const relinked: { id: string; images: string[]; missingPhotos?: string[] }[] = [];
+  for (const entry of entries) {
+    const images: string[] = [];
+    const missing: string[] = [];
+    let failed = false;
+    for (const uri of entry.images) {
+      const result = await importIfPresent(uri);
+      images.push(result.uri);
+      if (result.missing) missing.push(result.uri);
+      if (result.failed) failed = true;
+    }
+    if (missing.length > 0) report.flagged.push(entry.id);
+    if (missing.length > 0 || images.some((uri, index) => uri !== entry.images[index])) {
+      relinked.push({ id: entry.id, images, missingPhotos: missing.length > 0 ? missing : undefined });
+    }
+    if (!failed) done.add(entry.id);
+  }
+
+  const trips = await getTrips();
+  let tripsChanged = false;
+  const migratedTrips: Trip[] = [];
+  for (const trip of trips) {
+    const result = trip.coverImage ? await importIfPresent(trip.coverImage) : null;
+    if (!result || (result.uri === trip.coverImage && !result.missing)) {
+      migratedTrips.push(trip);
+      continue;
+    }
+    // A lost trip cover falls back to the first entry's photo
+    migratedTrips.push({ ...trip, coverImage: result.missing ? undefined : result.uri });
+    tripsChanged = true;
+  }
+
+  await relinkEntryPhotos(relinked);
+  if (tripsChanged) {
+    await replaceTrips(migratedTrips);
+  }
+  if (incomplete) {
+    await AsyncStorage.setItem(PHOTO_MIGRATION_PROGRESS_KEY, JSON.stringify([...done]));
+  } else {
+    await AsyncStorage.setItem(PHOTO_MIGRATION_KEY, 'true');
+    await AsyncStorage.removeItem(PHOTO_MIGRATION_PROGRESS_KEY);
+  }
+  return report;
+};
@@ -0,0 +1,125 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+
+// Picker and camera URIs point into caches the OS may clear, so every photo
+// an entry keeps is copied in here. Each stored photo has a thumbnail with
+// the same base name under THUMBNAILS_DIR.
+export const PHOTOS_DIR = `${FileSystem.documentDirectory}photos/`;
+export const THUMBNAILS_DIR = `${FileSystem.documentDirectory}thumbnails/`;
+
+const THUMBNAIL_WIDTH = 240;
+
+let photoCounter = 0;
+
+const ensureDirectories = async () => {
+  await FileSystem.makeDirectoryAsync(PHOTOS_DIR, { intermediates: true });
+  await FileSystem.makeDirectoryAsync(THUMBNAILS_DIR, { intermediates: true });
+};
+
+const extensionOf = (uri: string) => {
+  const match = uri.split('?')[0].match(/\.([a-zA-Z0-9]+)$/);
+  return match ? match[1].toLowerCase() : 'jpg';
+};
+
+const baseName = (uri: string) => uri.split('/').pop()!.replace(/\.[^.]+$/, '');
+
+const newPhotoUri = (extension: string) => {
+  photoCounter = (photoCounter + 1) % 1000;
+  return `${PHOTOS_DIR}${Date.now()}-${photoCounter}.${extension}`;
+};
+
+export const isStoredPhoto = (uri: string) => uri.startsWith(PHOTOS_DIR);
+
+// Where a stored photo's thumbnail lives. Photos from outside the store have
+// none, so callers get the original back.
+export const getThumbnailUri = (uri: string) =>
+  isStoredPhoto(uri) ? `${THUMBNAILS_DIR}${baseName(uri)}.jpg` : uri;
+
+export const photoExists = async (uri: string) => {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists;
+  } catch (error) {
+    return false;
+  }
+};
+
+const createThumbnail = async (photoUri: string) => {
+  const thumbnailUri = getThumbnailUri(photoUri);
+  try {
+    const result = await ImageManipulator.manipulateAsync(
+      photoUri,
+      [{ resize: { width: THUMBNAIL_WIDTH } }],
+      { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    await FileSystem.moveAsync({ from: result.uri, to: thumbnailUri });
+  } catch (error) {
+    // A full-size copy still loads; it is just slower in small slots
+    console.error('Error creating thumbnail:', error);
+    await FileSystem.copyAsync({ from: photoUri, to: thumbnailUri });
+  }
+};
+
+// Copies a picked photo into the store and returns its new URI. Photos that
+// are already stored are returned as they are.
+export const importPhoto = async (uri: string): Promise<string> => {
+  if (isStoredPhoto(uri)) return uri;
+  await ensureDirectories();
+  const storedUri = newPhotoUri(extensionOf(uri));
+  await FileSystem.copyAsync({ from: uri, to: storedUri });
+  await createThumbnail(storedUri);
+  return storedUri;
+};
+
+export const importPhotos = async (uris: string[]): Promise<string[]> => {
+  const stored: string[] = [];
+  for (const uri of uris) {
+    stored.push(await importPhoto(uri));
+  }
+  return stored;
+};
+
+// Writes base64 image data, e.g. from a backup, straight into the store
+export const savePhotoData = async (data: string, fileName: string): Promise<string> => {
+  await ensureDirectories();
+  const storedUri = newPhotoUri(extensionOf(fileName));
+  await FileSystem.writeAsStringAsync(storedUri, data, { encoding: FileSystem.EncodingType.Base64 });
+  await createThumbnail(storedUri);
+  return storedUri;
+};
+
+// Stored photos keep the same file name on every synced device, so the name
+// is what entries refer to on the server
+export const getPhotoName = (uri: string) => uri.split('/').pop()!;
+
+export const getStoredPhotoUri = (name: string) => `${PHOTOS_DIR}${name}`;
+
+// Fetches a photo another device uploaded into the store under its own name
+export const downloadPhoto = async (
+  url: string,
+  name: string,
+  headers: { [key: string]: string }
+): Promise<string> => {
+  await ensureDirectories();
+  const storedUri = getStoredPhotoUri(name);
+  const result = await FileSystem.downloadAsync(url, storedUri, { headers });
+  if (result.status !== 200) {
+    await FileSystem.deleteAsync(storedUri, { idempotent: true });
+    throw new Error(`Photo download failed with status ${result.status}`);
+  }
+  await createThumbnail(storedUri);
+  return storedUri;
+};
+
+// Removes stored photos and their thumbnails. URIs from outside the store are
+// ignored, as the app doesn't own those files.
+export const deletePhotos = async (uris: string[]) => {
+  for (const uri of uris.filter(isStoredPhoto)) {
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      await FileSystem.deleteAsync(getThumbnailUri(uri), { idempotent: true });
+    } catch (error) {
+      console.error('Error deleting photo:', error);
+    }
+  }
+};
@@ -0,0 +1,102 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LatLng } from 'react-native-maps';
+import { EntryPlace, TravelEntry, updateEntries } from './entryRepository.ts';
+import { formatPlace, reverseGeocodePlace } from '../utils/places.ts';
+
+export const RECENT_PLACES_KEY = 'recentPlaces';
+export const HOME_PLACE_KEY = 'homePlace';
+// Set once every older entry has been through the place backfill
+export const PLACES_BACKFILLED_KEY = 'placesBackfilled';
+
+const MAX_RECENT_PLACES = 15;
+
+// A place the location picker can offer again. Typed places the geocoder
+// couldn't find have no coordinates.
+export type KnownPlace = {
+  label: string;
+  place: EntryPlace;
+  coords: LatLng | null;
+};
+
+export const getRecentPlaces = async (): Promise<KnownPlace[]> => {
+  const placesStr = await AsyncStorage.getItem(RECENT_PLACES_KEY);
+  return placesStr ? JSON.parse(placesStr) : [];
+};
+
+// Most recent first; picking a place again moves it to the top
+export const addRecentPlace = async (place: EntryPlace, coords: LatLng | null) => {
+  const label = formatPlace(place);
+  if (!label) return;
+  const recent = await getRecentPlaces();
+  const updated = [{ label, place, coords }, ...recent.filter(known => known.label !== label)];
+  await AsyncStorage.setItem(RECENT_PLACES_KEY, JSON.stringify(updated.slice(0, MAX_RECENT_PLACES)));
+};
+
+// Where distances from home are measured; set on the Profile or Stats screen
+export const getHomePlace = async (): Promise<KnownPlace | null> => {
+  const homeStr = await AsyncStorage.getItem(HOME_PLACE_KEY);
+  return homeStr ? JSON.parse(homeStr) : null;
+};
+
+export const saveHomePlace = async (place: EntryPlace, coords: LatLng) => {
+  const home: KnownPlace = { label: formatPlace(place), place, coords };
+  await AsyncStorage.setItem(HOME_PLACE_KEY, JSON.stringify(home));
+  return home;
+};
+
+export const clearHomePlace = async () => {
+  await AsyncStorage.removeItem(HOME_PLACE_KEY);
+};
+
+// Places already used by entries, newest entry first, one per label
+export const getEntryPlaces = (entries: TravelEntry[]): KnownPlace[] => {
+  const seen = new Set<string>();
+  const places: KnownPlace[] = [];
+  [...entries]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .forEach(entry => {
+      const place = entry.place;
+      if (!place) return;
+      const label = formatPlace(place);
+      if (!label || seen.has(label)) return;
+      seen.add(label);
+      places.push({
+        label,
+        place,
+        coords: entry.location
+          ? { latitude: entry.location.coords.latitude, longitude: entry.location.coords.longitude }
+          : null,
+      });
+    });
+  return places;
+};
+
+// Entries saved before the structured place was stored only kept the joined
+// address string. Looks their coordinates up again, one at a time since the
+// platform geocoder is rate limited, and saves what it found in one write.
+// Runs until it gets through every entry once, then never again. Returns the
+// entries that changed.
+export const backfillMissingPlaces = async (entries: TravelEntry[]): Promise<TravelEntry[]> => {
+  if (await AsyncStorage.getItem(PLACES_BACKFILLED_KEY)) return [];
+  const updates: { id: string; changes: { place: EntryPlace } }[] = [];
+  let complete = true;
+  for (const entry of entries) {
+    if (entry.place || !entry.location) continue;
+    try {
+      const place = await reverseGeocodePlace(entry.location.coords);
+      if (place) {
+        updates.push({ id: entry.id, changes: { place } });
+      }
+    } catch (error) {
+      // Offline or throttled; the rest are tried next time
+      console.error('Error backfilling place:', error);
+      complete = false;
+      break;
+    }
+  }
+  const updated = await updateEntries(updates);
+  if (complete) {
+    await AsyncStorage.setItem(PLACES_BACKFILLED_KEY, 'true');
+  }
+  return updated;
+};
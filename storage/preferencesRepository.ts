@@ -0,0 +1,23 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DateSortOrder } from '../utils/dates.ts';
+
+export const FEED_SORT_KEY = 'feedSortOrder';
+export const FEED_LAYOUT_KEY = 'feedLayout';
+
+// Full-width posts, or a three-column grid of thumbnails
+export type FeedLayout = 'feed' | 'grid';
+
+// Newest first unless the user picked otherwise
+export const getFeedSortOrder = async (): Promise<DateSortOrder> =>
+  (await AsyncStorage.getItem(FEED_SORT_KEY)) === 'oldest' ? 'oldest' : 'newest';
+
+export const saveFeedSortOrder = async (order: DateSortOrder) => {
+  await AsyncStorage.setItem(FEED_SORT_KEY, order);
+};
+
+export const getFeedLayout = async (): Promise<FeedLayout> =>
+  (await AsyncStorage.getItem(FEED_LAYOUT_KEY)) === 'grid' ? 'grid' : 'feed';
+
+export const saveFeedLayout = async (layout: FeedLayout) => {
+  await AsyncStorage.setItem(FEED_LAYOUT_KEY, layout);
+};
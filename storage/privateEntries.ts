@@ -0,0 +1,69 @@
+import type { TravelEntry } from './entryRepository.ts';
+import { decryptText, encryptText } from '../utils/crypto.ts';
+
+// The text of a private entry. Photos, dates and positions stay readable so
+// the app can still manage the files and sort the diary while locked.
+const PRIVATE_FIELDS = ['title', 'description', 'address', 'place', 'tags'] as const;
+
+type PrivateFields = Pick<TravelEntry, (typeof PRIVATE_FIELDS)[number]>;
+
+// Derived from the PIN when the app is unlocked and dropped when it locks.
+// It only ever lives in memory.
+let entryKey: Uint8Array | null = null;
+
+export const setEntryKey = (key: Uint8Array | null) => {
+  entryKey = key;
+};
+
+export const isUnlocked = () => entryKey !== null;
+
+// Private entries are stored with their text replaced by `sealed`. Other
+// entries are returned as they are.
+export const sealEntry = (entry: TravelEntry, key: Uint8Array | null = entryKey): TravelEntry => {
+  if (!entry.isPrivate) return entry;
+  if (!key) {
+    throw new Error('Private entries can only be saved while the diary is unlocked');
+  }
+  const secret: PrivateFields = {
+    title: entry.title,
+    description: entry.description,
+    address: entry.address,
+    place: entry.place,
+    tags: entry.tags,
+  };
+  return {
+    ...entry,
+    title: '',
+    description: '',
+    address: '',
+    place: undefined,
+    tags: undefined,
+    sealed: encryptText(key, JSON.stringify(secret)),
+  };
+};
+
+// Returns null for a sealed entry that can't be read with the key, which is
+// every sealed entry while the diary is locked
+export const openEntry = (stored: TravelEntry, key: Uint8Array | null = entryKey): TravelEntry | null => {
+  if (!stored.sealed) return stored;
+  if (!key) return null;
+  try {
+    const secret: PrivateFields = JSON.parse(decryptText(key, stored.sealed));
+    const { sealed, ...entry } = stored;
+    return { ...entry, ...secret };
+  } catch (error) {
+    console.error('Error opening private entry:', error);
+    return null;
+  }
+};
+
+// Sealed with `from`, resealed with `to`, e.g. when the PIN changes. Throws
+// if an entry can't be opened, so nothing is written half-converted.
+export const resealEntry = (stored: TravelEntry, from: Uint8Array, to: Uint8Array): TravelEntry => {
+  if (!stored.sealed) return stored;
+  const opened = openEntry(stored, from);
+  if (!opened) {
+    throw new Error(`Private entry ${stored.id} could not be opened`);
+  }
+  return sealEntry(opened, to);
+};
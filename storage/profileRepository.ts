@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DATE_FORMATS, DateFormat } from '../utils/dates.ts';
+import { deletePhotos } from './photoStore.ts';
+
+export const PROFILE_KEY = 'profile';
+
+// Who the diary belongs to. The home city lives with the other places; see
+// placeRepository.getHomePlace.
+export type Profile = {
+  displayName: string;
+  // A photo in the photo store, or null for the default icon
+  avatarUri: string | null;
+  dateFormat: DateFormat;
+};
+
+export const DEFAULT_PROFILE: Profile = {
+  displayName: '',
+  avatarUri: null,
+  dateFormat: 'system',
+};
+
+// Shown in the feed header and on every post
+export const getDiaryTitle = (profile: Profile) => {
+  const name = profile.displayName.trim();
+  return name ? `${name}'s Travel Diary` : 'My Travel Diary';
+};
+
+const isDateFormat = (value: unknown): value is DateFormat =>
+  DATE_FORMATS.some(format => format === value);
+
+// Anything unreadable falls back to the defaults field by field
+export const parseProfile = (raw: unknown): Profile => {
+  const fields: Record<string, unknown> = raw && typeof raw === 'object' ? { ...raw } : {};
+  return {
+    displayName: typeof fields.displayName === 'string' ? fields.displayName : DEFAULT_PROFILE.displayName,
+    avatarUri: typeof fields.avatarUri === 'string' ? fields.avatarUri : null,
+    dateFormat: isDateFormat(fields.dateFormat) ? fields.dateFormat : DEFAULT_PROFILE.dateFormat,
+  };
+};
+
+export const getProfile = async (): Promise<Profile> => {
+  const profileStr = await AsyncStorage.getItem(PROFILE_KEY);
+  return profileStr ? parseProfile(JSON.parse(profileStr)) : DEFAULT_PROFILE;
+};
+
+// Deletes the old avatar when it is replaced or removed
+export const saveProfile = async (profile: Profile) => {
+  const previous = await getProfile();
+  await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  if (previous.avatarUri && previous.avatarUri !== profile.avatarUri) {
+    await deletePhotos([previous.avatarUri]);
+  }
+};
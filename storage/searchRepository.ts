@@ -0,0 +1,19 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EMPTY_FILTERS, EntryFilters } from '../utils/search.ts';
+import { getAppLock } from './appLockRepository.ts';
+
+export const SEARCH_FILTERS_KEY = 'searchFilters';
+
+// The last search is restored the next time the Search screen opens
+export const getSavedFilters = async (): Promise<EntryFilters> => {
+  const filtersStr = await AsyncStorage.getItem(SEARCH_FILTERS_KEY);
+  // Merge so filters added in later versions get their defaults
+  return filtersStr ? { ...EMPTY_FILTERS, ...JSON.parse(filtersStr) } : EMPTY_FILTERS;
+};
+
+// With a PIN set the query, country and city may come from a private entry,
+// so only the other filters are kept
+export const saveFilters = async (filters: EntryFilters) => {
+  const kept = (await getAppLock()) ? { ...filters, query: '', country: null, city: null } : filters;
+  await AsyncStorage.setItem(SEARCH_FILTERS_KEY, JSON.stringify(kept));
+};
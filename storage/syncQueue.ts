@@ -0,0 +1,322 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { TravelEntry } from './entryRepository.ts';
+import type { ActionState, ActionStates, PostAction } from './actionStateRepository.ts';
+import { getSyncSettings } from './syncSettingsRepository.ts';
+import { removeConflictsForEntries } from './conflictLogRepository.ts';
+import { getPhotoName, isStoredPhoto } from './photoStore.ts';
+
+export const SYNC_QUEUE_KEY = 'syncQueue';
+export const SYNC_FIELD_VERSIONS_KEY = 'syncFieldVersions';
+
+// Entry fields that sync. Comments, trips and collections stay on the device.
+export const SYNCED_ENTRY_FIELDS = [
+  'title',
+  'description',
+  'images',
+  'coverIndex',
+  'location',
+  'address',
+  'place',
+  'locationSource',
+  'date',
+  'dateSource',
+  'tripId',
+  'tags',
+] as const;
+
+export type SyncedEntryField = (typeof SYNCED_ENTRY_FIELDS)[number];
+
+// On the server an entry is a set of fields, each resolved on its own. Being
+// in the Trash, being withdrawn (made private) and the like/share/save flags
+// are fields too.
+export type SyncField = SyncedEntryField | 'deleted' | 'withdrawn' | 'liked' | 'shared' | 'saved';
+
+export const ACTION_SYNC_FIELDS: { [action in PostAction]: 'liked' | 'shared' | 'saved' } = {
+  like: 'liked',
+  share: 'shared',
+  save: 'saved',
+};
+
+export type FieldChange = {
+  value: unknown;
+  updatedAt: string;
+  // When the value this change replaced was written; the server reports a
+  // conflict if another device changed the field after that
+  baseUpdatedAt: string | null;
+};
+
+export type EntryFieldChanges = { [field in SyncField]?: FieldChange };
+
+export type SyncOperation =
+  | { kind: 'entry'; entryId: string; fields: EntryFieldChanges; attempts: number; nextAttemptAt: number }
+  | { kind: 'photo'; name: string; uri: string; attempts: number; nextAttemptAt: number };
+
+// When each field's local value was written, per entry
+export type FieldVersions = { [entryId: string]: { [field in SyncField]?: string } };
+
+// Changes to one entry are merged into a single operation, so the key is the
+// entry id or the photo name
+export const operationKey = (operation: SyncOperation) =>
+  operation.kind === 'entry' ? `entry:${operation.entryId}` : `photo:${operation.name}`;
+
+// Photos are referred to by name on the server; see photoStore.getPhotoName
+export const toSyncedImages = (images: string[]) =>
+  images.map(uri => (isStoredPhoto(uri) ? getPhotoName(uri) : uri));
+
+// Undefined doesn't survive JSON, so missing optional fields travel as null
+const toSyncedValue = (entry: TravelEntry, field: SyncedEntryField): unknown =>
+  field === 'images' ? toSyncedImages(entry.images) : entry[field] ?? null;
+
+let queueLock: Promise<unknown> = Promise.resolve();
+
+// Queue and versions are read, changed and written back; running every update
+// through one chain keeps two of them from overwriting each other
+const withQueue = <T>(update: () => Promise<T>): Promise<T> => {
+  const result = queueLock.then(update);
+  queueLock = result.catch(() => undefined);
+  return result;
+};
+
+const readQueue = async (): Promise<SyncOperation[]> => {
+  const queueStr = await AsyncStorage.getItem(SYNC_QUEUE_KEY);
+  return queueStr ? JSON.parse(queueStr) : [];
+};
+
+const writeQueue = async (queue: SyncOperation[]) => {
+  await AsyncStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+};
+
+export const getFieldVersions = async (): Promise<FieldVersions> => {
+  const versionsStr = await AsyncStorage.getItem(SYNC_FIELD_VERSIONS_KEY);
+  return versionsStr ? JSON.parse(versionsStr) : {};
+};
+
+const writeFieldVersions = async (versions: FieldVersions) => {
+  await AsyncStorage.setItem(SYNC_FIELD_VERSIONS_KEY, JSON.stringify(versions));
+};
+
+export const getSyncQueue = (): Promise<SyncOperation[]> => readQueue();
+
+const queuedListeners = new Set<() => void>();
+
+// Called whenever a change is added to the queue, so it can be sent soon.
+// Returns an unsubscribe function.
+export const onSyncQueued = (listener: () => void) => {
+  queuedListeners.add(listener);
+  return () => {
+    queuedListeners.delete(listener);
+  };
+};
+
+// Adds field changes for entries, merging them into any operation already
+// waiting for the same entry. A field changed twice before it was sent keeps
+// the base of the first change.
+const enqueueFields = async (
+  changes: { entryId: string; fields: { [field in SyncField]?: unknown }; updatedAt: string }[],
+  photos: { name: string; uri: string }[] = []
+) => {
+  if (changes.length === 0 && photos.length === 0) return;
+  await withQueue(async () => {
+    const [queue, versions] = await Promise.all([readQueue(), getFieldVersions()]);
+    for (const photo of photos) {
+      if (!queue.some(op => op.kind === 'photo' && op.name === photo.name)) {
+        queue.push({ kind: 'photo', ...photo, attempts: 0, nextAttemptAt: 0 });
+      }
+    }
+    for (const { entryId, fields, updatedAt } of changes) {
+      const entryVersions = { ...versions[entryId] };
+      const existing = queue.find(
+        (op): op is Extract<SyncOperation, { kind: 'entry' }> => op.kind === 'entry' && op.entryId === entryId
+      );
+      const operation = existing ?? { kind: 'entry', entryId, fields: {}, attempts: 0, nextAttemptAt: 0 };
+      if (!existing) {
+        queue.push(operation);
+      }
+      (Object.keys(fields) as SyncField[]).forEach(field => {
+        const pending = operation.fields[field];
+        operation.fields[field] = {
+          value: fields[field],
+          updatedAt,
+          baseUpdatedAt: pending ? pending.baseUpdatedAt : entryVersions[field] ?? null,
+        };
+        entryVersions[field] = updatedAt;
+      });
+      // A new change is worth trying right away, even after earlier failures
+      operation.nextAttemptAt = 0;
+      versions[entryId] = entryVersions;
+    }
+    await writeQueue(queue);
+    await writeFieldVersions(versions);
+  });
+  queuedListeners.forEach(listener => listener());
+};
+
+const photosAddedBy = (before: TravelEntry | null, after: TravelEntry) =>
+  after.images
+    .filter(uri => isStoredPhoto(uri) && !before?.images.includes(uri))
+    .map(uri => ({ name: getPhotoName(uri), uri }));
+
+// What the server keeps of an entry that was made private: nothing but the
+// withdrawn flag. Other devices delete their copy for good when they see it.
+const WITHDRAWN_FIELDS: { [field in SyncField]?: unknown } = {
+  deleted: true,
+  withdrawn: true,
+  ...Object.fromEntries(SYNCED_ENTRY_FIELDS.map(field => [field, null])),
+};
+
+type QueuedChange = { entryId: string; fields: { [field in SyncField]?: unknown }; updatedAt: string };
+
+// A local edit, as given to queueEntryChanges. `before` is null when the
+// entry is new or back from the Trash, and `after` is null when it was moved
+// to the Trash.
+export type EntryChange = { before: TravelEntry | null; after: TravelEntry | null };
+
+// The fields an edit changed, or null if none that sync did
+const toQueuedChange = ({ before: previous, after }: EntryChange, updatedAt: string): QueuedChange | null => {
+  // Private entries stay on this device. One made public again is sent as if new.
+  const before = previous?.isPrivate ? null : previous;
+  if (after?.isPrivate) {
+    return before ? { entryId: before.id, fields: WITHDRAWN_FIELDS, updatedAt } : null;
+  }
+  if (!after) {
+    return before ? { entryId: before.id, fields: { deleted: true }, updatedAt } : null;
+  }
+
+  const fields: { [field in SyncField]?: unknown } = before ? {} : { deleted: false };
+  if (previous?.isPrivate) {
+    fields.withdrawn = false;
+  }
+  SYNCED_ENTRY_FIELDS.forEach(field => {
+    const value = toSyncedValue(after, field);
+    if (!before || JSON.stringify(value) !== JSON.stringify(toSyncedValue(before, field))) {
+      fields[field] = value;
+    }
+  });
+  return Object.keys(fields).length > 0 ? { entryId: after.id, fields, updatedAt } : null;
+};
+
+// Records local edits for the next sync, in one write to the queue
+export const queueEntryChanges = async (edits: EntryChange[]) => {
+  const { enabled } = await getSyncSettings();
+  if (!enabled) return;
+  const updatedAt = new Date().toISOString();
+  const changes = edits.flatMap(edit => {
+    const change = toQueuedChange(edit, updatedAt);
+    return change ? [change] : [];
+  });
+  const photos = edits.flatMap(({ before, after }) =>
+    after && !after.isPrivate ? photosAddedBy(before?.isPrivate ? null : before, after) : []
+  );
+  await enqueueFields(changes, photos);
+  const withdrawn = edits.filter(({ before, after }) => after?.isPrivate && before && !before.isPrivate);
+  await removeConflictsForEntries(withdrawn.map(({ before }) => before!.id));
+};
+
+export const queueEntryChange = (before: TravelEntry | null, after: TravelEntry | null) =>
+  queueEntryChanges([{ before, after }]);
+
+// Records flipped like/share/save flags
+export const queueActionChanges = async (action: PostAction, before: ActionState, after: ActionState) => {
+  const { enabled } = await getSyncSettings();
+  if (!enabled) return;
+  const updatedAt = new Date().toISOString();
+  const field = ACTION_SYNC_FIELDS[action];
+  const entryIds = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes = Array.from(entryIds)
+    .filter(entryId => !!before[entryId] !== !!after[entryId])
+    .map(entryId => ({ entryId, fields: { [field]: !!after[entryId] }, updatedAt }));
+  await enqueueFields(changes);
+};
+
+// Queues every entry and flag when sync is switched on. Each entry's fields
+// are dated by its own last edit, so a device that was edited more recently
+// wins when two diaries meet for the first time.
+export const queueEverything = async (allEntries: TravelEntry[], actionStates: ActionStates) => {
+  const entries = allEntries.filter(entry => !entry.isPrivate);
+  const changes = entries.map(entry => {
+    const fields: { [field in SyncField]?: unknown } = {
+      deleted: false,
+      liked: !!actionStates.liked[entry.id],
+      shared: !!actionStates.shared[entry.id],
+      saved: !!actionStates.saved[entry.id],
+    };
+    SYNCED_ENTRY_FIELDS.forEach(field => {
+      fields[field] = toSyncedValue(entry, field);
+    });
+    return { entryId: entry.id, fields, updatedAt: entry.updatedAt ?? entry.date };
+  });
+  await enqueueFields(
+    changes,
+    entries.flatMap(entry => photosAddedBy(null, entry))
+  );
+};
+
+// Drops what the server accepted. Fields changed again while the request was
+// in flight stay queued.
+export const completeOperation = async (sent: SyncOperation) => {
+  await withQueue(async () => {
+    const queue = await readQueue();
+    const key = operationKey(sent);
+    const updated = queue.flatMap(operation => {
+      if (operationKey(operation) !== key) return [operation];
+      if (operation.kind === 'photo' || sent.kind === 'photo') return [];
+      const fields = { ...operation.fields };
+      (Object.keys(sent.fields) as SyncField[]).forEach(field => {
+        if (fields[field]?.updatedAt === sent.fields[field]?.updatedAt) {
+          delete fields[field];
+        }
+      });
+      return Object.keys(fields).length > 0 ? [{ ...operation, fields, attempts: 0 }] : [];
+    });
+    await writeQueue(updated);
+  });
+};
+
+// Forgets unsent changes to entries this device no longer has, e.g. ones
+// withdrawn on another device, so none of their text is sent again
+export const dropQueuedEntries = async (entryIds: string[]) => {
+  if (entryIds.length === 0) return;
+  const dropped = new Set(entryIds);
+  await withQueue(async () => {
+    const queue = await readQueue();
+    await writeQueue(queue.filter(operation => operation.kind !== 'entry' || !dropped.has(operation.entryId)));
+  });
+};
+
+// Pushes the operation back by an interval that doubles with each failure
+export const postponeOperation = async (sent: SyncOperation, delayMs: number) => {
+  await withQueue(async () => {
+    const queue = await readQueue();
+    const key = operationKey(sent);
+    await writeQueue(
+      queue.map(operation =>
+        operationKey(operation) === key
+          ? { ...operation, attempts: operation.attempts + 1, nextAttemptAt: Date.now() + delayMs }
+          : operation
+      )
+    );
+  });
+};
+
+// Remembers when fields applied from the server were written, so later local
+// edits send the right base
+export const recordSyncedVersions = async (
+  updates: { entryId: string; fields: { [field in SyncField]?: string } }[]
+) => {
+  if (updates.length === 0) return;
+  await withQueue(async () => {
+    const versions = await getFieldVersions();
+    updates.forEach(({ entryId, fields }) => {
+      versions[entryId] = { ...versions[entryId], ...fields };
+    });
+    await writeFieldVersions(versions);
+  });
+};
+
+// Forgets unsent changes and versions, e.g. when sync is switched off
+export const clearSyncQueue = async () => {
+  await withQueue(async () => {
+    await AsyncStorage.removeItem(SYNC_QUEUE_KEY);
+    await AsyncStorage.removeItem(SYNC_FIELD_VERSIONS_KEY);
+  });
+};
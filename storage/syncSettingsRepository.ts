@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const SYNC_SETTINGS_KEY = 'syncSettings';
+export const SYNC_STATE_KEY = 'syncState';
+
+// Chosen by the user on the Sync screen
+export type SyncSettings = {
+  enabled: boolean;
+  // Base URL of the server, e.g. http://192.168.1.20:8787
+  serverUrl: string;
+  // Sent as a bearer token when set; must match the server's SYNC_TOKEN
+  token: string;
+};
+
+// Kept by the sync engine between runs
+export type SyncState = {
+  // Identifies this install to the server; breaks ties between equal timestamps
+  deviceId: string;
+  // Server sequence number of the last change pulled
+  cursor: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+};
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  serverUrl: '',
+  token: '',
+};
+
+const newDeviceId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getSyncSettings = async (): Promise<SyncSettings> => {
+  const settingsStr = await AsyncStorage.getItem(SYNC_SETTINGS_KEY);
+  return settingsStr ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(settingsStr) } : DEFAULT_SYNC_SETTINGS;
+};
+
+export const saveSyncSettings = async (settings: SyncSettings) => {
+  await AsyncStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Creates the device id the first time it is asked for
+export const getSyncState = async (): Promise<SyncState> => {
+  const stateStr = await AsyncStorage.getItem(SYNC_STATE_KEY);
+  if (stateStr) return JSON.parse(stateStr);
+  const state: SyncState = { deviceId: newDeviceId(), cursor: 0, lastSyncedAt: null, lastError: null };
+  await saveSyncState(state);
+  return state;
+};
+
+export const saveSyncState = async (state: SyncState) => {
+  await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+};
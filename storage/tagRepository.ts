@@ -0,0 +1,47 @@
+import {
+  TravelEntry,
+  getEntries,
+  getTrashedEntries,
+  updateEntries,
+  updateTrashedEntries,
+} from './entryRepository.ts';
+import { getEntryTags, mergeTags, normalizeTag, renameHashtag } from '../utils/tags.ts';
+
+export type TagCount = {
+  tag: string;
+  count: number;
+};
+
+// Most used first, then alphabetical
+export const getTagCounts = (entries: TravelEntry[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  entries.forEach(entry => {
+    getEntryTags(entry).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const getTaggedEntries = (entries: TravelEntry[], tag: string) =>
+  entries.filter(entry => getEntryTags(entry).includes(tag));
+
+// Renames the tag on every entry, including hashtags in captions and entries
+// in the Trash. Renaming to a tag that already exists merges the two.
+// Returns how many entries outside the Trash changed.
+export const renameTag = async (from: string, to: string): Promise<number> => {
+  const target = normalizeTag(to);
+  if (!target || target === from) return 0;
+  const [entries, trashed] = await Promise.all([getEntries(), getTrashedEntries()]);
+  const renamed = (tagged: TravelEntry[]) =>
+    tagged.map(entry => ({
+      id: entry.id,
+      changes: {
+        description: renameHashtag(entry.description, from, target),
+        tags: mergeTags(getEntryTags(entry).map(tag => (tag === from ? target : tag))),
+      },
+    }));
+  const updated = await updateEntries(renamed(getTaggedEntries(entries, from)));
+  await updateTrashedEntries(renamed(getTaggedEntries(trashed.map(({ entry }) => entry), from)));
+  return updated.length;
+};
@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCoverThumbnail, getEntriesByIds, getEntryIndex, removeEntriesFromTrip } from './entryRepository.ts';
+import { deletePhotos, getThumbnailUri } from './photoStore.ts';
+
+export const TRIPS_KEY = 'travelTrips';
+
+// A named journey that groups entries. Dates are ISO strings covering whole
+// days: startDate is the start of the first day, endDate the end of the last.
+export type Trip = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  // Falls back to the cover photo of the trip's first entry when unset
+  coverImage?: string;
+  description?: string;
+};
+
+export type NewTrip = Omit<Trip, 'id'>;
+
+const writeTrips = async (trips: Trip[]) => {
+  await AsyncStorage.setItem(TRIPS_KEY, JSON.stringify(trips));
+};
+
+// Newest trip first, matching the order the stories row shows them in
+export const getTrips = async (): Promise<Trip[]> => {
+  const tripsStr = await AsyncStorage.getItem(TRIPS_KEY);
+  const trips: Trip[] = tripsStr ? JSON.parse(tripsStr) : [];
+  return trips.sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
+
+export const getTrip = async (id: string): Promise<Trip | undefined> => {
+  const trips = await getTrips();
+  return trips.find(trip => trip.id === id);
+};
+
+export const addTrip = async (input: NewTrip): Promise<Trip> => {
+  const trips = await getTrips();
+  const trip: Trip = { ...input, id: Date.now().toString() };
+  await writeTrips([...trips, trip]);
+  return trip;
+};
+
+export const updateTrip = async (id: string, changes: Partial<NewTrip>): Promise<Trip> => {
+  const trips = await getTrips();
+  const existing = trips.find(trip => trip.id === id);
+  if (!existing) {
+    throw new Error(`Trip ${id} not found`);
+  }
+  const updated = { ...existing, ...changes, id };
+  await writeTrips(trips.map(trip => (trip.id === id ? updated : trip)));
+  if (existing.coverImage && existing.coverImage !== updated.coverImage) {
+    await deletePhotos([existing.coverImage]);
+  }
+  return updated;
+};
+
+// Entries in the trip are kept and simply go back to the main feed
+export const deleteTrip = async (id: string) => {
+  const trips = await getTrips();
+  const deleted = trips.find(trip => trip.id === id);
+  await writeTrips(trips.filter(trip => trip.id !== id));
+  if (deleted?.coverImage) {
+    await deletePhotos([deleted.coverImage]);
+  }
+
+  await removeEntriesFromTrip(id);
+};
+
+export const replaceTrips = async (trips: Trip[]) => {
+  await writeTrips(trips);
+};
+
+export const isDateInTrip = (trip: Trip, date: string | Date) => {
+  const time = new Date(date).getTime();
+  return time >= new Date(trip.startDate).getTime() && time <= new Date(trip.endDate).getTime();
+};
+
+// The trip an entry made on `date` should default to. When ranges overlap the
+// most recently started trip wins.
+export const findActiveTrip = (trips: Trip[], date: string | Date): Trip | undefined =>
+  trips
+    .filter(trip => isDateInTrip(trip, date))
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+
+// Story circle thumbnails by trip id: the trip's own cover, or else the cover
+// of its first entry. Only those first entries are read.
+export const getTripCovers = async (trips: Trip[]): Promise<{ [tripId: string]: string }> => {
+  // The index is newest first, so the last row seen for a trip is its first entry
+  const firstEntryIds = new Map<string, string>();
+  (await getEntryIndex()).forEach(row => {
+    if (row.tripId) firstEntryIds.set(row.tripId, row.id);
+  });
+  const firstEntries = await getEntriesByIds(
+    trips.flatMap(trip => (!trip.coverImage && firstEntryIds.has(trip.id) ? [firstEntryIds.get(trip.id)!] : []))
+  );
+
+  const covers: { [tripId: string]: string } = {};
+  firstEntries.forEach(entry => {
+    if (entry.tripId) covers[entry.tripId] = getCoverThumbnail(entry);
+  });
+  trips.forEach(trip => {
+    if (trip.coverImage) covers[trip.id] = getThumbnailUri(trip.coverImage);
+  });
+  return covers;
+};
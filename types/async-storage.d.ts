@@ -2,5 +2,8 @@ declare module '@react-native-async-storage/async-storage' {
   export async function getItem(key: string): Promise<string | null>;
   export async function setItem(key: string, value: string): Promise<void>;
   export async function removeItem(key: string): Promise<void>;
+  export async function multiGet(keys: string[]): Promise<[string, string | null][]>;
+  export async function multiSet(keyValuePairs: [string, string][]): Promise<void>;
+  export async function multiRemove(keys: string[]): Promise<void>;
   export async function clear(): Promise<void>;
 } 
\ No newline at end of file
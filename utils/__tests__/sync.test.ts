@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TravelEntry, addEntry, getEntry, getTrashedEntries, updateEntry } from '../../storage/entryRepository.ts';
+import { getConflicts } from '../../storage/conflictLogRepository.ts';
+import { getSyncQueue } from '../../storage/syncQueue.ts';
+import { getSyncState, saveSyncSettings } from '../../storage/syncSettingsRepository.ts';
+import { syncNow, turnOffSync } from '../sync.ts';
+
+const REMOTE_AT = '2030-01-01T00:00:00.000Z';
+
+const entryOn = (id: string, title: string): TravelEntry => ({
+  id,
+  title,
+  description: '',
+  images: [`https://example.com/${id}.jpg`],
+  coverIndex: 0,
+  location: null,
+  address: '',
+  date: '2024-05-01T10:00:00.000Z',
+});
+
+// A field as the server holds it, written by another device
+const remote = (value: unknown) => ({ value, updatedAt: REMOTE_AT, deviceId: 'other-phone' });
+
+// What the app sends with PUT /v1/entries/:id
+type SentChanges = { deviceId: string; fields: { [field: string]: unknown } };
+
+type Handler = (method: string, path: string, body?: SentChanges) => unknown;
+
+// Answers the app's requests with whatever the handler returns; a handler
+// that throws fails the request the way an unreachable server does
+const serve = (handler: Handler) => {
+  const fetchMock = jest.fn(async (url: string, init: { method: string; body?: string }) => {
+    const body = handler(init.method, url.replace('http://sync.test', ''), init.body && JSON.parse(init.body));
+    return { ok: true, status: 200, json: async () => body };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+// One page of changes, after which there is nothing more to pull
+const changes = (records: unknown[]) => ({ records, cursor: records.length, hasMore: false });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+afterEach(async () => {
+  // Clears the retry timer a sync leaves behind
+  await turnOffSync();
+});
+
+test('a pull applies newer fields, trashes entries deleted elsewhere and forgets withdrawn ones', async () => {
+  await addEntry(entryOn('edited', 'Old title'));
+  await addEntry(entryOn('deleted', 'Deleted elsewhere'));
+  await addEntry(entryOn('withdrawn', 'Made private elsewhere'));
+  await saveSyncSettings({ enabled: true, serverUrl: 'http://sync.test', token: '' });
+  serve((method, path) => {
+    expect(`${method} ${path}`).toBe('GET /v1/changes?since=0');
+    return changes([
+      { id: 'edited', seq: 1, fields: { title: remote('New title') } },
+      { id: 'deleted', seq: 2, fields: { deleted: remote(true) } },
+      { id: 'withdrawn', seq: 3, fields: { deleted: remote(true), withdrawn: remote(true), title: remote(null) } },
+      {
+        id: 'new',
+        seq: 4,
+        fields: {
+          deleted: remote(false),
+          title: remote('From the other phone'),
+          images: remote(['https://example.com/new.jpg']),
+          date: remote('2024-05-02T10:00:00.000Z'),
+        },
+      },
+    ]);
+  });
+
+  await syncNow();
+
+  expect(await getEntry('edited')).toMatchObject({ title: 'New title', images: ['https://example.com/edited.jpg'] });
+  expect(await getEntry('new')).toMatchObject({ title: 'From the other phone', description: '', coverIndex: 0 });
+  expect(await getEntry('deleted')).toBeUndefined();
+  expect(await getEntry('withdrawn')).toBeUndefined();
+  expect((await getTrashedEntries()).map(trashed => trashed.entry.id)).toEqual(['deleted']);
+  expect((await getSyncState()).cursor).toBe(4);
+});
+
+test('fields still waiting to be sent are left alone by a pull', async () => {
+  await addEntry(entryOn('a', 'Old title'));
+  await saveSyncSettings({ enabled: true, serverUrl: 'http://sync.test', token: '' });
+  await updateEntry('a', { description: 'Written offline' });
+  serve(() => {
+    throw new TypeError('Network request failed');
+  });
+  await expect(syncNow()).rejects.toThrow('Network request failed');
+
+  // The failed push waits before it is tried again, so only the pull runs
+  serve(() =>
+    changes([{ id: 'a', seq: 1, fields: { title: remote('New title'), description: remote('Written elsewhere') } }])
+  );
+  await syncNow();
+
+  expect(await getEntry('a')).toMatchObject({ title: 'New title', description: 'Written offline' });
+  const [queued] = await getSyncQueue();
+  expect(queued).toMatchObject({ kind: 'entry', entryId: 'a', attempts: 1 });
+  expect(queued.kind === 'entry' && Object.keys(queued.fields)).toEqual(['description']);
+});
+
+test('a push takes the values the server kept and logs the conflict', async () => {
+  await addEntry(entryOn('a', 'Harbour'));
+  await saveSyncSettings({ enabled: true, serverUrl: 'http://sync.test', token: '' });
+  await updateEntry('a', { title: 'Harbour at night' });
+  const fetchMock = serve((method, path, body) => {
+    if (method === 'GET') return changes([]);
+    expect(path).toBe('/v1/entries/a');
+    expect(body?.fields.title).toMatchObject({ value: 'Harbour at night', baseUpdatedAt: null });
+    return {
+      record: { id: 'a', seq: 1, fields: { title: remote('Old harbour') } },
+      conflicts: [{ field: 'title', winner: 'server', serverValue: 'Old harbour', clientValue: 'Harbour at night' }],
+    };
+  });
+
+  await syncNow();
+
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+  expect(await getEntry('a')).toMatchObject({ title: 'Old harbour' });
+  expect(await getSyncQueue()).toEqual([]);
+  expect(await getConflicts()).toEqual([
+    expect.objectContaining({
+      entryId: 'a',
+      entryTitle: 'Old harbour',
+      field: 'title',
+      winner: 'remote',
+      keptValue: 'Old harbour',
+      discardedValue: 'Harbour at night',
+    }),
+  ]);
+});
@@ -0,0 +1,4 @@
+// Adds transparency to a "#rrggbb" palette colour, e.g. for a tinted
+// background behind accent text
+export const withAlpha = (color: string, alpha: number) =>
+  `${color}${Math.round(alpha * 255).toString(16).padStart(2, '0')}`;
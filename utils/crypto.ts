@@ -0,0 +1,315 @@
+import { getRandomBytes } from 'expo-crypto';
+
+// Encryption for private entries. The Expo SDK this app is on only offers
+// random bytes and plain digests, so key derivation (PBKDF2-HMAC-SHA256) and
+// encryption (ChaCha20 with an HMAC-SHA256 tag, encrypt-then-MAC) are written
+// out here. All of it works on byte arrays; only key derivation, the slow
+// part, has an async form.
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_IV = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+const schedule = new Uint32Array(64);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+// Mixes one 64-byte block into the state
+const compress = (state: Uint32Array, block: Uint8Array, offset: number) => {
+  const w = schedule;
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    w[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+  }
+  for (let i = 16; i < 64; i++) {
+    const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+    const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+    w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+  }
+  let [a, b, c, d, e, f, g, h] = state;
+  for (let i = 0; i < 64; i++) {
+    const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    h = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+  state[0] += a;
+  state[1] += b;
+  state[2] += c;
+  state[3] += d;
+  state[4] += e;
+  state[5] += f;
+  state[6] += g;
+  state[7] += h;
+};
+
+// Finishes a hash whose first `prefixLength` bytes (a multiple of 64) are
+// already mixed into `start`. HMAC reuses its keyed states this way.
+const finishHash = (start: Uint32Array, prefixLength: number, message: Uint8Array): Uint8Array => {
+  const state = start.slice();
+  const fullBlocks = Math.floor(message.length / 64);
+  for (let i = 0; i < fullBlocks; i++) {
+    compress(state, message, i * 64);
+  }
+  const rest = message.length - fullBlocks * 64;
+  const tail = new Uint8Array(rest < 56 ? 64 : 128);
+  tail.set(message.subarray(fullBlocks * 64));
+  tail[rest] = 0x80;
+  const bitLength = (prefixLength + message.length) * 8;
+  const view = new DataView(tail.buffer);
+  view.setUint32(tail.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(tail.length - 4, bitLength >>> 0);
+  for (let offset = 0; offset < tail.length; offset += 64) {
+    compress(state, tail, offset);
+  }
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  state.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+};
+
+export const sha256 = (message: Uint8Array) => finishHash(SHA256_IV, 0, message);
+
+type HmacKey = { inner: Uint32Array; outer: Uint32Array };
+
+const prepareHmacKey = (key: Uint8Array): HmacKey => {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const keyedState = (pad: number) => {
+    const state = SHA256_IV.slice();
+    compress(state, block.map(byte => byte ^ pad), 0);
+    return state;
+  };
+  return { inner: keyedState(0x36), outer: keyedState(0x5c) };
+};
+
+const hmacWith = ({ inner, outer }: HmacKey, message: Uint8Array) =>
+  finishHash(outer, 64, finishHash(inner, 64, message));
+
+export const hmacSha256 = (key: Uint8Array, message: Uint8Array) => hmacWith(prepareHmacKey(key), message);
+
+// PBKDF2-HMAC-SHA256 (RFC 8018). Pauses after every PBKDF2_STEP iterations,
+// so pbkdf2Async can let the app draw in between.
+const PBKDF2_STEP = 256;
+
+function* pbkdf2Steps(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Generator<void, Uint8Array> {
+  const key = prepareHmacKey(password);
+  const output = new Uint8Array(length);
+  for (let blockIndex = 1, offset = 0; offset < length; blockIndex++, offset += 32) {
+    const first = new Uint8Array(salt.length + 4);
+    first.set(salt);
+    new DataView(first.buffer).setUint32(salt.length, blockIndex);
+    let u = hmacWith(key, first);
+    const t = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmacWith(key, u);
+      for (let j = 0; j < 32; j++) t[j] ^= u[j];
+      if (i % PBKDF2_STEP === 0) yield;
+    }
+    output.set(t.subarray(0, Math.min(32, length - offset)), offset);
+  }
+  return output;
+}
+
+export const pbkdf2 = (password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Uint8Array => {
+  const steps = pbkdf2Steps(password, salt, iterations, length);
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+};
+
+// How long pbkdf2Async may hold the JS thread before letting it draw a frame
+const PBKDF2_SLICE_MS = 12;
+
+// The same result as pbkdf2, worked out in short slices. Without a native KDF
+// it runs on the JS thread, where Hermes needs a few seconds for a PIN's
+// iterations; in slices the app keeps drawing and taking touches meanwhile.
+export const pbkdf2Async = async (
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Promise<Uint8Array> => {
+  const steps = pbkdf2Steps(password, salt, iterations, length);
+  let sliceStart = Date.now();
+  let step = steps.next();
+  while (!step.done) {
+    if (Date.now() - sliceStart >= PBKDF2_SLICE_MS) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      sliceStart = Date.now();
+    }
+    step = steps.next();
+  }
+  return step.value;
+};
+
+const quarterRound = (x: Uint32Array, a: number, b: number, c: number, d: number) => {
+  x[a] += x[b]; x[d] = rotr(x[d] ^ x[a], 16);
+  x[c] += x[d]; x[b] = rotr(x[b] ^ x[c], 20);
+  x[a] += x[b]; x[d] = rotr(x[d] ^ x[a], 24);
+  x[c] += x[d]; x[b] = rotr(x[b] ^ x[c], 25);
+};
+
+// ChaCha20 (RFC 8439) with a 32-byte key and 12-byte nonce. Encrypting and
+// decrypting are the same operation.
+export const chacha20 = (key: Uint8Array, nonce: Uint8Array, data: Uint8Array, counter = 1): Uint8Array => {
+  const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  const nonceView = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength);
+  const input = new Uint32Array(16);
+  input.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+  for (let i = 0; i < 8; i++) input[4 + i] = keyView.getUint32(i * 4, true);
+  for (let i = 0; i < 3; i++) input[13 + i] = nonceView.getUint32(i * 4, true);
+
+  const output = new Uint8Array(data.length);
+  const working = new Uint32Array(16);
+  const keystream = new Uint8Array(64);
+  const keystreamView = new DataView(keystream.buffer);
+  for (let offset = 0; offset < data.length; offset += 64) {
+    input[12] = counter++;
+    working.set(input);
+    for (let round = 0; round < 10; round++) {
+      quarterRound(working, 0, 4, 8, 12);
+      quarterRound(working, 1, 5, 9, 13);
+      quarterRound(working, 2, 6, 10, 14);
+      quarterRound(working, 3, 7, 11, 15);
+      quarterRound(working, 0, 5, 10, 15);
+      quarterRound(working, 1, 6, 11, 12);
+      quarterRound(working, 2, 7, 8, 13);
+      quarterRound(working, 3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) keystreamView.setUint32(i * 4, (working[i] + input[i]) >>> 0, true);
+    const end = Math.min(64, data.length - offset);
+    for (let i = 0; i < end; i++) output[offset + i] = data[offset + i] ^ keystream[i];
+  }
+  return output;
+};
+
+export const utf8Encode = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+export const utf8Decode = (bytes: Uint8Array): string => {
+  const codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    if (byte < 0x80) {
+      codes.push(byte);
+      i += 1;
+    } else if (byte < 0xe0) {
+      codes.push(((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f));
+      i += 2;
+    } else if (byte < 0xf0) {
+      codes.push(((byte & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f));
+      i += 3;
+    } else {
+      codes.push(
+        ((byte & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12) | ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f)
+      );
+      i += 4;
+    }
+  }
+  let text = '';
+  // Spread in slices so long texts don't overflow the argument limit
+  for (let i = 0; i < codes.length; i += 4096) {
+    text += String.fromCodePoint(...codes.slice(i, i + 4096));
+  }
+  return text;
+};
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const fromHex = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+// Compares every byte so the time taken doesn't reveal where a tag differs
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+  return difference === 0;
+};
+
+export const randomBytes = (length: number): Uint8Array => getRandomBytes(length);
+
+export class DecryptionError extends Error {}
+
+const SEALED_PREFIX = 'v1';
+
+// Separate keys for encrypting and for the tag, both drawn from the one key
+const subkeys = (key: Uint8Array) => ({
+  encryption: hmacSha256(key, utf8Encode('entry-encryption')),
+  authentication: hmacSha256(key, utf8Encode('entry-authentication')),
+});
+
+const concatBytes = (a: Uint8Array, b: Uint8Array) => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+// Returns "v1:<nonce>:<ciphertext>:<tag>" in hex. Every call uses a fresh
+// random nonce, so the same text never seals to the same string twice.
+export const encryptText = (key: Uint8Array, text: string): string => {
+  const { encryption, authentication } = subkeys(key);
+  const nonce = randomBytes(12);
+  const ciphertext = chacha20(encryption, nonce, utf8Encode(text));
+  const tag = hmacSha256(authentication, concatBytes(nonce, ciphertext));
+  return [SEALED_PREFIX, toHex(nonce), toHex(ciphertext), toHex(tag)].join(':');
+};
+
+// Throws DecryptionError when the key is wrong or the text was tampered with
+export const decryptText = (key: Uint8Array, sealed: string): string => {
+  const [prefix, nonceHex, ciphertextHex, tagHex] = sealed.split(':');
+  if (prefix !== SEALED_PREFIX || !nonceHex || ciphertextHex === undefined || !tagHex) {
+    throw new DecryptionError('Unrecognised encrypted text');
+  }
+  const { encryption, authentication } = subkeys(key);
+  const nonce = fromHex(nonceHex);
+  const ciphertext = fromHex(ciphertextHex);
+  if (!bytesEqual(hmacSha256(authentication, concatBytes(nonce, ciphertext)), fromHex(tagHex))) {
+    throw new DecryptionError('Wrong key or damaged encrypted text');
+  }
+  return utf8Decode(chacha20(encryption, nonce, ciphertext));
+};
@@ -0,0 +1,77 @@
+export const startOfDay = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+export const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Day keys (YYYY-MM-DD) use local time, so an entry written late in the
+// evening counts for the day the user saw on their phone
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const fromDayKey = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toMonthKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+
+export type DateSortOrder = 'newest' | 'oldest';
+
+// Orders by each item's own date rather than the order it was saved in
+export const sortByDate = <T extends { date: string }>(items: T[], order: DateSortOrder): T[] =>
+  [...items].sort((a, b) => {
+    const difference = new Date(a.date).getTime() - new Date(b.date).getTime();
+    return order === 'newest' ? -difference : difference;
+  });
+
+// 'system' leaves the layout to the phone's region settings
+export type DateFormat = 'system' | 'dmy' | 'mdy' | 'ymd';
+
+export const DATE_FORMATS: DateFormat[] = ['system', 'dmy', 'mdy', 'ymd'];
+
+export const formatDate = (value: string | Date, format: DateFormat) => {
+  const date = new Date(value);
+  const day = pad(date.getDate());
+  const month = pad(date.getMonth() + 1);
+  switch (format) {
+    case 'dmy':
+      return `${day}/${month}/${date.getFullYear()}`;
+    case 'mdy':
+      return `${month}/${day}/${date.getFullYear()}`;
+    case 'ymd':
+      return toDayKey(date);
+    default:
+      return date.toLocaleDateString();
+  }
+};
+
+// With the weekday, for headings such as the top of an entry
+export const formatLongDate = (value: string | Date, format: DateFormat) => {
+  const date = new Date(value);
+  if (format === 'system') {
+    return date.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  }
+  return `${date.toLocaleDateString(undefined, { weekday: 'long' })}, ${formatDate(date, format)}`;
+};
+
+export const formatDateTime = (value: string | Date, format: DateFormat) => {
+  const date = new Date(value);
+  return `${formatDate(date, format)} ${date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// A short wait such as "45 seconds" or "3 minutes", rounded up
+export const formatWait = (ms: number) => {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,81 @@
+import type * as Location from 'expo-location';
+import { toLocationObject } from './geo.ts';
+
+// What a library photo says about itself. Either part may be missing: many
+// photos are stripped of GPS data, and screenshots have no capture time.
+export type PhotoMetadata = {
+  coords: { latitude: number; longitude: number; altitude: number | null } | null;
+  takenAt: Date | null;
+};
+
+type Exif = Record<string, unknown>;
+
+// A nested tag group such as {GPS}, or an empty one when it is missing
+const tagGroup = (value: unknown): Exif =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Exif) : {};
+
+// Android reports rationals such as "41/1,53/1,2399/100" (degrees, minutes,
+// seconds); iOS reports decimals
+const parseExifNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parts = value.split(',').map(part => {
+    const [numerator, denominator = '1'] = part.trim().split('/');
+    return Number(numerator) / Number(denominator);
+  });
+  if (parts.some(part => !Number.isFinite(part))) return null;
+  const [degrees = 0, minutes = 0, seconds = 0] = parts;
+  return degrees + minutes / 60 + seconds / 3600;
+};
+
+// South and West are negative; Android may already sign the value itself
+const signed = (value: number | null, ref: unknown, negativeRef: string) => {
+  if (value === null) return null;
+  return typeof ref === 'string' && ref.toUpperCase().startsWith(negativeRef) ? -Math.abs(value) : value;
+};
+
+const readCoords = (exif: Exif): PhotoMetadata['coords'] => {
+  // iOS nests GPS tags under {GPS}; Android keeps them flat with a GPS prefix
+  const gps = tagGroup(exif['{GPS}']);
+  const latitude = signed(
+    parseExifNumber(gps.Latitude ?? exif.GPSLatitude),
+    gps.LatitudeRef ?? exif.GPSLatitudeRef,
+    'S'
+  );
+  const longitude = signed(
+    parseExifNumber(gps.Longitude ?? exif.GPSLongitude),
+    gps.LongitudeRef ?? exif.GPSLongitudeRef,
+    'W'
+  );
+  if (latitude === null || longitude === null) return null;
+  // 0,0 is what some apps write when they have no fix
+  if (latitude === 0 && longitude === 0) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  const altitude = parseExifNumber(gps.Altitude ?? exif.GPSAltitude);
+  return { latitude, longitude, altitude };
+};
+
+// EXIF times look like "2024:05:17 14:03:22" in the camera's local time
+const readTakenAt = (exif: Exif): Date | null => {
+  const nested = tagGroup(exif['{Exif}']);
+  const raw = nested.DateTimeOriginal ?? exif.DateTimeOriginal ?? nested.DateTimeDigitized ?? exif.DateTime;
+  if (typeof raw !== 'string') return null;
+  const match = raw.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (isNaN(date.getTime()) || date.getTime() > Date.now()) return null;
+  return date;
+};
+
+export const readPhotoMetadata = (exif: Exif | null | undefined): PhotoMetadata => {
+  if (!exif) return { coords: null, takenAt: null };
+  return { coords: readCoords(exif), takenAt: readTakenAt(exif) };
+};
+
+export const hasPhotoMetadata = (metadata: PhotoMetadata) =>
+  metadata.coords !== null || metadata.takenAt !== null;
+
+// The photo's position in the shape entries store, or null without GPS data
+export const photoLocation = (metadata: PhotoMetadata): Location.LocationObject | null =>
+  metadata.coords ? toLocationObject(metadata.coords, (metadata.takenAt ?? new Date()).getTime()) : null;
@@ -0,0 +1,97 @@
+import type { LatLng, Region } from 'react-native-maps';
+import type * as Location from 'expo-location';
+
+const EARTH_RADIUS_KM = 6371;
+
+// Shown when there is nothing to centre a map on
+export const WORLD_REGION: Region = {
+  latitude: 20,
+  longitude: 0,
+  latitudeDelta: 120,
+  longitudeDelta: 120,
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points, in kilometres
+export const distanceKm = (from: LatLng, to: LatLng) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Smallest region showing every point, with some padding around the edges
+export const regionForPoints = (points: LatLng[]): Region | null => {
+  if (points.length === 0) return null;
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLon + maxLon) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.4, 0.05),
+    longitudeDelta: Math.max((maxLon - minLon) * 1.4, 0.05),
+  };
+};
+
+// Wraps bare coordinates in the shape entries store for device positions
+export const toLocationObject = (
+  coords: LatLng & { altitude?: number | null },
+  timestamp = Date.now()
+): Location.LocationObject => ({
+  coords: {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    altitude: coords.altitude ?? null,
+    accuracy: null,
+    altitudeAccuracy: null,
+    heading: null,
+    speed: null,
+  },
+  timestamp,
+});
+
+export type Cluster<T> = {
+  key: string;
+  coordinate: LatLng;
+  items: T[];
+};
+
+// Groups points that fall into the same cell of a grid laid over the visible
+// region. Cells shrink as the user zooms in, so clusters split apart.
+export const clusterPoints = <T>(
+  items: T[],
+  getCoordinate: (item: T) => LatLng,
+  region: Region,
+  cellsAcross = 8
+): Cluster<T>[] => {
+  const latCell = region.latitudeDelta / cellsAcross;
+  const lonCell = region.longitudeDelta / cellsAcross;
+  const cells = new Map<string, T[]>();
+
+  items.forEach(item => {
+    const { latitude, longitude } = getCoordinate(item);
+    const key = `${Math.floor(latitude / latCell)}:${Math.floor(longitude / lonCell)}`;
+    cells.set(key, [...(cells.get(key) ?? []), item]);
+  });
+
+  return Array.from(cells.entries()).map(([key, cellItems]) => {
+    const coordinates = cellItems.map(getCoordinate);
+    return {
+      key,
+      items: cellItems,
+      coordinate: {
+        latitude: coordinates.reduce((sum, c) => sum + c.latitude, 0) / coordinates.length,
+        longitude: coordinates.reduce((sum, c) => sum + c.longitude, 0) / coordinates.length,
+      },
+    };
+  });
+};
@@ -0,0 +1,147 @@
+import * as FileSystem from 'expo-file-system';
+import { utf8Decode } from './crypto.ts';
+
+// Part of a file, in bytes
+export type ByteRange = {
+  position: number;
+  length: number;
+};
+
+export type ScannedJson = {
+  // The parsed file, with each skipped string read as ""
+  value: unknown;
+  // Where each skipped string's contents are, by the keys leading to it.
+  // Array levels show up as ''.
+  skipped: { path: string[]; range: ByteRange }[];
+};
+
+// A multiple of 3, so each chunk is whole base64 with no padding
+const CHUNK_BYTES = 3 * 256 * 1024;
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_OBJECT = 0x7b;
+const CLOSE_OBJECT = 0x7d;
+const OPEN_ARRAY = 0x5b;
+const CLOSE_ARRAY = 0x5d;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Uint8Array(128);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) BASE64_VALUES[BASE64_ALPHABET.charCodeAt(i)] = i;
+
+const decodeBase64 = (text: string): Uint8Array => {
+  const digits = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((digits.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (let i = 0; i < digits.length; i++) {
+    buffer = ((buffer << 6) | BASE64_VALUES[digits.charCodeAt(i)]) & 0xffffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+};
+
+// Only base64 reads can start part way into a file
+const readBytes = async (uri: string, { position, length }: ByteRange) =>
+  decodeBase64(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64, position, length }));
+
+export const readText = async (uri: string, range: ByteRange): Promise<string> =>
+  utf8Decode(await readBytes(uri, range));
+
+const joinBytes = (parts: Uint8Array[]) => {
+  const joined = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    joined.set(part, offset);
+    offset += part.length;
+  });
+  return joined;
+};
+
+type Level = {
+  isObject: boolean;
+  expectingKey: boolean;
+  key: string;
+};
+
+// Parses a JSON file read a chunk at a time, leaving out the strings `skip`
+// picks so a large file never has to be in memory at once. Their contents
+// can be read later with readText. Only whole string values can be skipped.
+export const scanJsonFile = async (uri: string, skip: (path: string[]) => boolean): Promise<ScannedJson> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    throw new Error(`File '${uri}' does not exist`);
+  }
+
+  const kept: Uint8Array[] = [];
+  const skipped: ScannedJson['skipped'] = [];
+  const levels: Level[] = [];
+  let inString = false;
+  let escaped = false;
+  // The bytes of the key being read, if the current string is a key
+  let keyBytes: number[] | null = null;
+  // Where the skipped string being read started, or -1
+  let skipStart = -1;
+
+  for (let position = 0; position < info.size; position += CHUNK_BYTES) {
+    const chunk = await readBytes(uri, { position, length: CHUNK_BYTES });
+    // Where the bytes to keep start in this chunk, or -1 inside a skipped string
+    let keepFrom = skipStart >= 0 ? -1 : 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      const level = levels[levels.length - 1];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (byte === BACKSLASH) {
+          escaped = true;
+        } else if (byte === QUOTE) {
+          inString = false;
+          if (keyBytes) {
+            level.key = JSON.parse(`"${utf8Decode(Uint8Array.from(keyBytes))}"`);
+            keyBytes = null;
+          } else if (skipStart >= 0) {
+            const range = { position: skipStart, length: position + i - skipStart };
+            skipped.push({ path: levels.map(({ key }) => key), range });
+            skipStart = -1;
+            keepFrom = i;
+          }
+          continue;
+        }
+        keyBytes?.push(byte);
+        continue;
+      }
+
+      if (byte === QUOTE) {
+        inString = true;
+        if (level?.isObject && level.expectingKey) {
+          keyBytes = [];
+        } else if (skip(levels.map(({ key }) => key))) {
+          kept.push(chunk.slice(keepFrom, i + 1));
+          skipStart = position + i + 1;
+          keepFrom = -1;
+        }
+      } else if (byte === OPEN_OBJECT || byte === OPEN_ARRAY) {
+        levels.push({ isObject: byte === OPEN_OBJECT, expectingKey: byte === OPEN_OBJECT, key: '' });
+      } else if (byte === CLOSE_OBJECT || byte === CLOSE_ARRAY) {
+        levels.pop();
+      } else if (byte === COLON && level) {
+        level.expectingKey = false;
+      } else if (byte === COMMA && level?.isObject) {
+        level.expectingKey = true;
+      }
+    }
+
+    if (keepFrom >= 0) kept.push(chunk.slice(keepFrom));
+  }
+
+  return { value: JSON.parse(utf8Decode(joinBytes(kept))), skipped };
+};
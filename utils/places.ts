@@ -0,0 +1,34 @@
+import * as Location from 'expo-location';
+import { EntryPlace } from '../storage/entryRepository.ts';
+
+export const toEntryPlace = (address: Location.LocationGeocodedAddress): EntryPlace => ({
+  street: address.street ?? undefined,
+  city: address.city ?? undefined,
+  region: address.region ?? undefined,
+  country: address.country ?? undefined,
+});
+
+export const formatPlace = (place: EntryPlace) =>
+  [place.name, place.street, place.city, place.region, place.country]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+
+export const isEmptyPlace = (place: EntryPlace) => formatPlace(place) === '';
+
+export const reverseGeocodePlace = async (
+  coords: { latitude: number; longitude: number }
+): Promise<EntryPlace | null> => {
+  const results = await Location.reverseGeocodeAsync(coords);
+  return results && results.length > 0 ? toEntryPlace(results[0]) : null;
+};
+
+// Coordinates for a typed place name, or null when the geocoder has no match
+export const geocodePlaceName = async (
+  query: string
+): Promise<{ latitude: number; longitude: number } | null> => {
+  const results = await Location.geocodeAsync(query);
+  return results && results.length > 0
+    ? { latitude: results[0].latitude, longitude: results[0].longitude }
+    : null;
+};
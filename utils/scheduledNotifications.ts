@@ -0,0 +1,161 @@
+import * as Notifications from 'expo-notifications';
+import { EntryIndexRow, getEntriesByIds, getEntryDates, getEntryIndex } from '../storage/entryRepository.ts';
+import { Trip, findActiveTrip, getTrips } from '../storage/tripRepository.ts';
+import {
+  NotificationSettings,
+  NotificationTime,
+  getNotificationSettings,
+} from '../storage/notificationSettingsRepository.ts';
+import { NotificationTarget } from '../navigation/navigationRef.ts';
+import { startOfDay } from './dates.ts';
+
+// iOS keeps at most 64 pending notifications per app, so only the next few
+// weeks are scheduled. Each rebuild moves the window forward.
+const ON_THIS_DAY_DAYS = 30;
+const REMINDER_DAYS = 14;
+
+// Tags the notifications built here, so a rebuild leaves others alone
+type ScheduledKind = 'onThisDay' | 'reminder';
+
+type PlannedNotification = {
+  kind: ScheduledKind;
+  date: Date;
+  title: string;
+  body: string;
+  target: NotificationTarget;
+};
+
+const atTime = (day: Date, time: NotificationTime) => {
+  const date = new Date(day);
+  date.setHours(time.hour, time.minute, 0, 0);
+  return date;
+};
+
+// The days from today on whose notification time is still ahead
+const upcomingDays = (time: NotificationTime, count: number, now: Date) => {
+  const today = startOfDay(now);
+  const days: Date[] = [];
+  for (let offset = 0; days.length < count; offset++) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    if (atTime(day, time) > now) days.push(day);
+  }
+  return days;
+};
+
+// Local calendar day keys, so each date is parsed once rather than once per
+// upcoming day
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+const monthDayKey = (date: Date) => `${date.getMonth()}-${date.getDate()}`;
+
+// Matches days from the index alone; only the entry each notification leads
+// with is read, for its title and place
+const planOnThisDay = async (
+  rows: EntryIndexRow[],
+  settings: NotificationSettings['onThisDay'],
+  now: Date
+): Promise<PlannedNotification[]> => {
+  const byMonthDay = new Map<string, { row: EntryIndexRow; year: number }[]>();
+  rows.forEach(row => {
+    const date = new Date(row.date);
+    const key = monthDayKey(date);
+    if (!byMonthDay.has(key)) byMonthDay.set(key, []);
+    byMonthDay.get(key)!.push({ row, year: date.getFullYear() });
+  });
+  const days = upcomingDays(settings, ON_THIS_DAY_DAYS, now).flatMap(day => {
+    const memories = (byMonthDay.get(monthDayKey(day)) ?? [])
+      .filter(({ year }) => year < day.getFullYear())
+      .map(({ row }) => row)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return memories.length > 0 ? [{ day, memories }] : [];
+  });
+  if (days.length === 0) return [];
+
+  // The oldest memory leads; the rest are counted in the body
+  const leads = await getEntriesByIds(days.map(({ memories }) => memories[0].id));
+  return days.flatMap(({ day, memories }) => {
+    const oldest = leads.find(entry => entry.id === memories[0].id);
+    if (!oldest) return [];
+    const years = day.getFullYear() - new Date(oldest.date).getFullYear();
+    const others = memories.length - 1;
+    return [{
+      kind: 'onThisDay',
+      date: atTime(day, settings),
+      title: `On this day ${years} ${years === 1 ? 'year' : 'years'} ago`,
+      body: `${oldest.title}${oldest.address ? ` · ${oldest.address}` : ''}${others > 0 ? ` (+${others} more)` : ''}`,
+      target: { screen: 'EntryDetail', entryId: oldest.id },
+    }];
+  });
+};
+
+const planReminders = (
+  entryDates: string[],
+  trips: Trip[],
+  settings: NotificationSettings['reminder'],
+  now: Date
+): PlannedNotification[] => {
+  // Days that already have an entry, private or not, don't need a nudge
+  const written = new Set(entryDates.map(date => dayKey(new Date(date))));
+  return upcomingDays(settings, REMINDER_DAYS, now).flatMap(day => {
+    if (written.has(dayKey(day))) return [];
+    const trip = findActiveTrip(trips, atTime(day, settings));
+    if (settings.schedule === 'trips' && !trip) return [];
+    return [{
+      kind: 'reminder',
+      date: atTime(day, settings),
+      title: trip ? `How was today in ${trip.name}?` : 'Time to write in your diary',
+      body: 'Add a photo and a few words before the day slips away.',
+      target: { screen: 'AddEntry' },
+    }];
+  });
+};
+
+const rebuild = async () => {
+  const [settings, rows, entryDates, trips, scheduled] = await Promise.all([
+    getNotificationSettings(),
+    getEntryIndex(),
+    getEntryDates(),
+    getTrips(),
+    Notifications.getAllScheduledNotificationsAsync(),
+  ]);
+
+  await Promise.all(
+    scheduled
+      .filter(request => request.content.data?.kind === 'onThisDay' || request.content.data?.kind === 'reminder')
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+
+  const now = new Date();
+  // Notifications show on the lock screen, so private entries never appear in them
+  const memories = rows.filter(row => !row.isPrivate);
+  const planned = [
+    ...(settings.onThisDay.enabled ? await planOnThisDay(memories, settings.onThisDay, now) : []),
+    ...(settings.reminder.enabled ? planReminders(entryDates, trips, settings.reminder, now) : []),
+  ];
+
+  for (const notification of planned) {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: { ...notification.target, kind: notification.kind },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.date,
+        channelId: 'default',
+      },
+    });
+  }
+};
+
+let pendingRebuild: Promise<void> = Promise.resolve();
+
+// Cancels and re-creates every "On this day" memory and journaling reminder
+// from the current entries, trips and settings. Calls queue up so two quick
+// edits can't interleave their cancels and schedules.
+export const rescheduleNotifications = (): Promise<void> => {
+  pendingRebuild = pendingRebuild
+    .then(rebuild)
+    .catch(error => console.error('Error scheduling notifications:', error));
+  return pendingRebuild;
+};
@@ -0,0 +1,105 @@
+import { TravelEntry } from '../storage/entryRepository.ts';
+import { ActionStates } from '../storage/actionStateRepository.ts';
+import { getEntryTags } from './tags.ts';
+
+export type LocationFilter = 'any' | 'with' | 'without';
+
+export type EntryFilters = {
+  query: string;
+  // ISO strings; inclusive whole days
+  fromDate: string | null;
+  toDate: string | null;
+  country: string | null;
+  city: string | null;
+  likedOnly: boolean;
+  savedOnly: boolean;
+  location: LocationFilter;
+};
+
+export const EMPTY_FILTERS: EntryFilters = {
+  query: '',
+  fromDate: null,
+  toDate: null,
+  country: null,
+  city: null,
+  likedOnly: false,
+  savedOnly: false,
+  location: 'any',
+};
+
+export const hasActiveFilters = (filters: EntryFilters) =>
+  filters.fromDate !== null ||
+  filters.toDate !== null ||
+  filters.country !== null ||
+  filters.city !== null ||
+  filters.likedOnly ||
+  filters.savedOnly ||
+  filters.location !== 'any';
+
+const normalize = (text: string) => text.toLocaleLowerCase();
+
+const matchesQuery = (entry: TravelEntry, query: string) => {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const hashtags = getEntryTags(entry).map(tag => `#${tag}`);
+  const haystack = normalize([entry.title, entry.description, entry.address, ...hashtags].join('\n'));
+  // Every word must appear somewhere, in any field
+  return terms.every(term => haystack.includes(term));
+};
+
+// All filters combine with AND
+export const filterEntries = (
+  entries: TravelEntry[],
+  filters: EntryFilters,
+  actionStates: ActionStates
+) => {
+  const from = filters.fromDate ? new Date(filters.fromDate).getTime() : null;
+  const to = filters.toDate ? new Date(filters.toDate).getTime() : null;
+
+  return entries.filter(entry => {
+    const time = new Date(entry.date).getTime();
+    if (from !== null && time < from) return false;
+    if (to !== null && time > to) return false;
+    if (filters.country && entry.place?.country !== filters.country) return false;
+    if (filters.city && entry.place?.city !== filters.city) return false;
+    if (filters.likedOnly && !actionStates.liked[entry.id]) return false;
+    if (filters.savedOnly && !actionStates.saved[entry.id]) return false;
+    if (filters.location === 'with' && !entry.location) return false;
+    if (filters.location === 'without' && entry.location) return false;
+    return matchesQuery(entry, filters.query);
+  });
+};
+
+// Distinct, sorted values for the country and city pickers
+export const getPlaceOptions = (entries: TravelEntry[], country: string | null) => {
+  const countries = new Set<string>();
+  const cities = new Set<string>();
+  entries.forEach(entry => {
+    if (entry.place?.country) countries.add(entry.place.country);
+    if (entry.place?.city && (!country || entry.place.country === country)) {
+      cities.add(entry.place.city);
+    }
+  });
+  return {
+    countries: Array.from(countries).sort(),
+    cities: Array.from(cities).sort(),
+  };
+};
+
+export type TextSegment = { text: string; highlighted: boolean };
+
+// Splits text so every occurrence of a query word can be rendered highlighted
+export const highlightSegments = (text: string, query: string): TextSegment[] => {
+  const terms = query.split(/\s+/).filter(Boolean);
+  if (terms.length === 0 || !text) return [{ text, highlighted: false }];
+
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({
+      text: part,
+      highlighted: terms.some(term => normalize(term) === normalize(part)),
+    }));
+};
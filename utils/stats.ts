@@ -0,0 +1,162 @@
+import type { LatLng } from 'react-native-maps';
+import { TravelEntry } from '../storage/entryRepository.ts';
+import { distanceKm } from './geo.ts';
+import { fromDayKey, toDayKey, toMonthKey } from './dates.ts';
+import { groupEntriesByDay } from './timeline.ts';
+
+// Entries that share a country, city, month or year
+export type StatGroup = {
+  key: string;
+  label: string;
+  entries: TravelEntry[];
+};
+
+export type Streak = {
+  days: number;
+  // Local day keys (YYYY-MM-DD) of the first and last day
+  start: string;
+  end: string;
+  entries: TravelEntry[];
+};
+
+export type TravelStats = {
+  entryCount: number;
+  // Most entries first
+  countries: StatGroup[];
+  cities: StatGroup[];
+  // Newest first
+  years: StatGroup[];
+  months: StatGroup[];
+  // Summed between consecutive geotagged entries in date order
+  totalDistanceKm: number;
+  geotaggedEntries: TravelEntry[];
+  farthest: { entry: TravelEntry; distanceKm: number } | null;
+  longestStreak: Streak | null;
+};
+
+const nextDayKey = (dayKey: string) => {
+  const date = fromDayKey(dayKey);
+  date.setDate(date.getDate() + 1);
+  return toDayKey(date);
+};
+
+const coordsOf = (entry: TravelEntry): LatLng | null =>
+  entry.location
+    ? { latitude: entry.location.coords.latitude, longitude: entry.location.coords.longitude }
+    : null;
+
+// Buckets entries by key, ignoring entries without one. Keys compare
+// case-insensitively; the first spelling seen becomes the label.
+const groupEntries = (
+  entries: TravelEntry[],
+  getKey: (entry: TravelEntry) => { key: string; label: string } | null
+): StatGroup[] => {
+  const groups = new Map<string, StatGroup>();
+  entries.forEach(entry => {
+    const found = getKey(entry);
+    if (!found) return;
+    const key = found.key.toLowerCase();
+    const group = groups.get(key);
+    if (group) {
+      group.entries.push(entry);
+    } else {
+      groups.set(key, { key, label: found.label, entries: [entry] });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+const byCount = (a: StatGroup, b: StatGroup) =>
+  b.entries.length - a.entries.length || a.label.localeCompare(b.label);
+
+const byKeyDescending = (a: StatGroup, b: StatGroup) => b.key.localeCompare(a.key);
+
+const findLongestStreak = (entries: TravelEntry[]): Streak | null => {
+  const byDay = groupEntriesByDay(entries);
+  const days = Array.from(byDay.keys()).sort();
+  let longest: { start: number; end: number } | null = null;
+  let runStart = 0;
+  for (let index = 0; index < days.length; index++) {
+    if (index > 0 && nextDayKey(days[index - 1]) !== days[index]) {
+      runStart = index;
+    }
+    // Ties go to the most recent streak
+    if (!longest || index - runStart >= longest.end - longest.start) {
+      longest = { start: runStart, end: index };
+    }
+  }
+  if (!longest) return null;
+
+  const { start, end } = longest;
+  const streakDays = days.slice(start, end + 1);
+  return {
+    days: streakDays.length,
+    start: streakDays[0],
+    end: streakDays[streakDays.length - 1],
+    entries: streakDays.flatMap(day => byDay.get(day) ?? []),
+  };
+};
+
+// Every figure on the Stats screen, computed from stored coordinates and the
+// reverse-geocoded place of each entry. Pass null for home to skip the
+// farthest-place figure.
+export const computeTravelStats = (entries: TravelEntry[], home: LatLng | null): TravelStats => {
+  const countries = groupEntries(entries, entry => {
+    const country = entry.place?.country?.trim();
+    return country ? { key: country, label: country } : null;
+  }).sort(byCount);
+
+  // The same city name can exist in more than one country
+  const cities = groupEntries(entries, entry => {
+    const city = entry.place?.city?.trim();
+    if (!city) return null;
+    const country = entry.place?.country?.trim();
+    return { key: `${city}|${country ?? ''}`, label: country ? `${city}, ${country}` : city };
+  }).sort(byCount);
+
+  const years = groupEntries(entries, entry => {
+    const year = String(new Date(entry.date).getFullYear());
+    return { key: year, label: year };
+  }).sort(byKeyDescending);
+
+  const months = groupEntries(entries, entry => {
+    const date = new Date(entry.date);
+    return {
+      key: toMonthKey(date),
+      label: date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' }),
+    };
+  }).sort(byKeyDescending);
+
+  const geotaggedEntries = entries
+    .filter(entry => entry.location)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  let totalDistanceKm = 0;
+  for (let i = 1; i < geotaggedEntries.length; i++) {
+    totalDistanceKm += distanceKm(coordsOf(geotaggedEntries[i - 1])!, coordsOf(geotaggedEntries[i])!);
+  }
+
+  let farthest: TravelStats['farthest'] = null;
+  if (home) {
+    geotaggedEntries.forEach(entry => {
+      const distance = distanceKm(home, coordsOf(entry)!);
+      if (!farthest || distance > farthest.distanceKm) {
+        farthest = { entry, distanceKm: distance };
+      }
+    });
+  }
+
+  return {
+    entryCount: entries.length,
+    countries,
+    cities,
+    years,
+    months,
+    totalDistanceKm,
+    geotaggedEntries,
+    farthest,
+    longestStreak: findLongestStreak(entries),
+  };
+};
+
+export const formatDistance = (km: number) =>
+  km >= 100 ? `${Math.round(km).toLocaleString()} km` : `${km.toFixed(1)} km`;
@@ -0,0 +1,358 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  TravelEntry,
+  applySyncedEntries,
+  getEntries,
+  getEntriesByIds,
+  getEntry,
+  getTrashedEntriesByIds,
+} from '../storage/entryRepository.ts';
+import {
+  ActionState,
+  PostAction,
+  applySyncedActionFlags,
+  getActionStates,
+} from '../storage/actionStateRepository.ts';
+import {
+  ACTION_SYNC_FIELDS,
+  SYNCED_ENTRY_FIELDS,
+  SyncField,
+  SyncOperation,
+  clearSyncQueue,
+  completeOperation,
+  getFieldVersions,
+  getSyncQueue,
+  postponeOperation,
+  queueEverything,
+  recordSyncedVersions,
+} from '../storage/syncQueue.ts';
+import {
+  SyncSettings,
+  getSyncSettings,
+  getSyncState,
+  saveSyncSettings,
+  saveSyncState,
+} from '../storage/syncSettingsRepository.ts';
+import { addConflicts } from '../storage/conflictLogRepository.ts';
+import { downloadPhoto, getStoredPhotoUri, photoExists } from '../storage/photoStore.ts';
+
+// Failed operations wait 5s, 10s, 20s... up to half an hour before retrying
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+// Local edits are sent after a short pause so a burst of changes goes together
+const SYNC_DELAY_MS = 2000;
+
+export const retryDelay = (attempts: number) => Math.min(BASE_RETRY_MS * 2 ** attempts, MAX_RETRY_MS);
+
+// The shapes the server sends; see server/README.md
+type ServerField = { value: unknown; updatedAt: string; deviceId: string };
+
+type ServerRecord = {
+  id: string;
+  seq: number;
+  fields: { [field in SyncField]?: ServerField };
+};
+
+type ServerConflict = {
+  field: SyncField;
+  winner: 'client' | 'server';
+  serverValue: unknown;
+  clientValue: unknown;
+};
+
+const apiUrl = (settings: SyncSettings, path: string) => `${settings.serverUrl.replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (settings: SyncSettings): { [key: string]: string } =>
+  settings.token ? { Authorization: `Bearer ${settings.token}` } : {};
+
+const requestJson = async <T>(settings: SyncSettings, method: string, path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(apiUrl(settings, path), {
+    method,
+    headers: { ...authHeaders(settings), 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+// Photo names have no slashes; anything else is a URI from outside the store
+const isPhotoName = (image: string) => !image.includes('/');
+
+const toLocalImages = (images: string[]) =>
+  images.map(image => (isPhotoName(image) ? getStoredPhotoUri(image) : image));
+
+const downloadMissingPhotos = async (settings: SyncSettings, images: string[]) => {
+  for (const name of images.filter(isPhotoName)) {
+    if (!(await photoExists(getStoredPhotoUri(name)))) {
+      await downloadPhoto(apiUrl(settings, `/v1/photos/${encodeURIComponent(name)}`), name, authHeaders(settings));
+    }
+  }
+};
+
+// Builds the entry a server record describes on top of the local copy.
+// Returns null when a new entry is missing fields every entry needs.
+const mergeRecordFields = (
+  local: TravelEntry | undefined,
+  id: string,
+  fields: { [field in SyncField]?: ServerField }
+): TravelEntry | null => {
+  const merged: { [key: string]: unknown } = {
+    description: '',
+    coverIndex: 0,
+    location: null,
+    address: '',
+    ...local,
+    id,
+  };
+  SYNCED_ENTRY_FIELDS.forEach(field => {
+    const remote = fields[field];
+    if (!remote) return;
+    if (field === 'images') {
+      merged.images = toLocalImages(remote.value as string[]);
+    } else {
+      // Null stands in for a missing optional field
+      merged[field] = remote.value ?? undefined;
+    }
+  });
+  const entry = merged as TravelEntry;
+  if (typeof entry.title !== 'string' || !Array.isArray(entry.images) || entry.images.length === 0 || !entry.date) {
+    return null;
+  }
+  return entry;
+};
+
+// Applies every field the server holds a newer value for. Fields with local
+// changes still waiting to be sent are left alone; the server settles those
+// when they arrive.
+const applyRecords = async (settings: SyncSettings, records: ServerRecord[]) => {
+  if (records.length === 0) return;
+  const ids = records.map(record => record.id);
+  const [entries, trashed, versions, queue] = await Promise.all([
+    getEntriesByIds(ids),
+    getTrashedEntriesByIds(ids),
+    getFieldVersions(),
+    getSyncQueue(),
+  ]);
+  const activeById = new Map(entries.map(entry => [entry.id, entry]));
+  const trashedById = new Map(trashed.map(({ entry }) => [entry.id, entry]));
+  const pending = new Map<string, Set<string>>();
+  queue.forEach(operation => {
+    if (operation.kind === 'entry') {
+      pending.set(operation.entryId, new Set(Object.keys(operation.fields)));
+    }
+  });
+
+  const upserts: TravelEntry[] = [];
+  const deletedIds: string[] = [];
+  const withdrawnIds: string[] = [];
+  const flags: { [action in PostAction]: ActionState } = { like: {}, share: {}, save: {} };
+  const versionUpdates: { entryId: string; fields: { [field in SyncField]?: string } }[] = [];
+
+  for (const record of records) {
+    const localVersions = versions[record.id] ?? {};
+    const newer: { [field in SyncField]?: ServerField } = {};
+    (Object.keys(record.fields) as SyncField[]).forEach(field => {
+      const remote = record.fields[field]!;
+      if (remote.updatedAt > (localVersions[field] ?? '') && !pending.get(record.id)?.has(field)) {
+        newer[field] = remote;
+      }
+    });
+    const newerFields = Object.keys(newer) as SyncField[];
+    if (newerFields.length === 0) continue;
+
+    const active = activeById.get(record.id);
+    const inTrash = trashedById.get(record.id);
+    const deleted = newer.deleted ? newer.deleted.value === true : !active;
+    const applied: { [field in SyncField]?: string } = {};
+
+    (Object.keys(ACTION_SYNC_FIELDS) as PostAction[]).forEach(action => {
+      const remote = newer[ACTION_SYNC_FIELDS[action]];
+      if (remote) {
+        flags[action][record.id] = remote.value === true;
+        applied[ACTION_SYNC_FIELDS[action]] = remote.updatedAt;
+      }
+    });
+
+    if (record.fields.withdrawn?.value === true) {
+      // Made private on another device; nothing readable is left to apply
+      withdrawnIds.push(record.id);
+      newerFields.forEach(field => {
+        applied[field] = newer[field]!.updatedAt;
+      });
+    } else if (deleted) {
+      if (active) deletedIds.push(record.id);
+      if (newer.deleted) applied.deleted = newer.deleted.updatedAt;
+    } else {
+      // Restored elsewhere, edited, or new to this device
+      const entry = mergeRecordFields(active ?? inTrash, record.id, newer);
+      if (entry) {
+        await downloadMissingPhotos(settings, entry.images);
+        upserts.push(entry);
+        newerFields.forEach(field => {
+          applied[field] = newer[field]!.updatedAt;
+        });
+      }
+    }
+    versionUpdates.push({ entryId: record.id, fields: applied });
+  }
+
+  if (upserts.length > 0 || deletedIds.length > 0 || withdrawnIds.length > 0) {
+    await applySyncedEntries(upserts, deletedIds, withdrawnIds);
+  }
+  for (const action of Object.keys(flags) as PostAction[]) {
+    await applySyncedActionFlags(action, flags[action]);
+  }
+  await recordSyncedVersions(versionUpdates);
+};
+
+const logConflicts = async (entryId: string, conflicts: ServerConflict[]) => {
+  if (conflicts.length === 0) return;
+  const entryTitle = (await getEntry(entryId))?.title ?? 'Deleted entry';
+  await addConflicts(
+    conflicts.map(conflict => ({
+      entryId,
+      entryTitle,
+      field: conflict.field,
+      winner: conflict.winner === 'client' ? 'local' : 'remote',
+      keptValue: conflict.winner === 'client' ? conflict.clientValue : conflict.serverValue,
+      discardedValue: conflict.winner === 'client' ? conflict.serverValue : conflict.clientValue,
+    }))
+  );
+};
+
+const pushOperation = async (settings: SyncSettings, deviceId: string, operation: SyncOperation) => {
+  if (operation.kind === 'photo') {
+    // Removed again before it was uploaded; nothing refers to it any more
+    if (!(await photoExists(operation.uri))) return;
+    const result = await FileSystem.uploadAsync(
+      apiUrl(settings, `/v1/photos/${encodeURIComponent(operation.name)}`),
+      operation.uri,
+      {
+        httpMethod: 'PUT',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers: authHeaders(settings),
+      }
+    );
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Photo upload failed with status ${result.status}`);
+    }
+    return;
+  }
+
+  const { record, conflicts } = await requestJson<{ record: ServerRecord; conflicts: ServerConflict[] }>(
+    settings,
+    'PUT',
+    `/v1/entries/${encodeURIComponent(operation.entryId)}`,
+    { deviceId, fields: operation.fields }
+  );
+  await completeOperation(operation);
+  // Fields where the server kept another device's newer value
+  await applyRecords(settings, [record]);
+  await logConflicts(operation.entryId, conflicts);
+};
+
+// Sends queued changes, photos first so entries never refer to a photo the
+// server doesn't have yet. Stops at the first failure, which usually means
+// the server can't be reached.
+const pushQueue = async (settings: SyncSettings, deviceId: string) => {
+  const queue = await getSyncQueue();
+  const now = Date.now();
+  const due = queue
+    .filter(operation => operation.nextAttemptAt <= now)
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'photo' ? -1 : 1));
+  for (const operation of due) {
+    try {
+      await pushOperation(settings, deviceId, operation);
+      if (operation.kind === 'photo') {
+        await completeOperation(operation);
+      }
+    } catch (error) {
+      await postponeOperation(operation, retryDelay(operation.attempts));
+      throw error;
+    }
+  }
+};
+
+// Pulls every change since the last sync, a page at a time. Returns the new cursor.
+const pullChanges = async (settings: SyncSettings, since: number) => {
+  let cursor = since;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await requestJson<{ records: ServerRecord[]; cursor: number; hasMore: boolean }>(
+      settings,
+      'GET',
+      `/v1/changes?since=${cursor}`
+    );
+    await applyRecords(settings, page.records);
+    cursor = page.cursor;
+    hasMore = page.hasMore;
+  }
+  return cursor;
+};
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Wakes up again when the earliest postponed operation is due
+const scheduleRetry = async () => {
+  const queue = await getSyncQueue();
+  if (queue.length === 0) return;
+  const nextAttemptAt = Math.min(...queue.map(operation => operation.nextAttemptAt));
+  requestSync(Math.max(nextAttemptAt - Date.now(), SYNC_DELAY_MS));
+};
+
+const runSync = async () => {
+  const settings = await getSyncSettings();
+  if (!settings.enabled || !settings.serverUrl) return;
+  const state = await getSyncState();
+  try {
+    await pushQueue(settings, state.deviceId);
+    const cursor = await pullChanges(settings, state.cursor);
+    await saveSyncState({ ...state, cursor, lastSyncedAt: new Date().toISOString(), lastError: null });
+  } catch (error) {
+    await saveSyncState({ ...state, lastError: error instanceof Error ? error.message : String(error) });
+    throw error;
+  } finally {
+    await scheduleRetry();
+  }
+};
+
+let syncChain: Promise<void> = Promise.resolve();
+
+// Pushes queued changes and pulls remote ones. Runs one at a time; a call
+// made while a sync is running waits for it and then syncs again.
+export const syncNow = (): Promise<void> => {
+  const run = syncChain.then(runSync);
+  syncChain = run.catch(() => undefined);
+  return run;
+};
+
+// Syncs in the background after a delay, replacing any sync already waiting
+export const requestSync = (delayMs = SYNC_DELAY_MS) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncNow().catch(error => console.error('Error syncing:', error));
+  }, delayMs);
+};
+
+// Switches sync on and queues the whole diary, so the server ends up with
+// everything this device has
+export const turnOnSync = async (serverUrl: string, token: string) => {
+  await saveSyncSettings({ enabled: true, serverUrl: serverUrl.trim(), token: token.trim() });
+  const state = await getSyncState();
+  await saveSyncState({ ...state, cursor: 0, lastError: null });
+  const [entries, actionStates] = await Promise.all([getEntries(), getActionStates()]);
+  await queueEverything(entries, actionStates);
+  await syncNow();
+};
+
+export const turnOffSync = async () => {
+  const settings = await getSyncSettings();
+  await saveSyncSettings({ ...settings, enabled: false });
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  await clearSyncQueue();
+};
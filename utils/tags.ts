@@ -0,0 +1,51 @@
+import type { TravelEntry } from '../storage/entryRepository.ts';
+
+// A hashtag starts a word and runs until whitespace or punctuation, so
+// "#streetfood," and "(#beach)" both work and any script is allowed
+const HASHTAG_PATTERN = /(^|[\s(\[{"'“])#([^\s#.,!?;:()[\]{}"'“”/\\]+)/g;
+
+// Tags are stored lowercase without the "#", e.g. "beach"
+export const normalizeTag = (raw: string) => raw.trim().replace(/^#+/, '').replace(/\s+/g, '').toLocaleLowerCase();
+
+const unique = (tags: string[]) => [...new Set(tags.filter(Boolean))];
+
+export const mergeTags = (...lists: string[][]) => unique(lists.flat().map(normalizeTag));
+
+export const extractHashtags = (text: string) =>
+  unique([...text.matchAll(HASHTAG_PATTERN)].map(match => normalizeTag(match[2])));
+
+// Entries saved before tags existed fall back to their caption's hashtags
+export const getEntryTags = (entry: TravelEntry): string[] => entry.tags ?? extractHashtags(entry.description);
+
+// The tags that don't already show as hashtags in the caption
+export const getHandAddedTags = (entry: TravelEntry): string[] => {
+  const hashtags = extractHashtags(entry.description);
+  return getEntryTags(entry).filter(tag => !hashtags.includes(tag));
+};
+
+export type TextSegment = {
+  text: string;
+  // Set when the segment is a hashtag
+  tag?: string;
+};
+
+// Splits a caption into plain text and hashtags so the hashtags can be tapped
+export const splitHashtags = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > last) segments.push({ text: text.slice(last, start) });
+    const hashtag = `#${match[2]}`;
+    segments.push({ text: hashtag, tag: normalizeTag(match[2]) });
+    last = start + hashtag.length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+// Rewrites every "#from" in a caption to "#to", whatever its case
+export const renameHashtag = (text: string, from: string, to: string) =>
+  splitHashtags(text)
+    .map(segment => (segment.tag === from ? `#${to}` : segment.text))
+    .join('');
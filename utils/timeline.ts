@@ -0,0 +1,69 @@
+import { TravelEntry } from '../storage/entryRepository.ts';
+import { DateSortOrder, fromDayKey, sortByDate, toDayKey, toMonthKey } from './dates.ts';
+
+// One row of the timeline: a header or an entry beneath it
+export type TimelineItem =
+  | { type: 'year'; key: string; label: string }
+  | { type: 'month'; key: string; label: string }
+  | { type: 'day'; key: string; dayKey: string; label: string }
+  | { type: 'entry'; key: string; entry: TravelEntry };
+
+// Entries keyed by local day (YYYY-MM-DD)
+export const groupEntriesByDay = (entries: TravelEntry[]) => {
+  const days = new Map<string, TravelEntry[]>();
+  entries.forEach(entry => {
+    const day = toDayKey(new Date(entry.date));
+    days.set(day, [...(days.get(day) ?? []), entry]);
+  });
+  return days;
+};
+
+// Entries in date order with a header above each new year, month and day
+export const buildTimeline = (entries: TravelEntry[], order: DateSortOrder): TimelineItem[] => {
+  const items: TimelineItem[] = [];
+  let year = '';
+  let month = '';
+  let day = '';
+  sortByDate(entries, order).forEach(entry => {
+    const date = new Date(entry.date);
+    if (String(date.getFullYear()) !== year) {
+      year = String(date.getFullYear());
+      items.push({ type: 'year', key: `year-${year}`, label: year });
+    }
+    if (toMonthKey(date) !== month) {
+      month = toMonthKey(date);
+      items.push({
+        type: 'month',
+        key: `month-${month}`,
+        label: date.toLocaleDateString(undefined, { month: 'long' }),
+      });
+    }
+    if (toDayKey(date) !== day) {
+      day = toDayKey(date);
+      items.push({
+        type: 'day',
+        key: `day-${day}`,
+        dayKey: day,
+        label: fromDayKey(day).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' }),
+      });
+    }
+    items.push({ type: 'entry', key: entry.id, entry });
+  });
+  return items;
+};
+
+// Index of the day header for the given date, or of the nearest day past it
+// in the timeline's direction. -1 when the timeline is empty.
+export const findDayIndex = (items: TimelineItem[], date: Date, order: DateSortOrder) => {
+  const target = toDayKey(date);
+  let last = -1;
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    if (item.type !== 'day') continue;
+    if (order === 'newest' ? item.dayKey <= target : item.dayKey >= target) {
+      return index;
+    }
+    last = index;
+  }
+  return last;
+};